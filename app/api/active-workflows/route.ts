@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { listActiveWorkflows } from "@/lib/server/active-workflows";
+
+export async function GET() {
+  try {
+    return NextResponse.json({ workflows: await listActiveWorkflows() });
+  } catch (error) {
+    console.error("Failed to list active workflows:", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error && error.message ? error.message : "Failed to list active workflows",
+      },
+      { status: 500 }
+    );
+  }
+}
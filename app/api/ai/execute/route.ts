@@ -1,84 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { GoogleGenAI } from "@google/genai";
 import OpenAI from "openai";
-
-// Helper functions to resolve template variables
-const isObject = (value: unknown): value is Record<string, unknown> =>
-  typeof value === "object" && value !== null;
-
-const stringifyValue = (value: unknown): string =>
-  isObject(value) ? JSON.stringify(value) : String(value);
-
-const resolvePath = (source: unknown, path: string): unknown => {
-  if (!path) return source;
-
-  const sanitized = path
-    .replace(/\[(\w+)\]/g, ".$1")
-    .replace(/^\./, "");
-
-  const segments = sanitized.split(".").filter(Boolean);
-
-  return segments.reduce<unknown>((acc, key) => {
-    if (acc === undefined || acc === null) {
-      return undefined;
-    }
-
-    if (Array.isArray(acc)) {
-      const index = Number(key);
-      return Number.isInteger(index) ? acc[index] : undefined;
-    }
-
-    if (isObject(acc)) {
-      return acc[key];
-    }
-
-    return undefined;
-  }, source);
-};
-
-function replaceTemplateVariables(
-  text: unknown,
-  input: unknown,
-  previousNodes: Record<string, unknown> = {}
-): string {
-  if (typeof text !== "string") {
-    return String(text ?? "");
-  }
-
-  return text.replace(/\{\{([^}]+)\}\}/g, (match, rawPath) => {
-    const trimmedPath = rawPath.trim();
-    if (!trimmedPath) {
-      return match;
-    }
-
-    if (trimmedPath === "input") {
-      return stringifyValue(input);
-    }
-
-    if (trimmedPath.startsWith("input.")) {
-      const value = resolvePath(input, trimmedPath.slice(6));
-      return value !== undefined && value !== null ? stringifyValue(value) : match;
-    }
-
-    const [nodeId, ...rest] = trimmedPath.split(".");
-    if (nodeId) {
-      const nodeOutput = previousNodes[nodeId];
-      if (nodeOutput !== undefined) {
-        if (rest.length === 0) {
-          return stringifyValue(nodeOutput);
-        }
-        const value = resolvePath(nodeOutput, rest.join("."));
-        return value !== undefined && value !== null ? stringifyValue(value) : match;
-      }
-    }
-
-    return match;
-  });
-}
+import { replaceTemplateVariables, type TemplateContext } from "@/lib/templates";
 
 export async function POST(request: NextRequest) {
   try {
-    const { type, config, input, previousNodes = {} } = await request.json();
+    const { type, config, input, previousNodes = {}, vars = {}, item } = await request.json();
+    const templateContext: TemplateContext = { input, previousNodes, vars, item };
 
     // Get API key from environment
     const geminiOpenAIKey = process.env.GEMINI_OPENAI_API_KEY;
@@ -125,7 +53,7 @@ export async function POST(request: NextRequest) {
         result = await executeTextGenerator(
           config,
           input,
-          previousNodes,
+          templateContext,
           genAI,
           openaiClient,
           modelName,
@@ -137,7 +65,7 @@ export async function POST(request: NextRequest) {
         result = await executeAnalyzer(
           config,
           input,
-          previousNodes,
+          templateContext,
           genAI,
           openaiClient,
           modelName,
@@ -149,7 +77,7 @@ export async function POST(request: NextRequest) {
         result = await executeChatbot(
           config,
           input,
-          previousNodes,
+          templateContext,
           genAI,
           openaiClient,
           modelName,
@@ -161,7 +89,7 @@ export async function POST(request: NextRequest) {
         result = await executeDataExtractor(
           config,
           input,
-          previousNodes,
+          templateContext,
           genAI,
           openaiClient,
           modelName,
@@ -235,7 +163,7 @@ export async function POST(request: NextRequest) {
 async function executeTextGenerator(
   config: any,
   input: any,
-  previousNodes: Record<string, any>,
+  templateContext: TemplateContext,
   genAI: GoogleGenAI,
   openaiClient: OpenAI | null,
   modelName: string,
@@ -244,7 +172,7 @@ async function executeTextGenerator(
   let { prompt, temperature, maxTokens } = config;
 
   // Replace template variables in prompt
-  prompt = replaceTemplateVariables(prompt, input, previousNodes);
+  prompt = replaceTemplateVariables(prompt, templateContext);
 
   // If input is provided and prompt doesn't include it, append it
   if (input && !prompt.includes("{{input}}")) {
@@ -363,7 +291,7 @@ async function callGeminiAPI(
 async function executeAnalyzer(
   config: any,
   input: any,
-  previousNodes: Record<string, any>,
+  templateContext: TemplateContext,
   genAI: GoogleGenAI,
   openaiClient: OpenAI | null,
   modelName: string,
@@ -372,7 +300,7 @@ async function executeAnalyzer(
   let { text, analysisType } = config;
 
   // Process template variables in text
-  text = replaceTemplateVariables(text, input, previousNodes);
+  text = replaceTemplateVariables(text, templateContext);
 
   // If input is provided and text doesn't include it, use input
   if (input && !text) {
@@ -426,7 +354,7 @@ async function executeAnalyzer(
 async function executeChatbot(
   config: any,
   input: any,
-  previousNodes: Record<string, any>,
+  templateContext: TemplateContext,
   genAI: GoogleGenAI,
   openaiClient: OpenAI | null,
   modelName: string,
@@ -435,8 +363,8 @@ async function executeChatbot(
   let { systemPrompt, userMessage, personality } = config;
 
   // Process template variables
-  systemPrompt = replaceTemplateVariables(systemPrompt, input, previousNodes);
-  userMessage = replaceTemplateVariables(userMessage, input, previousNodes);
+  systemPrompt = replaceTemplateVariables(systemPrompt, templateContext);
+  userMessage = replaceTemplateVariables(userMessage, templateContext);
 
   // If input is provided and userMessage doesn't include it, use input
   if (input && !userMessage) {
@@ -477,7 +405,7 @@ async function executeChatbot(
 async function executeDataExtractor(
   config: any,
   input: any,
-  previousNodes: Record<string, any>,
+  templateContext: TemplateContext,
   genAI: GoogleGenAI,
   openaiClient: OpenAI | null,
   modelName: string,
@@ -486,8 +414,8 @@ async function executeDataExtractor(
   let { text, schema } = config;
 
   // Process template variables
-  text = replaceTemplateVariables(text, input, previousNodes);
-  schema = replaceTemplateVariables(schema, input, previousNodes);
+  text = replaceTemplateVariables(text, templateContext);
+  schema = replaceTemplateVariables(schema, templateContext);
 
   // If input is provided and text doesn't include it, use input
   if (input && !text) {
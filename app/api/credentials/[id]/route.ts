@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  CredentialError,
+  deleteCredential,
+  updateCredential,
+} from "@/lib/server/credentials";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const errorResponse = (error: unknown, fallback: string) =>
+  NextResponse.json(
+    { error: error instanceof Error && error.message ? error.message : fallback },
+    { status: error instanceof CredentialError ? error.status : 500 }
+  );
+
+const updateCredentialSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").optional(),
+  allowedUrls: z
+    .array(z.string())
+    .min(1, "Add at least one URL the credential may be sent to")
+    .optional(),
+  data: z.record(z.string(), z.string()).optional(),
+});
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+    const parsed = updateCredentialSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || "Invalid credential" },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await params;
+    const credential = await updateCredential(id, parsed.data);
+    return NextResponse.json({ credential });
+  } catch (error) {
+    console.error("Failed to update credential:", error);
+    return errorResponse(error, "Failed to update credential");
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    await deleteCredential(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to delete credential:", error);
+    return errorResponse(error, "Failed to delete credential");
+  }
+}
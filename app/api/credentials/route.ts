@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  createCredential,
+  CredentialError,
+  listCredentials,
+} from "@/lib/server/credentials";
+
+const errorResponse = (error: unknown, fallback: string) =>
+  NextResponse.json(
+    { error: error instanceof Error && error.message ? error.message : fallback },
+    { status: error instanceof CredentialError ? error.status : 500 }
+  );
+
+const createCredentialSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  type: z.enum(["bearer", "basic", "apiKeyHeader", "oauth2ClientCredentials"]),
+  allowedUrls: z.array(z.string()).min(1, "Add at least one URL the credential may be sent to"),
+  data: z.record(z.string(), z.string()),
+});
+
+export async function GET() {
+  try {
+    return NextResponse.json({ credentials: await listCredentials() });
+  } catch (error) {
+    console.error("Failed to list credentials:", error);
+    return errorResponse(error, "Failed to list credentials");
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+    const parsed = createCredentialSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || "Invalid credential" },
+        { status: 400 }
+      );
+    }
+
+    const credential = await createCredential(parsed.data);
+    return NextResponse.json({ credential }, { status: 201 });
+  } catch (error) {
+    console.error("Failed to create credential:", error);
+    return errorResponse(error, "Failed to create credential");
+  }
+}
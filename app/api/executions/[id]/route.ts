@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { executionLogSchema } from "@/lib/server/execution-query";
+import { getStorage, StorageError } from "@/lib/server/storage";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const errorResponse = (error: unknown, fallback: string) =>
+  NextResponse.json(
+    { error: error instanceof Error && error.message ? error.message : fallback },
+    { status: error instanceof StorageError ? error.status : 500 }
+  );
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const execution = await getStorage().getExecution(id);
+    if (!execution) {
+      return NextResponse.json({ error: "Execution not found" }, { status: 404 });
+    }
+    return NextResponse.json({ execution });
+  } catch (error) {
+    console.error("Failed to load execution:", error);
+    return errorResponse(error, "Failed to load execution");
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+    const parsed = executionLogSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || "Invalid execution" },
+        { status: 400 }
+      );
+    }
+    if (parsed.data.id !== id) {
+      return NextResponse.json({ error: "Execution id does not match the URL" }, { status: 400 });
+    }
+
+    const execution = await getStorage().saveExecution(parsed.data);
+    return NextResponse.json({ execution });
+  } catch (error) {
+    console.error("Failed to update execution:", error);
+    return errorResponse(error, "Failed to update execution");
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    await getStorage().deleteExecution(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (!(error instanceof StorageError)) {
+      console.error("Failed to delete execution:", error);
+    }
+    return errorResponse(error, "Failed to delete execution");
+  }
+}
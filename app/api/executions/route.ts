@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  DEFAULT_EXECUTION_PAGE_SIZE,
+  MAX_EXECUTION_PAGE_SIZE,
+  executionModes,
+  executionStatuses,
+} from "@/lib/execution-history";
+import { executionLogSchema } from "@/lib/server/execution-query";
+import { getStorage, StorageError } from "@/lib/server/storage";
+
+const errorResponse = (error: unknown, fallback: string) =>
+  NextResponse.json(
+    { error: error instanceof Error && error.message ? error.message : fallback },
+    { status: error instanceof StorageError ? error.status : 500 }
+  );
+
+/** Milliseconds since the epoch or an ISO date. */
+const timestampParam = (name: string) =>
+  z
+    .string()
+    .transform((value) => (/^\d+$/.test(value) ? Number(value) : Date.parse(value)))
+    .refine(Number.isFinite, `${name} must be a timestamp or an ISO date`)
+    .optional();
+
+const executionQuerySchema = z.object({
+  status: z.enum(executionStatuses).optional(),
+  workflowId: z.string().min(1).optional(),
+  mode: z.enum(executionModes).optional(),
+  from: timestampParam("from"),
+  to: timestampParam("to"),
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce
+    .number()
+    .int("limit must be a whole number")
+    .min(1, "limit must be at least 1")
+    .max(MAX_EXECUTION_PAGE_SIZE, `limit must be at most ${MAX_EXECUTION_PAGE_SIZE}`)
+    .default(DEFAULT_EXECUTION_PAGE_SIZE),
+});
+
+/**
+ * Lists executions newest first, filtered by `status`, `workflowId`, `mode`
+ * and a `from`/`to` date range. Pass `nextCursor` back as `cursor` for the
+ * next page.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const parsed = executionQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || "Invalid query" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(await getStorage().listExecutions(parsed.data));
+  } catch (error) {
+    console.error("Failed to list executions:", error);
+    return errorResponse(error, "Failed to list executions");
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+    const parsed = executionLogSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || "Invalid execution" },
+        { status: 400 }
+      );
+    }
+
+    const execution = await getStorage().saveExecution(parsed.data);
+    return NextResponse.json({ execution }, { status: 201 });
+  } catch (error) {
+    console.error("Failed to save execution:", error);
+    return errorResponse(error, "Failed to save execution");
+  }
+}
+
+export async function DELETE() {
+  try {
+    await getStorage().clearExecutions();
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to clear executions:", error);
+    return errorResponse(error, "Failed to clear executions");
+  }
+}
@@ -1,9 +1,10 @@
 
 import { NextRequest, NextResponse } from "next/server";
+import { CredentialError, getCredentialHeaders } from "@/lib/server/credentials";
 
 export async function POST(request: NextRequest) {
   try {
-    const { url, method = "GET", headers = "{}", body } = await request.json();
+    const { url, method = "GET", headers = "{}", body, credentialId } = await request.json();
 
     // Validate URL
     if (!url || typeof url !== "string") {
@@ -24,6 +25,19 @@ export async function POST(request: NextRequest) {
       // Ignore invalid JSON headers
     }
 
+    // Credential headers are resolved here so secrets never reach the browser
+    let credentialHeaders: Record<string, string> = {};
+    if (credentialId && typeof credentialId === "string") {
+      try {
+        credentialHeaders = await getCredentialHeaders(credentialId, validUrl, request.signal);
+      } catch (error) {
+        return NextResponse.json(
+          { error: `Credential error: ${error instanceof Error ? error.message : error}` },
+          { status: error instanceof CredentialError ? error.status : 500 }
+        );
+      }
+    }
+
     // Parse body for non-GET requests
     let parsedBody;
     if (method !== "GET" && body) {
@@ -41,8 +55,13 @@ export async function POST(request: NextRequest) {
         "Content-Type": "application/json",
         "User-Agent": "Minimal-n8n/1.0",
         ...parsedHeaders,
+        ...credentialHeaders,
       },
       body: parsedBody ? JSON.stringify(parsedBody) : undefined,
+      // A redirect could carry the credential past its allowed URLs
+      redirect: credentialId ? "manual" : "follow",
+      // Abort the upstream call when the client cancels its execution
+      signal: request.signal,
     });
 
     // Get response content type
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { runTransform, TransformError } from "@/lib/server/transform-sandbox";
+
+const transformSchema = z.object({
+  code: z.string().min(1, "Transformation code is required"),
+  input: z.unknown(),
+  previousNodes: z.record(z.string(), z.unknown()).default({}),
+  item: z.unknown().optional(),
+  vars: z.record(z.string(), z.string()).default({}),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+    const parsed = transformSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || "Invalid transformation request" },
+        { status: 400 }
+      );
+    }
+
+    const { output, logs } = await runTransform(parsed.data, request.signal);
+    return NextResponse.json({ output, logs });
+  } catch (error) {
+    if (error instanceof TransformError) {
+      // Failures in user code are reported with whatever it logged before failing
+      return NextResponse.json({ error: error.message, logs: error.logs }, { status: 422 });
+    }
+    console.error("Data transform error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Data transformation failed" },
+      { status: 500 }
+    );
+  }
+}
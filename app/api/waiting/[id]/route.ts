@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  cancelWaitingExecution,
+  getWaitingExecution,
+  WaitingExecutionError,
+} from "@/lib/server/waiting-executions";
+import { toWaitingExecutionView } from "@/lib/waiting-executions";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const errorResponse = (error: unknown, fallback: string) =>
+  NextResponse.json(
+    { error: error instanceof Error && error.message ? error.message : fallback },
+    { status: error instanceof WaitingExecutionError ? error.status : 500 }
+  );
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    return NextResponse.json({ execution: toWaitingExecutionView(await getWaitingExecution(id)) });
+  } catch (error) {
+    if (!(error instanceof WaitingExecutionError)) {
+      console.error("Failed to load waiting execution:", error);
+    }
+    return errorResponse(error, "Failed to load waiting execution");
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    return NextResponse.json({
+      execution: toWaitingExecutionView(await cancelWaitingExecution(id)),
+    });
+  } catch (error) {
+    console.error("Failed to cancel waiting execution:", error);
+    return errorResponse(error, "Failed to cancel waiting execution");
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resumeWebhookWait, WaitingExecutionError } from "@/lib/server/waiting-executions";
+
+interface RouteContext {
+  params: Promise<{ token: string }>;
+}
+
+/**
+ * Resume webhook of Delay nodes waiting for a call. The request's body and
+ * query string are passed on in the node's output.
+ */
+async function handleResume(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { token } = await params;
+    const text = request.method === "GET" ? "" : await request.text();
+    let body: unknown = text || null;
+    if (text && request.headers.get("content-type")?.includes("application/json")) {
+      try {
+        body = JSON.parse(text);
+      } catch {
+        return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+      }
+    }
+
+    const resumed = await resumeWebhookWait(token, {
+      body,
+      query: Object.fromEntries(request.nextUrl.searchParams),
+    });
+    return NextResponse.json({ resumed: true, ...resumed }, { status: 202 });
+  } catch (error) {
+    if (!(error instanceof WaitingExecutionError)) {
+      console.error("Failed to resume execution:", error);
+    }
+    return NextResponse.json(
+      { error: error instanceof Error && error.message ? error.message : "Failed to resume execution" },
+      { status: error instanceof WaitingExecutionError ? error.status : 500 }
+    );
+  }
+}
+
+export const GET = handleResume;
+export const POST = handleResume;
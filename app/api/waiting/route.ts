@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { executionLogFields, waitingNodeSchema } from "@/lib/server/execution-query";
+import {
+  createWaitingExecution,
+  listWaitingExecutions,
+  WaitingExecutionError,
+} from "@/lib/server/waiting-executions";
+import { toWaitingExecutionView, type WaitingExecutionInput } from "@/lib/waiting-executions";
+import {
+  savedWorkflowSchema,
+  workflowSnapshotSchema,
+  workflowVariablesSchema,
+} from "@/lib/workflow-schema";
+
+const errorResponse = (error: unknown, fallback: string) =>
+  NextResponse.json(
+    { error: error instanceof Error && error.message ? error.message : fallback },
+    { status: error instanceof WaitingExecutionError ? error.status : 500 }
+  );
+
+const suspendExecutionSchema: z.ZodType<WaitingExecutionInput> = z.object({
+  log: z.looseObject({
+    ...executionLogFields,
+    status: z.literal("waiting", "Only waiting executions can be suspended"),
+    wait: z.object({
+      nodes: z.array(waitingNodeSchema).min(1, "The execution has no waiting nodes"),
+      nodeOutputs: z.record(z.string(), z.unknown()),
+    }),
+  }),
+  workflow: workflowSnapshotSchema,
+  globalVariables: workflowVariablesSchema.optional(),
+  subWorkflows: z.array(savedWorkflowSchema).optional(),
+});
+
+export async function GET() {
+  try {
+    const executions = await listWaitingExecutions();
+    return NextResponse.json({ executions: executions.map(toWaitingExecutionView) });
+  } catch (error) {
+    console.error("Failed to list waiting executions:", error);
+    return errorResponse(error, "Failed to list waiting executions");
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+    const parsed = suspendExecutionSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || "Invalid waiting execution" },
+        { status: 400 }
+      );
+    }
+
+    const execution = await createWaitingExecution(parsed.data);
+    return NextResponse.json({ execution: toWaitingExecutionView(execution) }, { status: 201 });
+  } catch (error) {
+    console.error("Failed to save waiting execution:", error);
+    return errorResponse(error, "Failed to save waiting execution");
+  }
+}
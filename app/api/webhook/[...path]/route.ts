@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from "next/server";
+import { findWebhookTarget } from "@/lib/server/active-workflows";
+import { runWorkflow } from "@/lib/server/workflow-runs";
+import { getWebhookResponseMode, type WebhookTriggerOutput } from "@/lib/webhooks";
+
+interface RouteContext {
+  params: Promise<{ path: string[] }>;
+}
+
+class InvalidBodyError extends Error {}
+
+async function readBody(request: NextRequest): Promise<unknown> {
+  if (request.method === "GET") {
+    return null;
+  }
+  const text = await request.text();
+  if (!text) {
+    return null;
+  }
+
+  const contentType = request.headers.get("content-type") ?? "";
+  if (contentType.includes("application/json")) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new InvalidBodyError("Invalid JSON body");
+    }
+  }
+  if (contentType.includes("application/x-www-form-urlencoded")) {
+    return Object.fromEntries(new URLSearchParams(text));
+  }
+  return text;
+}
+
+/**
+ * Webhook triggers of active workflows. The request is passed to the
+ * workflow as the webhook node's output; the response is sent right away or
+ * once the run is over, depending on the node's response mode.
+ */
+async function handleWebhook(request: NextRequest, { params }: RouteContext) {
+  try {
+    const segments = (await params).path;
+    const path = `/${segments.join("/")}`;
+    const target = await findWebhookTarget(request.method, path);
+    if (!target) {
+      return NextResponse.json(
+        { error: `No active workflow listens on ${request.method} ${path}` },
+        { status: 404 }
+      );
+    }
+
+    let body: unknown;
+    try {
+      body = await readBody(request);
+    } catch (error) {
+      if (error instanceof InvalidBodyError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+
+    const payload: WebhookTriggerOutput = {
+      method: request.method,
+      path,
+      params: target.params,
+      query: Object.fromEntries(request.nextUrl.searchParams),
+      headers: Object.fromEntries(request.headers),
+      body,
+    };
+    const run = runWorkflow(target.active, {
+      trigger: { type: "webhook", nodeId: target.node.id, firedAt: Date.now() },
+      payload,
+    });
+
+    if (getWebhookResponseMode(target.node.data.config) === "immediately") {
+      run.catch((error) =>
+        console.error(`Webhook run of workflow ${target.active.workflow.id} failed:`, error)
+      );
+      return NextResponse.json({ message: "Workflow started" });
+    }
+
+    const { log, output } = await run;
+    if (log.status === "waiting") {
+      return NextResponse.json(
+        { message: "Workflow is waiting", executionId: log.id },
+        { status: 202 }
+      );
+    }
+    if (log.status !== "success") {
+      return NextResponse.json(
+        { error: log.errorMessage || "Workflow execution failed", executionId: log.id },
+        { status: 500 }
+      );
+    }
+    return NextResponse.json(output);
+  } catch (error) {
+    console.error("Failed to handle webhook:", error);
+    return NextResponse.json(
+      { error: error instanceof Error && error.message ? error.message : "Failed to handle webhook" },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = handleWebhook;
+export const POST = handleWebhook;
+export const PUT = handleWebhook;
+export const PATCH = handleWebhook;
+export const DELETE = handleWebhook;
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { activateStoredWorkflow, ActiveWorkflowError } from "@/lib/server/active-workflows";
+import { workflowVariablesSchema } from "@/lib/workflow-schema";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const activateWorkflowSchema = z.object({
+  /** Values for `{{$vars.name}}` not set on the workflow itself. */
+  globalVariables: workflowVariablesSchema.optional(),
+});
+
+/**
+ * Activates a saved workflow: the server serves its webhooks and fires its
+ * schedules until it is deactivated.
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const text = await request.text();
+    let body: unknown = {};
+    try {
+      body = text ? JSON.parse(text) : {};
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+    const parsed = activateWorkflowSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || "Invalid request" },
+        { status: 400 }
+      );
+    }
+
+    const workflow = await activateStoredWorkflow(id, parsed.data.globalVariables);
+    return NextResponse.json({ workflow });
+  } catch (error) {
+    if (!(error instanceof ActiveWorkflowError)) {
+      console.error("Failed to activate workflow:", error);
+    }
+    return NextResponse.json(
+      { error: error instanceof Error && error.message ? error.message : "Failed to activate workflow" },
+      { status: error instanceof ActiveWorkflowError ? error.status : 500 }
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ActiveWorkflowError, deactivateWorkflow } from "@/lib/server/active-workflows";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function POST(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    await deactivateWorkflow(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (!(error instanceof ActiveWorkflowError)) {
+      console.error("Failed to deactivate workflow:", error);
+    }
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error && error.message ? error.message : "Failed to deactivate workflow",
+      },
+      { status: error instanceof ActiveWorkflowError ? error.status : 500 }
+    );
+  }
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  activateStoredWorkflow,
+  ActiveWorkflowError,
+  deactivateWorkflow,
+  getActiveWorkflow,
+} from "@/lib/server/active-workflows";
+import { getStorage, StorageError } from "@/lib/server/storage";
+import { workflowInputSchema } from "@/lib/workflow-schema";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const errorResponse = (error: unknown, fallback: string) =>
+  NextResponse.json(
+    { error: error instanceof Error && error.message ? error.message : fallback },
+    {
+      status:
+        error instanceof StorageError || error instanceof ActiveWorkflowError ? error.status : 500,
+    }
+  );
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const workflow = await getStorage().getWorkflow(id);
+    if (!workflow) {
+      return NextResponse.json({ error: "Workflow not found" }, { status: 404 });
+    }
+    return NextResponse.json({ workflow: { ...workflow, active: !!(await getActiveWorkflow(id)) } });
+  } catch (error) {
+    console.error("Failed to load workflow:", error);
+    return errorResponse(error, "Failed to load workflow");
+  }
+}
+
+/** Replaces a workflow. Active workflows are re-activated with the new version. */
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+    const parsed = workflowInputSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || "Invalid workflow" },
+        { status: 400 }
+      );
+    }
+
+    const workflow = await getStorage().updateWorkflow({
+      ...parsed.data,
+      id,
+      timestamp: Date.now(),
+    });
+
+    const active = await getActiveWorkflow(id);
+    if (active) {
+      try {
+        await activateStoredWorkflow(id, active.globalVariables);
+      } catch (error) {
+        return NextResponse.json(
+          {
+            error: `Workflow saved, but the active version wasn't updated: ${
+              error instanceof Error ? error.message : "unknown error"
+            }`,
+            workflow: { ...workflow, active: true },
+          },
+          { status: error instanceof ActiveWorkflowError ? error.status : 500 }
+        );
+      }
+    }
+    return NextResponse.json({ workflow: { ...workflow, active: !!active } });
+  } catch (error) {
+    if (!(error instanceof StorageError)) {
+      console.error("Failed to update workflow:", error);
+    }
+    return errorResponse(error, "Failed to update workflow");
+  }
+}
+
+/** Deletes a workflow, deactivating it first. */
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    if (!(await getStorage().getWorkflow(id))) {
+      return NextResponse.json({ error: "Workflow not found" }, { status: 404 });
+    }
+    if (await getActiveWorkflow(id)) {
+      await deactivateWorkflow(id);
+    }
+    await getStorage().deleteWorkflow(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (!(error instanceof StorageError)) {
+      console.error("Failed to delete workflow:", error);
+    }
+    return errorResponse(error, "Failed to delete workflow");
+  }
+}
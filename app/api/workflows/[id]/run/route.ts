@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { collectSubWorkflows } from "@/lib/active-workflows";
+import { getStorage } from "@/lib/server/storage";
+import { runWorkflow, startWorkflowRun, type WorkflowRunSource } from "@/lib/server/workflow-runs";
+import { EXECUTIONS_API } from "@/lib/execution-history";
+import { workflowVariablesSchema } from "@/lib/workflow-schema";
+import {
+  describeBlockingIssues,
+  hasBlockingIssues,
+  isTriggerNode,
+  validateWorkflow,
+} from "@/lib/workflow-validation";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const runWorkflowSchema = z.object({
+  /** Passed to the trigger nodes as their output. */
+  payload: z.unknown().optional(),
+  /** Start only this trigger node instead of all of them. */
+  triggerNodeId: z.string().min(1).optional(),
+  /** When false, respond right away with the execution id to poll. */
+  wait: z.boolean().default(true),
+  globalVariables: workflowVariablesSchema.optional(),
+});
+
+/**
+ * Runs a saved workflow. By default the response is the finished
+ * `ExecutionLog`; with `wait: false` it is the execution id, which can be
+ * polled at `/api/executions/:id`.
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const text = await request.text();
+    let body: unknown = {};
+    try {
+      body = text ? JSON.parse(text) : {};
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+    const parsed = runWorkflowSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || "Invalid request" },
+        { status: 400 }
+      );
+    }
+
+    const storage = getStorage();
+    const workflow = await storage.getWorkflow(id);
+    if (!workflow) {
+      return NextResponse.json({ error: "Workflow not found" }, { status: 404 });
+    }
+    const { payload = null, triggerNodeId, wait, globalVariables } = parsed.data;
+    const issues = validateWorkflow(workflow.nodes, workflow.edges);
+    if (hasBlockingIssues(issues)) {
+      return NextResponse.json({ error: describeBlockingIssues(issues) }, { status: 400 });
+    }
+    if (triggerNodeId) {
+      const triggerNode = workflow.nodes.find((node) => node.id === triggerNodeId);
+      if (!triggerNode) {
+        return NextResponse.json({ error: `Node ${triggerNodeId} does not exist` }, { status: 400 });
+      }
+      if (!isTriggerNode(triggerNode)) {
+        return NextResponse.json(
+          { error: `Node ${triggerNodeId} is not a trigger node` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const source: WorkflowRunSource = {
+      workflow,
+      subWorkflows: collectSubWorkflows(workflow, await storage.listWorkflows()),
+      globalVariables,
+    };
+    const options = {
+      trigger: { type: "api" as const, nodeId: triggerNodeId, firedAt: Date.now() },
+      payload,
+    };
+
+    if (!wait) {
+      const executionId = await startWorkflowRun(source, options);
+      return NextResponse.json(
+        { executionId, status: "running" },
+        { status: 202, headers: { Location: `${EXECUTIONS_API}/${executionId}` } }
+      );
+    }
+
+    const { log } = await runWorkflow(source, options);
+    return NextResponse.json({ execution: log });
+  } catch (error) {
+    console.error("Failed to run workflow:", error);
+    return NextResponse.json(
+      { error: error instanceof Error && error.message ? error.message : "Failed to run workflow" },
+      { status: 500 }
+    );
+  }
+}
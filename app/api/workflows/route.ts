@@ -0,0 +1,58 @@
+import { randomUUID } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { listActiveWorkflows } from "@/lib/server/active-workflows";
+import { getStorage, StorageError } from "@/lib/server/storage";
+import { createWorkflowSchema } from "@/lib/workflow-schema";
+
+const errorResponse = (error: unknown, fallback: string) =>
+  NextResponse.json(
+    { error: error instanceof Error && error.message ? error.message : fallback },
+    { status: error instanceof StorageError ? error.status : 500 }
+  );
+
+/** Lists saved workflows, each with whether it is active. */
+export async function GET() {
+  try {
+    const [workflows, active] = await Promise.all([
+      getStorage().listWorkflows(),
+      listActiveWorkflows(),
+    ]);
+    const activeIds = new Set(active.map((summary) => summary.id));
+    return NextResponse.json({
+      workflows: workflows.map((workflow) => ({ ...workflow, active: activeIds.has(workflow.id) })),
+    });
+  } catch (error) {
+    console.error("Failed to list workflows:", error);
+    return errorResponse(error, "Failed to list workflows");
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+    const parsed = createWorkflowSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || "Invalid workflow" },
+        { status: 400 }
+      );
+    }
+
+    const workflow = await getStorage().createWorkflow({
+      ...parsed.data,
+      id: parsed.data.id ?? `workflow-${randomUUID()}`,
+      timestamp: parsed.data.timestamp ?? Date.now(),
+    });
+    return NextResponse.json({ workflow }, { status: 201 });
+  } catch (error) {
+    if (!(error instanceof StorageError)) {
+      console.error("Failed to save workflow:", error);
+    }
+    return errorResponse(error, "Failed to save workflow");
+  }
+}
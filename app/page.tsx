@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useCallback, useState, useRef, useEffect } from "react";
+import React, { useCallback, useMemo, useState, useRef, useEffect } from "react";
 import ReactFlow, {
   Background,
   Controls,
@@ -19,21 +19,35 @@ import "reactflow/dist/style.css";
 import Sidebar from "@/components/sidebar";
 import customNode from "@/components/customNode";
 import NodeConfigPanel from "@/components/NodeConfigPanel";
+import DebugPanel from "@/components/DebugPanel";
+import ValidationPanel from "@/components/ValidationPanel";
 import { useWorkflowStore } from "@/lib/store";
 import { nodeDefinitions } from "@/lib/node-definitions";
 import {
   WorkflowNode,
   NodeData,
   WorkflowEdge,
+  ValidationIssue,
 } from "@/lib/types";
-import { WorkflowExecutor } from "@/lib/executor";
+import {
+  WorkflowRunner,
+  getDownstreamNodeIds,
+  type DebugPause,
+  type DebugResume,
+  type PartialRunOptions,
+} from "@/lib/workflow-runner";
 import ExecutionHistoryPanel from "@/components/ExecutionHistoryPanel";
-import { 
-  saveExecutionLog, 
-  ExecutionLog, 
-  ExecutionNodeResult 
-} from "@/lib/execution-history";
-import { getNodeOutputHandles } from "@/lib/node-helpers";
+import { saveExecutionLog, type ExecutionLog } from "@/lib/execution-history";
+import { suspendExecution } from "@/lib/waiting-executions";
+import { collectSubWorkflows } from "@/lib/active-workflows";
+import { fetchSavedWorkflow } from "@/lib/saved-workflows";
+import { hasBlockingIssues, validateWorkflow } from "@/lib/workflow-validation";
+import { getGlobalVariables } from "@/lib/variables";
+import {
+  ERROR_OUTPUT_HANDLE,
+  getNodeInputHandles,
+  getNodeOutputHandles,
+} from "@/lib/node-helpers";
 
 const nodeTypes: NodeTypes = {
   custom: customNode,
@@ -41,10 +55,21 @@ const nodeTypes: NodeTypes = {
 
 let nodeIdCounter = 0;
 
+const alertBlockingIssues = (issues: ValidationIssue[]) => {
+  const errors = issues.filter((issue) => issue.severity === "error");
+  alert(
+    `Fix these problems before running the workflow:\n\n${errors
+      .map((issue) => `• ${issue.message}`)
+      .join("\n")}`
+  );
+};
+
 export default function Home() {
   const {
     nodes,
     edges,
+    settings,
+    variables,
     addNode,
     addEdge,
     updateNode,
@@ -57,6 +82,8 @@ export default function Home() {
     canUndo,
     canRedo,
     saveWorkflow,
+    getSavedWorkflows,
+    currentWorkflow,
     exportWorkflow,
     importWorkflow,
   } = useWorkflowStore();
@@ -64,6 +91,9 @@ export default function Home() {
   const [, , onEdgesChange] = useEdgesState([]);
   const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
   const [isExecuting, setIsExecuting] = useState(false);
+  const runnerRef = useRef<WorkflowRunner | null>(null);
+  const [debugPause, setDebugPause] = useState<DebugPause | null>(null);
+  const debugResolveRef = useRef<((resume: DebugResume) => void) | null>(null);
   const reactFlowWrapper = useRef<HTMLDivElement>(null);
   const [reactFlowInstance, setReactFlowInstance] = useState<any>(null);
   const [contextMenu, setContextMenu] = useState<{
@@ -73,6 +103,24 @@ export default function Home() {
   } | null>(null);
   const [showHistoryPanel, setShowHistoryPanel] = useState(false);
 
+  const validationIssues = useMemo(() => validateWorkflow(nodes, edges), [nodes, edges]);
+
+  // Validation results are attached to the nodes handed to React Flow only,
+  // so they never end up in the store, history or saved workflows.
+  const displayNodes = useMemo(() => {
+    const issuesByNode = new Map<string, ValidationIssue[]>();
+    validationIssues.forEach((issue) =>
+      issue.nodeIds?.forEach((nodeId) =>
+        issuesByNode.set(nodeId, [...(issuesByNode.get(nodeId) ?? []), issue])
+      )
+    );
+    return nodes.map((node) =>
+      issuesByNode.has(node.id)
+        ? { ...node, data: { ...node.data, validationIssues: issuesByNode.get(node.id) } }
+        : node
+    );
+  }, [nodes, validationIssues]);
+
   const onConnect: OnConnect = useCallback(
     (connection: Connection) => {
       if (!connection.source || !connection.target) {
@@ -81,13 +129,26 @@ export default function Home() {
 
       const sourceNode = nodes.find((node) => node.id === connection.source);
       const outputHandles = sourceNode
-        ? getNodeOutputHandles(sourceNode.data.type, sourceNode.data.config)
+        ? getNodeOutputHandles(
+            sourceNode.data.type,
+            sourceNode.data.config,
+            sourceNode.data.settings
+          )
         : null;
 
       const handleMeta = outputHandles?.find(
         (handle) => handle.id === connection.sourceHandle
       );
 
+      const targetNode = nodes.find((node) => node.id === connection.target);
+      const inputHandles = targetNode
+        ? getNodeInputHandles(targetNode.data.type, targetNode.data.config)
+        : null;
+
+      const inputMeta = inputHandles?.find(
+        (handle) => handle.id === connection.targetHandle
+      );
+
       const uniqueId =
         typeof crypto !== "undefined" && typeof crypto.randomUUID === "function"
           ? crypto.randomUUID()
@@ -103,10 +164,14 @@ export default function Home() {
         id: `e-${source}-${sourceHandle || "default"}-${target}-${uniqueId}`,
         type: "smoothstep",
         animated: true,
-        label: handleMeta?.edgeLabel,
+        style: sourceHandle === ERROR_OUTPUT_HANDLE ? { stroke: "#ef4444" } : undefined,
+        label:
+          [handleMeta?.edgeLabel, inputMeta?.label].filter(Boolean).join(" → ") ||
+          undefined,
         data: {
           branch: sourceHandle || undefined,
           displayLabel: handleMeta?.edgeLabel,
+          inputLabel: inputMeta?.label,
         },
       };
 
@@ -220,6 +285,14 @@ export default function Home() {
     }
   }, [contextMenu, duplicateNode]);
 
+  const handleToggleBreakpoint = useCallback(() => {
+    if (contextMenu) {
+      const node = nodes.find((n) => n.id === contextMenu.nodeId);
+      updateNode(contextMenu.nodeId, { breakpoint: !node?.data.breakpoint });
+      setContextMenu(null);
+    }
+  }, [contextMenu, nodes, updateNode]);
+
   const handleDeleteNode = useCallback(() => {
     if (contextMenu) {
       if (window.confirm("Are you sure you want to delete this node?")) {
@@ -237,6 +310,15 @@ export default function Home() {
     }
   }, []);
 
+  // Saved workflows are listed by Execute Workflow nodes and sent along with
+  // waiting executions, so load them up front
+  useEffect(() => {
+    useWorkflowStore
+      .getState()
+      .refreshSavedWorkflows()
+      .catch((error) => console.error("Failed to load saved workflows:", error));
+  }, []);
+
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -263,10 +345,13 @@ export default function Home() {
       // Ctrl/Cmd + S - Save workflow
       if ((e.ctrlKey || e.metaKey) && e.key === "s") {
         e.preventDefault();
-        const name = prompt("Enter workflow name:");
+        const name = prompt("Enter workflow name:", currentWorkflow?.name ?? "");
         if (name) {
-          saveWorkflow(name);
-          alert("Workflow saved successfully!");
+          saveWorkflow(name)
+            .then(() => alert("Workflow saved successfully!"))
+            .catch((error: unknown) =>
+              alert(error instanceof Error ? error.message : "Failed to save the workflow")
+            );
         }
       }
 
@@ -344,6 +429,7 @@ export default function Home() {
     selectedNodeId,
     deleteNode,
     saveWorkflow,
+    currentWorkflow,
     undo,
     redo,
     canUndo,
@@ -364,176 +450,180 @@ export default function Home() {
     }
   }, [contextMenu]);
 
-  const executeWorkflow = useCallback(async () => {
+  const startRunner = useCallback(
+    async (
+      resetNodeIds: Iterable<string>,
+      execute: (runner: WorkflowRunner) => Promise<ExecutionLog>,
+      debug = false
+    ) => {
+      setIsExecuting(true);
+
+      for (const nodeId of resetNodeIds) {
+        updateNode(nodeId, {
+          output: undefined,
+          error: undefined,
+          isExecuting: false,
+          isPaused: false,
+        });
+      }
+
+      const runner = new WorkflowRunner(nodes, edges, {
+        concurrency: settings.concurrency,
+        maxDurationMs: (settings.maxDurationSeconds ?? 0) * 1000,
+        dataMode: settings.dataMode,
+        variables,
+        globalVariables: getGlobalVariables(),
+        suspendWaits: true,
+        getWorkflow: async (workflowId) => (await fetchSavedWorkflow(workflowId)) ?? undefined,
+        workflow: currentWorkflow ?? undefined,
+        onPause: debug
+          ? (pause) =>
+              new Promise<DebugResume>((resolve) => {
+                debugResolveRef.current = resolve;
+                setDebugPause(pause);
+              })
+          : undefined,
+      });
+      runnerRef.current = runner;
+      runner.subscribe((event) => {
+        switch (event.type) {
+          case "nodeStarted":
+            updateNode(event.nodeId, { isExecuting: true, error: undefined });
+            break;
+          case "nodeFinished":
+            updateNode(event.nodeId, { output: event.output, isExecuting: false });
+            break;
+          case "nodeFailed":
+            updateNode(event.nodeId, { error: event.error, isExecuting: false });
+            break;
+          case "nodeCancelled":
+            updateNode(event.nodeId, { isExecuting: false });
+            break;
+          case "nodeWaiting":
+            updateNode(event.nodeId, { output: event.output, isExecuting: false });
+            break;
+          case "nodePaused":
+            updateNode(event.nodeId, { isPaused: true });
+            break;
+          case "nodeResumed":
+            debugResolveRef.current = null;
+            setDebugPause(null);
+            updateNode(event.nodeId, { isPaused: false });
+            break;
+          case "subWorkflowFinished":
+            saveExecutionLog({ ...event.log, mode: "manual" });
+            break;
+        }
+      });
+
+      try {
+        let executionLog: ExecutionLog = { ...(await execute(runner)), mode: "manual" };
+        if (executionLog.status === "waiting") {
+          // The server resumes the execution once its Delay nodes are done waiting
+          try {
+            await suspendExecution({
+              log: executionLog,
+              workflow: { ...currentWorkflow, nodes, edges, settings, variables },
+              globalVariables: getGlobalVariables(),
+              subWorkflows: collectSubWorkflows({ nodes }, getSavedWorkflows()),
+            });
+          } catch (error: unknown) {
+            executionLog = {
+              ...executionLog,
+              status: "error",
+              errorMessage: `The waiting execution couldn't be saved: ${
+                error instanceof Error ? error.message : "unknown error"
+              }`,
+              wait: undefined,
+            };
+          }
+        }
+        saveExecutionLog(executionLog);
+      } catch (error: unknown) {
+        alert(error instanceof Error ? error.message : "Execution failed");
+      } finally {
+        runnerRef.current = null;
+        setIsExecuting(false);
+      }
+    },
+    [currentWorkflow, edges, getSavedWorkflows, nodes, settings, updateNode, variables]
+  );
+
+  const executeWorkflow = useCallback(async (debug = false) => {
     if (!nodes || nodes.length === 0) {
       window.alert("Add some nodes to the canvas first!");
       return;
     }
-  
-    setIsExecuting(true);
 
-    const executor = new WorkflowExecutor();
-    const startTime = Date.now();
-    const triggerNodes = nodes.filter(
-      (node) => !edges.some((edge: any) => edge.target === node.id)
-    );
-  
-    if (triggerNodes.length === 0) {
-      alert("Add a trigger node to start the workflow!");
-      setIsExecuting(false);
+    if (hasBlockingIssues(validationIssues)) {
+      alertBlockingIssues(validationIssues);
       return;
     }
-    nodes.forEach((node) => {
-      updateNode(node.id, {
-        output: undefined,
-        error: undefined,
-        isExecuting: false,
-      });
-    });
-
-    const executionResults: ExecutionNodeResult[] = [];
-    const executedNodes = new Set<string>();
-    const nodeOutputs: Record<string, any> = {};
-    let hasError = false;
-    let errorMessage = "";
-
-    const executeNodeChain = async (nodeId: string, input: any = null) => {
-      if (executedNodes.has(nodeId)) return;
-
-      const node = nodes.find((n) => n.id === nodeId);
-      if (!node) return;
-
-      executedNodes.add(nodeId);
-      const nodeStartTime = Date.now();
-      updateNode(nodeId, { isExecuting: true, error: undefined });
 
-      try {
-        const result = await executor.executeNode({
-          nodeId: node.id,
-          input,
-          config: node.data.config || {},
-          previousNodes: nodeOutputs,
-        });
-
-        const nodeDuration = Date.now() - nodeStartTime;
-
-        if (result.success) {
-          updateNode(nodeId, {
-            output: result.output,
-            isExecuting: false,
-          });
-          nodeOutputs[nodeId] = result.output;
-
-          executionResults.push({
-            nodeId: node.id,
-            nodeName: node.data.label,
-            status: "success",
-            output: result.output,
-            duration: nodeDuration,
-          });
-
-          const connectedEdges = edges.filter(
-            (edge) => edge.source === nodeId
-          );
-
-          let edgesToTraverse = connectedEdges;
-          const branch = (result.output as any)?.branch;
-
-          if (branch && connectedEdges.length > 0) {
-            const branchMatches = connectedEdges.filter(
-              (edge) => edge.data?.branch === branch
-            );
-
-            if (branchMatches.length > 0) {
-              edgesToTraverse = branchMatches;
-            } else {
-              const defaultEdges = connectedEdges.filter(
-                (edge) => edge.data?.branch === "default"
-              );
-
-              if (defaultEdges.length > 0) {
-                edgesToTraverse = defaultEdges;
-              } else {
-                const unassignedEdges = connectedEdges.filter(
-                  (edge) => !edge.data?.branch
-                );
-
-                edgesToTraverse = unassignedEdges;
-              }
-            }
-          }
+    await startRunner(
+      nodes.map((node) => node.id),
+      (runner) => runner.run(),
+      debug
+    );
+  }, [nodes, startRunner, validationIssues]);
+
+  // Re-runs the context menu's node (and optionally everything downstream),
+  // feeding it the last successful outputs of the nodes that are not re-run.
+  const executePartial = useCallback(
+    async (scope: PartialRunOptions["scope"]) => {
+      if (!contextMenu || isExecuting) return;
+      const startNodeId = contextMenu.nodeId;
+      setContextMenu(null);
 
-          for (const edge of edgesToTraverse) {
-            await executeNodeChain(edge.target, result.output);
-          }
-        } else {
-          updateNode(nodeId, {
-            error: result.error,
-            isExecuting: false,
-          });
-
-          hasError = true;
-          errorMessage = result.error || "Unknown error";
-          executionResults.push({
-            nodeId: node.id,
-            nodeName: node.data.label,
-            status: "error",
-            error: result.error,
-            duration: nodeDuration,
-          });
+      const cachedOutputs: Record<string, unknown> = {};
+      nodes.forEach((node) => {
+        if (node.data.output !== undefined && !node.data.error) {
+          cachedOutputs[node.id] = node.data.output;
         }
-      } catch (error: any) {
-        const nodeDuration = Date.now() - nodeStartTime;
-        const errorMsg = error.message || "Execution failed";
+      });
 
-        updateNode(nodeId, {
-          error: errorMsg,
-          isExecuting: false,
-        });
+      const rerunIds =
+        scope === "node" ? [startNodeId] : [...getDownstreamNodeIds(startNodeId, edges)];
+      rerunIds.forEach((nodeId) => delete cachedOutputs[nodeId]);
 
-        hasError = true;
-        errorMessage = errorMsg;
-        executionResults.push({
-          nodeId: node.id,
-          nodeName: node.data.label,
-          status: "error",
-          error: errorMsg,
-          duration: nodeDuration,
-        });
+      // Only problems with the re-run nodes (or the graph as a whole) block
+      // a partial run.
+      const relevantIssues = validationIssues.filter(
+        (issue) => !issue.nodeIds || issue.nodeIds.some((nodeId) => rerunIds.includes(nodeId))
+      );
+      if (hasBlockingIssues(relevantIssues)) {
+        alertBlockingIssues(relevantIssues);
+        return;
       }
-    };
 
-    for (const triggerNode of triggerNodes) {
-      await executeNodeChain(triggerNode.id);
-    }
+      await startRunner(rerunIds, (runner) =>
+        runner.runFrom({ startNodeId, scope, cachedOutputs })
+      );
+    },
+    [contextMenu, edges, isExecuting, nodes, startRunner, validationIssues]
+  );
 
-    const totalDuration = Date.now() - startTime;
-    setIsExecuting(false);
-
-    const executionLog: ExecutionLog = {
-      id: `exec-${Date.now()}`,
-      timestamp: startTime,
-      duration: totalDuration,
-      status: hasError ? "error" : "success",
-      nodesExecuted: executedNodes.size,
-      totalNodes: nodes.length,
-      results: executionResults,
-      errorMessage: hasError ? errorMessage : undefined,
-    };
+  const stopExecution = useCallback(() => {
+    runnerRef.current?.cancel();
+  }, []);
+
+  const resumeDebugger = useCallback((resume: DebugResume) => {
+    debugResolveRef.current?.(resume);
+  }, []);
 
-    saveExecutionLog(executionLog);
-  }, [edges, nodes, updateNode]);
   return (
     <div className="flex h-screen w-screen bg-gray-100 dark:bg-gray-950">
       <Sidebar
-        onExecute={executeWorkflow}
+        onExecute={() => executeWorkflow()}
+        onDebug={() => executeWorkflow(true)}
+        onStop={stopExecution}
         onShowHistory={() => setShowHistoryPanel(true)}
         isExecuting={isExecuting}
       />
 
       <div className="flex-1" ref={reactFlowWrapper}>
         <ReactFlow
-          nodes={nodes}
+          nodes={displayNodes}
           edges={edges}
           onNodesChange={handleNodesChange}
           onEdgesChange={handleEdgesChange}
@@ -575,6 +665,13 @@ export default function Home() {
               connections
             </div>
           </Panel>
+
+          <Panel
+            position="top-right"
+            className="bg-white dark:bg-gray-800 px-4 py-2 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700"
+          >
+            <ValidationPanel issues={validationIssues} onSelectNode={setSelectedNodeId} />
+          </Panel>
         </ReactFlow>
       </div>
 
@@ -591,6 +688,29 @@ export default function Home() {
           style={{ left: contextMenu.x, top: contextMenu.y }}
           onClick={(e) => e.stopPropagation()}
         >
+          <button
+            onClick={() => executePartial("downstream")}
+            disabled={isExecuting}
+            className="w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 flex items-center gap-2"
+          >
+            <span>▶️</span> Execute from here
+          </button>
+          <button
+            onClick={() => executePartial("node")}
+            disabled={isExecuting}
+            className="w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 flex items-center gap-2"
+          >
+            <span>⏯️</span> Execute this node only
+          </button>
+          <button
+            onClick={handleToggleBreakpoint}
+            className="w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center gap-2"
+          >
+            <span>🔴</span>{" "}
+            {nodes.find((n) => n.id === contextMenu.nodeId)?.data.breakpoint
+              ? "Remove breakpoint"
+              : "Add breakpoint"}
+          </button>
           <button
             onClick={handleDuplicateNode}
             className="w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center gap-2"
@@ -606,6 +726,18 @@ export default function Home() {
         </div>
       )}
 
+      {debugPause && (
+        <DebugPanel
+          key={debugPause.nodeId}
+          pause={debugPause}
+          nodeLabel={
+            nodes.find((node) => node.id === debugPause.nodeId)?.data.label ??
+            debugPause.nodeId
+          }
+          onResume={resumeDebugger}
+        />
+      )}
+
       {showHistoryPanel && (
         <ExecutionHistoryPanel onClose={() => setShowHistoryPanel(false)} />
       )}
@@ -0,0 +1,184 @@
+"use client";
+
+import React from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+import {
+  conditionOperators,
+  conditionValueTypes,
+  createConditionRule,
+  getConditionCombinator,
+  getConditionOperator,
+  parseConditionRules,
+} from "@/lib/conditions";
+import type { ConditionRule, ConditionValueType } from "@/lib/types";
+
+interface ConditionRulesEditorProps {
+  config: Record<string, unknown>;
+  onChange: (name: string, value: string) => void;
+}
+
+/**
+ * Edits an If/Else node's conditions: either a list of rules combined with
+ * AND/OR, or a single expression.
+ */
+export default function ConditionRulesEditor({ config, onChange }: ConditionRulesEditorProps) {
+  // Nodes saved before the rule builder have no conditionType
+  const conditionType = config.conditionType === "rules" ? "rules" : "expression";
+  const combinator = getConditionCombinator(config);
+  const rules = parseConditionRules(config);
+
+  const setRules = (next: ConditionRule[]) => onChange("rules", JSON.stringify(next));
+
+  const updateRule = (id: string, changes: Partial<ConditionRule>) =>
+    setRules(rules.map((rule) => (rule.id === id ? { ...rule, ...changes } : rule)));
+
+  const handleTypeChange = (rule: ConditionRule, type: ConditionValueType) => {
+    // Keep the operator when the new type has one with the same name
+    const operator = getConditionOperator(type, rule.operator)
+      ? rule.operator
+      : conditionOperators[type][0].value;
+    updateRule(rule.id, { type, operator });
+  };
+
+  return (
+    <div className="mt-1 space-y-3">
+      <div className="flex gap-2">
+        {(["rules", "expression"] as const).map((option) => (
+          <Button
+            key={option}
+            type="button"
+            onClick={() => onChange("conditionType", option)}
+            variant={conditionType === option ? "default" : "outline"}
+            size="sm"
+            className="flex-1"
+          >
+            {option === "rules" ? "Rules" : "Expression"}
+          </Button>
+        ))}
+      </div>
+
+      {conditionType === "expression" ? (
+        <div>
+          <Input
+            value={typeof config.condition === "string" ? config.condition : ""}
+            onChange={(e) => onChange("condition", e.target.value)}
+            placeholder="input.value > 10 && $vars.env == 'prod'"
+            className="font-mono"
+          />
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            Evaluated in the expression sandbox; the True branch runs when the result is truthy.
+          </p>
+        </div>
+      ) : (
+        <>
+          <Select
+            value={combinator}
+            onChange={(e) => onChange("combinator", e.target.value)}
+          >
+            <option value="and">Match all rules (AND)</option>
+            <option value="or">Match any rule (OR)</option>
+          </Select>
+
+          {rules.length === 0 && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">No rules yet.</p>
+          )}
+
+          {rules.map((rule, index) => {
+            const operator = getConditionOperator(rule.type, rule.operator);
+            return (
+              <div
+                key={rule.id}
+                className="p-2 space-y-2 border border-gray-200 dark:border-gray-700 rounded-md"
+              >
+                <div className="flex items-center gap-2">
+                  <span className="text-xs text-gray-500 dark:text-gray-400 w-5">
+                    {index + 1}.
+                  </span>
+                  <Input
+                    value={rule.left}
+                    onChange={(e) => updateRule(rule.id, { left: e.target.value })}
+                    placeholder="input.status"
+                    className="flex-1 h-8 font-mono text-xs"
+                    title="Value path, e.g. input.status, node-1.output.total or {{ expression }}"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setRules(rules.filter((candidate) => candidate.id !== rule.id))}
+                    className="text-red-500 hover:text-red-700 p-1"
+                    title="Remove rule"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+                <div className="flex gap-2 pl-7">
+                  <Select
+                    value={rule.type}
+                    onChange={(e) => handleTypeChange(rule, e.target.value as ConditionValueType)}
+                    className="w-28 h-8 text-xs px-2 py-1"
+                  >
+                    {conditionValueTypes.map((type) => (
+                      <option key={type.value} value={type.value}>
+                        {type.label}
+                      </option>
+                    ))}
+                  </Select>
+                  <Select
+                    value={rule.operator}
+                    onChange={(e) => updateRule(rule.id, { operator: e.target.value })}
+                    className="flex-1 h-8 text-xs px-2 py-1"
+                  >
+                    {conditionOperators[rule.type].map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </Select>
+                </div>
+                {operator && operator.operands > 0 && (
+                  <div className="flex gap-2 pl-7">
+                    <Input
+                      value={rule.right ?? ""}
+                      onChange={(e) => updateRule(rule.id, { right: e.target.value })}
+                      placeholder={
+                        rule.operator === "regex"
+                          ? "/^order-\\d+$/i"
+                          : rule.type === "date"
+                            ? "2024-01-01 or {{$now}}"
+                            : operator.operands === 2
+                              ? "From"
+                              : "Value"
+                      }
+                      className="flex-1 h-8 text-xs"
+                    />
+                    {operator.operands === 2 && (
+                      <Input
+                        value={rule.rightTo ?? ""}
+                        onChange={(e) => updateRule(rule.id, { rightTo: e.target.value })}
+                        placeholder="To"
+                        className="flex-1 h-8 text-xs"
+                      />
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          <Button
+            type="button"
+            onClick={() => setRules([...rules, createConditionRule()])}
+            variant="outline"
+            size="sm"
+            className="w-full"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add rule
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
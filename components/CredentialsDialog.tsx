@@ -0,0 +1,289 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import {
+  CREDENTIALS_API,
+  credentialTypes,
+  fetchCredentials,
+  type CredentialData,
+  type CredentialSummary,
+  type CredentialType,
+} from "@/lib/credentials";
+
+interface CredentialDraft {
+  /** Set when editing an existing credential. */
+  id?: string;
+  name: string;
+  type: CredentialType;
+  /** One base URL per line. */
+  allowedUrls: string;
+  data: CredentialData;
+}
+
+const emptyDraft = (): CredentialDraft => ({
+  name: "",
+  type: "bearer",
+  allowedUrls: "",
+  data: {},
+});
+
+const parseAllowedUrls = (text: string) =>
+  text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+interface CredentialsDialogProps {
+  onClose: () => void;
+}
+
+export default function CredentialsDialog({ onClose }: CredentialsDialogProps) {
+  const [credentials, setCredentials] = useState<CredentialSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState<CredentialDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = async () => {
+    try {
+      setCredentials(await fetchCredentials());
+    } catch (loadError) {
+      setError((loadError as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    reload();
+  }, []);
+
+  const handleSave = async () => {
+    if (!draft) return;
+    if (!draft.name.trim()) {
+      setError("Name is required");
+      return;
+    }
+    const allowedUrls = parseAllowedUrls(draft.allowedUrls);
+    if (allowedUrls.length === 0) {
+      setError("Add at least one URL the credential may be sent to");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(
+        draft.id ? `${CREDENTIALS_API}/${draft.id}` : CREDENTIALS_API,
+        {
+          method: draft.id ? "PUT" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(
+            draft.id
+              ? { name: draft.name, allowedUrls, data: draft.data }
+              : { name: draft.name, type: draft.type, allowedUrls, data: draft.data }
+          ),
+        }
+      );
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to save credential");
+      }
+      setDraft(null);
+      await reload();
+    } catch (saveError) {
+      setError((saveError as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (credential: CredentialSummary) => {
+    if (
+      !confirm(
+        `Delete credential "${credential.name}"? Nodes using it will fail until another credential is selected.`
+      )
+    ) {
+      return;
+    }
+
+    setError(null);
+    try {
+      const response = await fetch(`${CREDENTIALS_API}/${credential.id}`, { method: "DELETE" });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to delete credential");
+      }
+      await reload();
+    } catch (deleteError) {
+      setError((deleteError as Error).message);
+    }
+  };
+
+  const inputClassName =
+    "w-full px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-md bg-white dark:bg-gray-900 text-gray-900 dark:text-white text-sm";
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-xl w-[32rem] max-h-[80vh] flex flex-col">
+        <h3 className="text-lg font-semibold mb-1 text-gray-900 dark:text-white">
+          Credentials
+        </h3>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+          Secrets are encrypted on the server and added there to HTTP requests to their allowed
+          URLs. They are never sent back to the browser or stored in workflow exports.
+        </p>
+
+        {draft ? (
+          <div className="flex-1 overflow-y-auto space-y-3">
+            <div>
+              <label className="text-sm font-medium text-gray-700 dark:text-gray-300">Name</label>
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="My API"
+                className={`${inputClassName} mt-1`}
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium text-gray-700 dark:text-gray-300">Type</label>
+              <select
+                value={draft.type}
+                disabled={Boolean(draft.id)}
+                onChange={(e) =>
+                  setDraft({ ...draft, type: e.target.value as CredentialType, data: {} })
+                }
+                className={`${inputClassName} mt-1`}
+              >
+                {Object.values(credentialTypes).map((definition) => (
+                  <option key={definition.type} value={definition.type}>
+                    {definition.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Allowed URLs<span className="text-red-500 ml-1">*</span>
+              </label>
+              <textarea
+                value={draft.allowedUrls}
+                onChange={(e) => setDraft({ ...draft, allowedUrls: e.target.value })}
+                placeholder="https://api.example.com/v1"
+                rows={2}
+                className={`${inputClassName} mt-1 font-mono`}
+              />
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                One per line. The credential is only added to requests under these URLs.
+              </p>
+            </div>
+            {credentialTypes[draft.type].fields.map((field) => (
+              <div key={field.name}>
+                <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                  {field.label}
+                  {field.required && !draft.id && <span className="text-red-500 ml-1">*</span>}
+                </label>
+                <input
+                  type={field.secret ? "password" : "text"}
+                  autoComplete="off"
+                  value={draft.data[field.name] ?? ""}
+                  onChange={(e) =>
+                    setDraft({ ...draft, data: { ...draft.data, [field.name]: e.target.value } })
+                  }
+                  placeholder={draft.id ? "Leave blank to keep the current value" : field.placeholder}
+                  className={`${inputClassName} mt-1`}
+                />
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="flex-1 overflow-y-auto space-y-2">
+            {loading && (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Loading credentials...</p>
+            )}
+            {!loading && credentials.length === 0 && (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No credentials yet.</p>
+            )}
+            {credentials.map((credential) => (
+              <div
+                key={credential.id}
+                className="flex items-center justify-between p-3 border border-gray-200 dark:border-gray-700 rounded-md"
+              >
+                <div>
+                  <div className="font-medium text-gray-900 dark:text-white">{credential.name}</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {credentialTypes[credential.type]?.label ?? credential.type} · updated{" "}
+                    {new Date(credential.updatedAt).toLocaleString()}
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400 font-mono">
+                    {credential.allowedUrls.length > 0
+                      ? credential.allowedUrls.join(", ")
+                      : "No allowed URLs: edit to use it again"}
+                  </div>
+                </div>
+                <div className="flex gap-1">
+                  <button
+                    onClick={() =>
+                      setDraft({
+                        id: credential.id,
+                        name: credential.name,
+                        type: credential.type,
+                        allowedUrls: credential.allowedUrls.join("\n"),
+                        data: {},
+                      })
+                    }
+                    className="text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 p-1"
+                    title="Edit credential"
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(credential)}
+                    className="text-red-500 hover:text-red-700 p-1"
+                    title="Delete credential"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {error && <div className="mt-3 text-xs text-red-600 dark:text-red-400">{error}</div>}
+
+        <div className="flex gap-2 mt-4">
+          {draft ? (
+            <>
+              <Button onClick={handleSave} disabled={saving} className="flex-1">
+                {saving ? "Saving..." : draft.id ? "Update" : "Create"}
+              </Button>
+              <Button
+                onClick={() => {
+                  setDraft(null);
+                  setError(null);
+                }}
+                variant="outline"
+              >
+                Back
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button onClick={() => setDraft(emptyDraft())} className="flex-1">
+                <Plus className="h-4 w-4 mr-1" />
+                New credential
+              </Button>
+              <Button onClick={onClose} variant="outline">
+                Close
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
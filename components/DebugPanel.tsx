@@ -0,0 +1,114 @@
+"use client";
+
+import React, { useState } from "react";
+import { Bug, FastForward, Square, StepForward } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import type { DebugPause, DebugResume } from "@/lib/workflow-runner";
+
+interface DebugPanelProps {
+  pause: DebugPause;
+  nodeLabel: string;
+  onResume: (resume: DebugResume) => void;
+}
+
+const formatJson = (value: unknown) => JSON.stringify(value ?? null, null, 2);
+
+export default function DebugPanel({ pause, nodeLabel, onResume }: DebugPanelProps) {
+  const [inputDraft, setInputDraft] = useState(() => formatJson(pause.input));
+  const [previousNodesDraft, setPreviousNodesDraft] = useState(() =>
+    formatJson(pause.previousNodes)
+  );
+  const [parseError, setParseError] = useState<string | null>(null);
+
+  // Edited values are only sent along when they differ from what the
+  // engine resolved, so untouched drafts don't re-serialize the data.
+  const resume = (action: "step" | "continue") => {
+    try {
+      const input =
+        inputDraft === formatJson(pause.input) ? undefined : JSON.parse(inputDraft);
+      const previousNodes =
+        previousNodesDraft === formatJson(pause.previousNodes)
+          ? undefined
+          : JSON.parse(previousNodesDraft);
+
+      if (
+        previousNodes !== undefined &&
+        (typeof previousNodes !== "object" || previousNodes === null || Array.isArray(previousNodes))
+      ) {
+        setParseError("Previous nodes must be a JSON object keyed by node id");
+        return;
+      }
+
+      onResume({ action, input, previousNodes });
+    } catch (error: unknown) {
+      setParseError(error instanceof Error ? error.message : "Invalid JSON");
+    }
+  };
+
+  return (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 w-full max-w-2xl bg-white dark:bg-gray-800 rounded-lg shadow-2xl border-2 border-yellow-400 z-50 flex flex-col max-h-[60vh]">
+      <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Bug className="h-5 w-5 text-yellow-500" />
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+              Paused before &quot;{nodeLabel}&quot;
+            </h3>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Edit the input or previous node outputs, then step or continue.
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="p-4 space-y-4 overflow-y-auto">
+        <div className="space-y-2">
+          <Label>Input</Label>
+          <Textarea
+            value={inputDraft}
+            onChange={(e) => {
+              setInputDraft(e.target.value);
+              setParseError(null);
+            }}
+            className="font-mono text-xs"
+            rows={6}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Previous Nodes</Label>
+          <Textarea
+            value={previousNodesDraft}
+            onChange={(e) => {
+              setPreviousNodesDraft(e.target.value);
+              setParseError(null);
+            }}
+            className="font-mono text-xs"
+            rows={6}
+          />
+        </div>
+
+        {parseError && (
+          <div className="text-xs text-red-600 dark:text-red-400">{parseError}</div>
+        )}
+      </div>
+
+      <div className="p-4 border-t border-gray-200 dark:border-gray-700 flex gap-2">
+        <Button onClick={() => resume("step")} className="flex-1" title="Run this node and pause before the next one">
+          <StepForward className="mr-2 h-4 w-4" />
+          Step
+        </Button>
+        <Button onClick={() => resume("continue")} variant="outline" className="flex-1" title="Run until the next breakpoint">
+          <FastForward className="mr-2 h-4 w-4" />
+          Continue
+        </Button>
+        <Button onClick={() => onResume({ action: "abort" })} variant="destructive" className="flex-1">
+          <Square className="mr-2 h-4 w-4" />
+          Abort
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from "react";
+import React, { useCallback, useEffect, useRef, useState } from "react";
 import {
   Clock, 
   CheckCircle, 
@@ -8,53 +8,215 @@ import {
   ChevronRight,
   AlertCircle,
   Loader2,
+  Ban,
+  Hourglass,
   X
 } from "lucide-react";
 import {
   clearExecutionHistory,
+  DEFAULT_EXECUTION_PAGE_SIZE,
   deleteExecutionLog,
   EXECUTION_HISTORY_UPDATED_EVENT,
   ExecutionLog,
+  ExecutionMode,
+  executionModes,
+  ExecutionQuery,
+  ExecutionStatus,
+  executionStatuses,
+  fetchExecutions,
   formatDuration,
   formatTimestamp,
-  getExecutionHistory,
+  getExecutionMode,
+  MAX_EXECUTION_PAGE_SIZE,
+  updateExecutionLog,
 } from "@/lib/execution-history";
+import { useWorkflowStore } from "@/lib/store";
+import { cancelWaitingExecution, fetchWaitingExecution } from "@/lib/waiting-executions";
+
+interface ExecutionFilters {
+  status: ExecutionStatus | "";
+  mode: ExecutionMode | "";
+  workflowId: string;
+  /** Dates as entered in the date inputs, e.g. "2025-05-01". */
+  from: string;
+  to: string;
+}
+
+const noFilters: ExecutionFilters = { status: "", mode: "", workflowId: "", from: "", to: "" };
+
+// Date inputs give local calendar days; `to` includes the whole day.
+const toQuery = (filters: ExecutionFilters): ExecutionQuery => ({
+  status: filters.status || undefined,
+  mode: filters.mode || undefined,
+  workflowId: filters.workflowId || undefined,
+  from: filters.from ? new Date(`${filters.from}T00:00:00`).getTime() : undefined,
+  to: filters.to ? new Date(`${filters.to}T23:59:59.999`).getTime() : undefined,
+});
+
+// Waiting executions continue on the server; pick up their progress. Only
+// finished ones are written back, as every write reloads the list.
+const refreshWaitingLogs = (logs: ExecutionLog[]) =>
+  logs
+    .filter((log) => log.status === "waiting")
+    .forEach((log) => {
+      fetchWaitingExecution(log.id)
+        .then((execution) => {
+          if (
+            execution &&
+            execution.log.status !== "running" &&
+            execution.log.status !== log.status
+          ) {
+            updateExecutionLog(execution.log);
+          }
+        })
+        .catch((error) => console.error("Failed to refresh waiting execution:", error));
+    });
+
+const modeLabels: Record<ExecutionMode, string> = {
+  manual: "Manual",
+  webhook: "Webhook",
+  schedule: "Schedule",
+  api: "API",
+};
+
+// Describes what a waiting execution is waiting for, e.g. "until 5/1/2025, 9:00:00 AM".
+const describeWait = (log: ExecutionLog) =>
+  (log.wait?.nodes ?? [])
+    .map((node) => {
+      const name = log.results.find((result) => result.nodeId === node.nodeId)?.nodeName ?? node.nodeId;
+      return node.resumeAt !== undefined
+        ? `${name} until ${new Date(node.resumeAt).toLocaleString()}`
+        : `${name} for its resume webhook`;
+    })
+    .join(", ");
+
+// Positions a node's run inside the execution's total duration so that
+// branches which ran in parallel show up as overlapping bars.
+const getTimelineStyle = (log: ExecutionLog, startedAt: number, finishedAt: number) => {
+  const total = Math.max(log.duration, 1);
+  const left = Math.min(Math.max((startedAt - log.timestamp) / total, 0), 1);
+  const width = Math.max((finishedAt - startedAt) / total, 0.01);
+  return {
+    left: `${left * 100}%`,
+    width: `${Math.min(width, 1 - left) * 100}%`,
+  };
+};
 
 interface ExecutionHistoryPanelProps {
   onClose: () => void;
 }
 
 export default function ExecutionHistoryPanel({ onClose }: ExecutionHistoryPanelProps) {
-  const [history, setHistory] = useState<ExecutionLog[]>(() => getExecutionHistory());
+  const { savedWorkflows } = useWorkflowStore();
+  const [history, setHistory] = useState<ExecutionLog[]>([]);
   const [expandedLogs, setExpandedLogs] = useState<Set<string>>(new Set());
+  const [filters, setFilters] = useState<ExecutionFilters>(noFilters);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  // Responses to requests made before the filters changed are dropped
+  const requestRef = useRef(0);
+  const loadedCountRef = useRef(0);
+
+  const hasFilters = Object.values(filters).some(Boolean);
+
+  /**
+   * Loads the first `limit` matching executions, replacing the list, or the
+   * page after `cursor`, appending to it.
+   */
+  const loadExecutions = useCallback(
+    async (cursor?: string, limit = DEFAULT_EXECUTION_PAGE_SIZE) => {
+      const request = ++requestRef.current;
+      setIsLoading(true);
+      try {
+        const page = await fetchExecutions({ ...toQuery(filters), cursor, limit });
+        if (request !== requestRef.current) return;
+        setHistory((prev) => {
+          const logs = cursor ? [...prev, ...page.executions] : page.executions;
+          loadedCountRef.current = logs.length;
+          return logs;
+        });
+        setNextCursor(page.nextCursor);
+        setLoadError(null);
+        refreshWaitingLogs(page.executions);
+      } catch (error) {
+        if (request !== requestRef.current) return;
+        setLoadError(error instanceof Error ? error.message : "Failed to load execution history");
+      } finally {
+        if (request === requestRef.current) setIsLoading(false);
+      }
+    },
+    [filters]
+  );
 
   useEffect(() => {
-    const handleUpdate = () => setHistory(getExecutionHistory());
+    loadExecutions();
+
+    // Reload as many executions as are shown, so the list keeps its place
+    const handleUpdate = () =>
+      loadExecutions(
+        undefined,
+        Math.min(
+          Math.max(loadedCountRef.current, DEFAULT_EXECUTION_PAGE_SIZE),
+          MAX_EXECUTION_PAGE_SIZE
+        )
+      );
 
     if (typeof window !== "undefined") {
       window.addEventListener(EXECUTION_HISTORY_UPDATED_EVENT, handleUpdate);
-      window.addEventListener("storage", handleUpdate);
     }
 
     return () => {
       if (typeof window !== "undefined") {
         window.removeEventListener(EXECUTION_HISTORY_UPDATED_EVENT, handleUpdate);
-        window.removeEventListener("storage", handleUpdate);
       }
     };
-  }, []);
+  }, [loadExecutions]);
 
-  const handleClearHistory = () => {
+  // Loads the next page once the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextCursor || isLoading || loadError) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          loadExecutions(nextCursor);
+        }
+      },
+      { root: scrollRef.current, rootMargin: "200px" }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [isLoading, loadError, loadExecutions, nextCursor]);
+
+  const updateFilter = <K extends keyof ExecutionFilters>(key: K, value: ExecutionFilters[K]) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+    setExpandedLogs(new Set());
+  };
+
+  const handleCancelWait = async (id: string) => {
+    try {
+      const execution = await cancelWaitingExecution(id);
+      updateExecutionLog(execution.log);
+    } catch (error) {
+      window.alert(error instanceof Error ? error.message : "Failed to cancel the execution");
+    }
+  };
+
+  const handleClearHistory = async () => {
     if (window.confirm("Are you sure you want to clear all execution history?")) {
-      clearExecutionHistory();
+      await clearExecutionHistory();
       setHistory([]);
+      setNextCursor(null);
       setExpandedLogs(new Set());
     }
   };
 
-  const handleDeleteLog = (id: string) => {
-    deleteExecutionLog(id);
-    setHistory(getExecutionHistory());
+  const handleDeleteLog = async (id: string) => {
+    await deleteExecutionLog(id);
     setExpandedLogs((prev) => {
       if (!prev.has(id)) return prev;
       const updated = new Set(prev);
@@ -75,6 +237,16 @@ export default function ExecutionHistoryPanel({ onClose }: ExecutionHistoryPanel
     });
   };
 
+  // Jumps between a parent execution and its sub-workflow executions.
+  const focusLog = (id: string) => {
+    setExpandedLogs((prev) => new Set(prev).add(id));
+    document
+      .getElementById(`execution-${id}`)
+      ?.scrollIntoView({ behavior: "smooth", block: "start" });
+  };
+
+  const hasLog = (id: string) => history.some((log) => log.id === id);
+
   const getStatusIcon = (status: ExecutionLog["status"]) => {
     switch (status) {
       case 'success':
@@ -83,6 +255,10 @@ export default function ExecutionHistoryPanel({ onClose }: ExecutionHistoryPanel
         return <XCircle className="h-5 w-5 text-red-500" />;
       case 'running':
         return <Loader2 className="h-5 w-5 text-blue-500 animate-spin" />;
+      case 'cancelled':
+        return <Ban className="h-5 w-5 text-amber-500" />;
+      case 'waiting':
+        return <Hourglass className="h-5 w-5 text-violet-500" />;
       default:
         return <AlertCircle className="h-5 w-5 text-gray-500" />;
     }
@@ -97,7 +273,9 @@ export default function ExecutionHistoryPanel({ onClose }: ExecutionHistoryPanel
             Execution History
           </h3>
           <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
-            {history.length} execution{history.length !== 1 ? 's' : ''}
+            {history.length}
+            {nextCursor ? "+" : ""} {hasFilters ? "matching " : ""}execution
+            {history.length !== 1 || nextCursor ? "s" : ""}
           </p>
         </div>
         <div className="flex items-center gap-2">
@@ -119,21 +297,107 @@ export default function ExecutionHistoryPanel({ onClose }: ExecutionHistoryPanel
         </div>
       </div>
 
+      {/* Filters */}
+      <div className="border-b border-gray-200 dark:border-gray-700 p-4 grid grid-cols-2 md:grid-cols-3 gap-2 text-sm">
+        <select
+          value={filters.status}
+          onChange={(e) => updateFilter("status", e.target.value as ExecutionFilters["status"])}
+          className="px-2 py-1.5 border border-gray-300 dark:border-gray-700 rounded-md bg-white dark:bg-gray-900 text-gray-900 dark:text-white"
+          title="Status"
+        >
+          <option value="">All statuses</option>
+          {executionStatuses.map((status) => (
+            <option key={status} value={status}>
+              {status}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filters.mode}
+          onChange={(e) => updateFilter("mode", e.target.value as ExecutionFilters["mode"])}
+          className="px-2 py-1.5 border border-gray-300 dark:border-gray-700 rounded-md bg-white dark:bg-gray-900 text-gray-900 dark:text-white"
+          title="Started by"
+        >
+          <option value="">All modes</option>
+          {executionModes.map((mode) => (
+            <option key={mode} value={mode}>
+              {modeLabels[mode]}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filters.workflowId}
+          onChange={(e) => updateFilter("workflowId", e.target.value)}
+          className="px-2 py-1.5 border border-gray-300 dark:border-gray-700 rounded-md bg-white dark:bg-gray-900 text-gray-900 dark:text-white"
+          title="Workflow"
+        >
+          <option value="">All workflows</option>
+          {savedWorkflows.map((workflow) => (
+            <option key={workflow.id} value={workflow.id}>
+              {workflow.name}
+            </option>
+          ))}
+        </select>
+        <input
+          type="date"
+          value={filters.from}
+          max={filters.to || undefined}
+          onChange={(e) => updateFilter("from", e.target.value)}
+          className="px-2 py-1.5 border border-gray-300 dark:border-gray-700 rounded-md bg-white dark:bg-gray-900 text-gray-900 dark:text-white"
+          title="From"
+        />
+        <input
+          type="date"
+          value={filters.to}
+          min={filters.from || undefined}
+          onChange={(e) => updateFilter("to", e.target.value)}
+          className="px-2 py-1.5 border border-gray-300 dark:border-gray-700 rounded-md bg-white dark:bg-gray-900 text-gray-900 dark:text-white"
+          title="To"
+        />
+        {hasFilters && (
+          <button
+            onClick={() => {
+              setFilters(noFilters);
+              setExpandedLogs(new Set());
+            }}
+            className="px-2 py-1.5 text-blue-600 dark:text-blue-400 hover:underline text-left"
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+
       {/* Content */}
-      <div className="flex-1 overflow-y-auto p-4">
+      <div ref={scrollRef} className="flex-1 overflow-y-auto p-4">
         {history.length === 0 ? (
-          <div className="text-center py-12">
-            <Clock className="h-12 w-12 text-gray-300 dark:text-gray-600 mx-auto mb-4" />
-            <p className="text-gray-500 dark:text-gray-400">No execution history yet</p>
-            <p className="text-sm text-gray-400 dark:text-gray-500 mt-2">
-              Run your workflow to see execution logs here
-            </p>
-          </div>
+          isLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-8 w-8 text-gray-400 animate-spin" />
+            </div>
+          ) : loadError ? (
+            <div className="text-center py-12 text-sm text-red-600 dark:text-red-400">
+              {loadError}
+            </div>
+          ) : hasFilters ? (
+            <div className="text-center py-12">
+              <Clock className="h-12 w-12 text-gray-300 dark:text-gray-600 mx-auto mb-4" />
+              <p className="text-gray-500 dark:text-gray-400">No executions match these filters</p>
+            </div>
+          ) : (
+            <div className="text-center py-12">
+              <Clock className="h-12 w-12 text-gray-300 dark:text-gray-600 mx-auto mb-4" />
+              <p className="text-gray-500 dark:text-gray-400">No execution history yet</p>
+              <p className="text-sm text-gray-400 dark:text-gray-500 mt-2">
+                Run your workflow to see execution logs here
+              </p>
+            </div>
+          )
         ) : (
           <div className="space-y-3">
             {history.map((log) => (
               <div
                 key={log.id}
+                id={`execution-${log.id}`}
                 className="bg-gray-50 dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden"
               >
                 {/* Log Header */}
@@ -144,13 +408,17 @@ export default function ExecutionHistoryPanel({ onClose }: ExecutionHistoryPanel
                       <div className="flex-1 min-w-0">
                         <div className="flex items-center gap-2">
                           <span className="font-medium text-gray-900 dark:text-white">
-                            Workflow Execution
+                            {log.workflowName ?? "Workflow Execution"}
                           </span>
                           <span className={`text-xs px-2 py-1 rounded-full ${
                             log.status === 'success' 
                               ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400'
                               : log.status === 'error'
                               ? 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400'
+                              : log.status === 'cancelled'
+                              ? 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400'
+                              : log.status === 'waiting'
+                              ? 'bg-violet-100 text-violet-700 dark:bg-violet-900/30 dark:text-violet-400'
                               : 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400'
                           }`}>
                             {log.status}
@@ -162,15 +430,46 @@ export default function ExecutionHistoryPanel({ onClose }: ExecutionHistoryPanel
                           <span>{formatDuration(log.duration)}</span>
                           <span>•</span>
                           <span>{log.nodesExecuted}/{log.totalNodes} nodes</span>
+                          <span>•</span>
+                          <span>{modeLabels[getExecutionMode(log)]}</span>
                         </div>
+                        {log.parentExecutionId && (
+                          <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                            Sub-workflow of{" "}
+                            {hasLog(log.parentExecutionId) ? (
+                              <button
+                                onClick={() => focusLog(log.parentExecutionId!)}
+                                className="text-blue-600 dark:text-blue-400 hover:underline"
+                              >
+                                parent execution
+                              </button>
+                            ) : (
+                              <span className="font-mono">{log.parentExecutionId}</span>
+                            )}
+                          </div>
+                        )}
                         {log.errorMessage && (
                           <div className="mt-2 text-sm text-red-600 dark:text-red-400">
                             {log.errorMessage}
                           </div>
                         )}
+                        {log.status === "waiting" && (
+                          <div className="mt-2 text-sm text-violet-600 dark:text-violet-400">
+                            Waiting: {describeWait(log)}
+                          </div>
+                        )}
                       </div>
                     </div>
                     <div className="flex items-center gap-2 ml-2">
+                      {log.status === "waiting" && (
+                        <button
+                          onClick={() => handleCancelWait(log.id)}
+                          className="text-gray-500 hover:text-amber-600 dark:text-gray-400 dark:hover:text-amber-400 p-1"
+                          title="Cancel the waiting execution"
+                        >
+                          <Ban className="h-4 w-4" />
+                        </button>
+                      )}
                       <button
                         onClick={() => toggleExpand(log.id)}
                         className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 p-1"
@@ -209,18 +508,109 @@ export default function ExecutionHistoryPanel({ onClose }: ExecutionHistoryPanel
                                 <CheckCircle className="h-4 w-4 text-green-500" />
                               ) : result.status === 'error' ? (
                                 <XCircle className="h-4 w-4 text-red-500" />
+                              ) : result.status === 'cancelled' ? (
+                                <Ban className="h-4 w-4 text-amber-500" />
+                              ) : result.status === 'waiting' ? (
+                                <Hourglass className="h-4 w-4 text-violet-500" />
                               ) : (
                                 <AlertCircle className="h-4 w-4 text-gray-400" />
                               )}
                               <span className="font-medium text-sm text-gray-900 dark:text-white">
                                 {result.nodeName}
                               </span>
+                              {result.inputItems !== undefined && result.outputItems !== undefined && (
+                                <span
+                                  className="text-xs text-gray-500 dark:text-gray-400"
+                                  title="Input items → output items"
+                                >
+                                  {result.inputItems} → {result.outputItems} item{result.outputItems !== 1 ? "s" : ""}
+                                </span>
+                              )}
+                              {result.pinned && (
+                                <span className="text-xs px-1.5 py-0.5 rounded bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300">
+                                  pinned
+                                </span>
+                              )}
                             </div>
                             <span className="text-xs text-gray-500 dark:text-gray-400">
                               {formatDuration(result.duration)}
                             </span>
                           </div>
+
+                          {result.startedAt !== undefined && result.finishedAt !== undefined && (
+                            <div
+                              className="relative h-1.5 mb-2 rounded bg-gray-200 dark:bg-gray-700"
+                              title={`${formatDuration(result.startedAt - log.timestamp)} → ${formatDuration(result.finishedAt - log.timestamp)}`}
+                            >
+                              <div
+                                className="absolute inset-y-0 rounded bg-blue-500"
+                                style={getTimelineStyle(log, result.startedAt, result.finishedAt)}
+                              />
+                            </div>
+                          )}
                           
+                          {result.subExecutionId && (
+                            <div className="mb-2 text-xs">
+                              {hasLog(result.subExecutionId) ? (
+                                <button
+                                  onClick={() => focusLog(result.subExecutionId!)}
+                                  className="text-blue-600 dark:text-blue-400 hover:underline"
+                                >
+                                  View sub-workflow execution →
+                                </button>
+                              ) : (
+                                <span className="text-gray-500 dark:text-gray-400">
+                                  Sub-workflow execution {result.subExecutionId} is not in the list
+                                </span>
+                              )}
+                            </div>
+                          )}
+
+                          {result.logs && result.logs.length > 0 && (
+                            <details className="mt-2">
+                              <summary className="text-xs text-gray-600 dark:text-gray-400 cursor-pointer">
+                                Console ({result.logs.length})
+                              </summary>
+                              <pre className="mt-1 text-xs bg-gray-900 text-gray-100 p-2 rounded overflow-x-auto max-h-40">
+                                {result.logs.map((entry, index) => (
+                                  <div
+                                    key={index}
+                                    className={
+                                      entry.level === "error"
+                                        ? "text-red-400"
+                                        : entry.level === "warn"
+                                          ? "text-yellow-300"
+                                          : undefined
+                                    }
+                                  >
+                                    {entry.message}
+                                  </div>
+                                ))}
+                              </pre>
+                            </details>
+                          )}
+
+                          {result.attempts && result.attempts.length > 1 && (
+                            <details className="mt-2">
+                              <summary className="text-xs text-amber-600 dark:text-amber-400 cursor-pointer">
+                                {result.attempts.length} attempts ({result.attempts.length - 1} retr{result.attempts.length === 2 ? "y" : "ies"})
+                              </summary>
+                              <ul className="mt-1 space-y-1">
+                                {result.attempts.map((attempt) => (
+                                  <li
+                                    key={attempt.attempt}
+                                    className="text-xs text-gray-600 dark:text-gray-400"
+                                  >
+                                    #{attempt.attempt} · {attempt.success ? "succeeded" : "failed"} ·{" "}
+                                    {formatDuration(attempt.finishedAt - attempt.startedAt)}
+                                    {attempt.statusCode ? ` · HTTP ${attempt.statusCode}` : ""}
+                                    {attempt.error ? ` · ${attempt.error}` : ""}
+                                  </li>
+                                ))}
+                              </ul>
+                            </details>
+                          )}
+
                           {typeof result.error === "string" && result.error.trim() !== "" && (
                             <div className="mt-2 p-2 bg-red-50 dark:bg-red-900/20 rounded text-xs text-red-600 dark:text-red-400">
                               {result.error}
@@ -244,6 +634,23 @@ export default function ExecutionHistoryPanel({ onClose }: ExecutionHistoryPanel
                 )}
               </div>
             ))}
+            <div ref={sentinelRef} />
+            {isLoading && (
+              <div className="flex justify-center py-2">
+                <Loader2 className="h-5 w-5 text-gray-400 animate-spin" />
+              </div>
+            )}
+            {loadError && (
+              <div className="text-center py-2 text-sm text-red-600 dark:text-red-400">
+                {loadError}{" "}
+                <button
+                  onClick={() => loadExecutions(nextCursor ?? undefined)}
+                  className="text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  Retry
+                </button>
+              </div>
+            )}
           </div>
         )}
       </div>
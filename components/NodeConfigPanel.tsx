@@ -3,13 +3,18 @@
 
 import React, { useEffect, useMemo, useRef, useState } from "react";
 import { useWorkflowStore } from "@/lib/store";
-import { nodeDefinitions } from "@/lib/node-definitions";
+import { nodeDefinitions, nodeSettingsFields } from "@/lib/node-definitions";
+import { getGlobalVariables, resolveVariables } from "@/lib/variables";
+import { fetchCredentials, type CredentialSummary } from "@/lib/credentials";
+import type { JsonValue, NodeSettings } from "@/lib/types";
 import { Button } from "@/components/ui/Button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Select } from "@/components/ui/select";
-import { X } from "lucide-react";
+import ConditionRulesEditor from "@/components/ConditionRulesEditor";
+import SwitchCasesEditor from "@/components/SwitchCasesEditor";
+import { Pin, PinOff, X } from "lucide-react";
 
 const MAX_VARIABLE_DEPTH = 4;
 
@@ -88,6 +93,9 @@ const collectFieldSuggestions = (
   return suggestions;
 };
 
+const formatPinnedData = (value: unknown) =>
+  value === undefined ? "" : JSON.stringify(value, null, 2);
+
 interface NodeConfigPanelProps {
   nodeId: string;
   onClose: () => void;
@@ -97,17 +105,48 @@ export default function NodeConfigPanel({
   nodeId,
   onClose,
 }: NodeConfigPanelProps) {
-  const { nodes, edges, updateNode } = useWorkflowStore();
+  const { nodes, edges, variables, updateNode, savedWorkflows } = useWorkflowStore();
   const node = nodes.find((n) => n.id === nodeId);
+  const variableNames = useMemo(
+    () => Object.keys(resolveVariables(getGlobalVariables(), variables)),
+    [variables]
+  );
 
   const [config, setConfig] = useState<Record<string, unknown>>(
     node?.data.config || {}
   );
 
+  const [settings, setSettings] = useState<NodeSettings>(node?.data.settings || {});
+  const [pinDraft, setPinDraft] = useState(() => formatPinnedData(node?.data.pinnedData));
+  const [pinError, setPinError] = useState<string | null>(null);
+  const [credentials, setCredentials] = useState<CredentialSummary[]>([]);
+  const [credentialsError, setCredentialsError] = useState<string | null>(null);
+
+  const usesCredentials = node
+    ? nodeDefinitions[node.data.type].configFields.some((field) => field.type === "credential")
+    : false;
+
+  useEffect(() => {
+    if (!usesCredentials) return;
+    let cancelled = false;
+    fetchCredentials()
+      .then((loaded) => {
+        if (!cancelled) setCredentials(loaded);
+      })
+      .catch((error: Error) => {
+        if (!cancelled) setCredentialsError(error.message);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [usesCredentials]);
+
   useEffect(() => {
     if (node?.data.config) {
       setConfig(node.data.config);
     }
+    setSettings(node?.data.settings || {});
+    setPinDraft(formatPinnedData(node?.data.pinnedData));
   }, [node]);
 
   const availableVariableNodes = useMemo(
@@ -143,6 +182,11 @@ export default function NodeConfigPanel({
       },
     ];
 
+    variableNames.forEach((name) => {
+      suggestions.push({ token: `{{$vars.${name}}}`, description: `Variable ${name}` });
+      seen.add(`{{$vars.${name}}}`);
+    });
+
     availableVariableNodes.forEach((item) => {
       const label = item.data?.label || item.id;
       const baseToken = `{{${item.id}}}`;
@@ -177,7 +221,7 @@ export default function NodeConfigPanel({
     });
 
     return suggestions;
-  }, [availableVariableNodes, inputData]);
+  }, [availableVariableNodes, inputData, variableNames]);
 
   const fieldRefs = useRef<
     Record<string, HTMLInputElement | HTMLTextAreaElement | null>
@@ -210,7 +254,7 @@ export default function NodeConfigPanel({
   if (!definition) return null;
 
   const handleSave = () => {
-    updateNode(nodeId, { config });
+    updateNode(nodeId, { config, settings });
     onClose();
   };
 
@@ -218,6 +262,35 @@ export default function NodeConfigPanel({
     setConfig((prev) => ({ ...prev, [name]: value }));
   };
 
+  const handleSettingChange = (name: string, value: string) => {
+    setSettings((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const getSettingValue = (name: string, defaultValue?: unknown) =>
+    String(settings[name as keyof NodeSettings] ?? defaultValue ?? "");
+
+  const isPinned = node.data.pinnedData !== undefined;
+
+  const handlePin = () => {
+    try {
+      const pinnedData = JSON.parse(pinDraft) as JsonValue;
+      updateNode(nodeId, { pinnedData });
+      setPinError(null);
+    } catch (error: unknown) {
+      setPinError(error instanceof Error ? error.message : "Invalid JSON");
+    }
+  };
+
+  const handlePinLastOutput = () => {
+    setPinDraft(formatPinnedData(node.data.output));
+    setPinError(null);
+  };
+
+  const handleUnpin = () => {
+    updateNode(nodeId, { pinnedData: undefined });
+    setPinError(null);
+  };
+
   const handleInsertVariable = (name: string, token: string) => {
     const element = fieldRefs.current[name];
     if (!element) {
@@ -336,6 +409,53 @@ export default function NodeConfigPanel({
               </Select>
             )}
 
+            {field.type === "workflow" && (
+              <Select
+                value={getFieldValue(field.name, field.defaultValue)}
+                onChange={(e) => handleChange(field.name, e.target.value)}
+                className="mt-1"
+              >
+                <option value="">
+                  {savedWorkflows.length > 0 ? "Select a saved workflow" : "No saved workflows"}
+                </option>
+                {savedWorkflows.map((workflow) => (
+                  <option key={workflow.id} value={workflow.id}>
+                    {workflow.name}
+                  </option>
+                ))}
+              </Select>
+            )}
+
+            {field.type === "conditions" && (
+              <ConditionRulesEditor config={config} onChange={handleChange} />
+            )}
+
+            {field.type === "switchCases" && (
+              <SwitchCasesEditor config={config} onChange={handleChange} />
+            )}
+
+            {field.type === "credential" && (
+              <>
+                <Select
+                  value={getFieldValue(field.name, field.defaultValue)}
+                  onChange={(e) => handleChange(field.name, e.target.value)}
+                  className="mt-1"
+                >
+                  <option value="">None</option>
+                  {credentials.map((credential) => (
+                    <option key={credential.id} value={credential.id}>
+                      {credential.name}
+                    </option>
+                  ))}
+                </Select>
+                {credentialsError && (
+                  <p className="mt-1 text-xs text-red-600 dark:text-red-400">
+                    {credentialsError}
+                  </p>
+                )}
+              </>
+            )}
+
             {supportsVariables(field.type) && variableSuggestions.length > 0 && (
               <div className="mt-2">
                 <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">
@@ -359,6 +479,39 @@ export default function NodeConfigPanel({
           </div>
         ))}
 
+        <div className="pt-4 border-t border-gray-200 dark:border-gray-700 space-y-4">
+          <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+            Settings
+          </h4>
+          {nodeSettingsFields.map((field) => (
+            <div key={field.name}>
+              <Label className="text-gray-700 dark:text-gray-300">{field.label}</Label>
+              {field.type === "select" ? (
+                <Select
+                  value={getSettingValue(field.name, field.defaultValue)}
+                  onChange={(e) => handleSettingChange(field.name, e.target.value)}
+                  className="mt-1"
+                >
+                  {field.options?.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </Select>
+              ) : (
+                <Input
+                  type="text"
+                  inputMode={field.type === "number" ? "decimal" : undefined}
+                  value={getSettingValue(field.name, field.defaultValue)}
+                  onChange={(e) => handleSettingChange(field.name, e.target.value)}
+                  placeholder={field.placeholder}
+                  className="mt-1"
+                />
+              )}
+            </div>
+          ))}
+        </div>
+
         <div className="pt-4 border-t border-gray-200 dark:border-gray-700 flex gap-2">
           <Button onClick={handleSave} className="flex-1">
             Save Configuration
@@ -368,6 +521,47 @@ export default function NodeConfigPanel({
           </Button>
         </div>
 
+        <div className="mt-6 p-4 bg-purple-50 dark:bg-purple-900/20 rounded-lg border border-purple-200 dark:border-purple-800 space-y-2">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-semibold text-purple-700 dark:text-purple-300 flex items-center gap-1">
+              <Pin className="h-4 w-4" />
+              Pinned Data
+            </h4>
+            {isPinned && (
+              <span className="text-xs text-purple-600 dark:text-purple-400">
+                Active – node will not execute
+              </span>
+            )}
+          </div>
+          <Textarea
+            value={pinDraft}
+            onChange={(e) => setPinDraft(e.target.value)}
+            placeholder='{"key": "value"}'
+            className="font-mono text-xs"
+            rows={6}
+          />
+          {pinError && (
+            <div className="text-xs text-red-600 dark:text-red-400">{pinError}</div>
+          )}
+          <div className="flex flex-wrap gap-2">
+            <Button onClick={handlePin} size="sm" disabled={!pinDraft.trim()}>
+              <Pin className="h-3 w-3 mr-1" />
+              {isPinned ? "Update pin" : "Pin data"}
+            </Button>
+            {node.data.output !== undefined && (
+              <Button onClick={handlePinLastOutput} size="sm" variant="outline">
+                Use last output
+              </Button>
+            )}
+            {isPinned && (
+              <Button onClick={handleUnpin} size="sm" variant="outline">
+                <PinOff className="h-3 w-3 mr-1" />
+                Unpin
+              </Button>
+            )}
+          </div>
+        </div>
+
         {node.data.output && (
           <div className="mt-6 p-4 bg-gray-50 dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-700">
             <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
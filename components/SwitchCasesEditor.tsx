@@ -0,0 +1,152 @@
+"use client";
+
+import React from "react";
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+import { createSwitchCase, parseSwitchCases, switchMatchModes } from "@/lib/switch-cases";
+import type { SwitchCase, SwitchMatchMode } from "@/lib/types";
+
+interface SwitchCasesEditorProps {
+  config: Record<string, unknown>;
+  onChange: (name: string, value: string) => void;
+}
+
+const VALUE_PLACEHOLDERS: Record<SwitchMatchMode, string> = {
+  exact: "success",
+  caseInsensitive: "success",
+  regex: "/^order-\\d+$/i",
+  range: "",
+  expression: "$value > 100 && input.priority == 'high'",
+};
+
+/**
+ * Edits a Switch node's cases. Each case keeps its id (the output handle)
+ * when it is edited or moved, so its connections follow it.
+ */
+export default function SwitchCasesEditor({ config, onChange }: SwitchCasesEditorProps) {
+  const cases = parseSwitchCases(config);
+
+  const setCases = (next: SwitchCase[]) => onChange("switchCases", JSON.stringify(next));
+
+  const updateCase = (id: string, changes: Partial<SwitchCase>) =>
+    setCases(cases.map((switchCase) => (switchCase.id === id ? { ...switchCase, ...changes } : switchCase)));
+
+  const moveCase = (index: number, offset: number) => {
+    const next = [...cases];
+    const [moved] = next.splice(index, 1);
+    next.splice(index + offset, 0, moved);
+    setCases(next);
+  };
+
+  return (
+    <div className="mt-1 space-y-3">
+      {cases.length === 0 && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          No cases yet; everything goes to Default.
+        </p>
+      )}
+
+      {cases.map((switchCase, index) => (
+        <div
+          key={switchCase.id}
+          className="p-2 space-y-2 border border-gray-200 dark:border-gray-700 rounded-md"
+        >
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-gray-500 dark:text-gray-400 w-5">{index + 1}.</span>
+            <Select
+              value={switchCase.mode}
+              onChange={(e) => updateCase(switchCase.id, { mode: e.target.value as SwitchMatchMode })}
+              className="flex-1 h-8 text-xs px-2 py-1"
+            >
+              {switchMatchModes.map((mode) => (
+                <option key={mode.value} value={mode.value}>
+                  {mode.label}
+                </option>
+              ))}
+            </Select>
+            <button
+              type="button"
+              onClick={() => moveCase(index, -1)}
+              disabled={index === 0}
+              className="text-gray-500 hover:text-gray-700 disabled:opacity-30 p-1"
+              title="Move up"
+            >
+              <ArrowUp className="h-4 w-4" />
+            </button>
+            <button
+              type="button"
+              onClick={() => moveCase(index, 1)}
+              disabled={index === cases.length - 1}
+              className="text-gray-500 hover:text-gray-700 disabled:opacity-30 p-1"
+              title="Move down"
+            >
+              <ArrowDown className="h-4 w-4" />
+            </button>
+            <button
+              type="button"
+              onClick={() => setCases(cases.filter((candidate) => candidate.id !== switchCase.id))}
+              className="text-red-500 hover:text-red-700 p-1"
+              title="Remove case"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+
+          <div className="flex gap-2 pl-7">
+            {switchCase.mode === "range" ? (
+              <>
+                <Input
+                  value={switchCase.min ?? ""}
+                  onChange={(e) => updateCase(switchCase.id, { min: e.target.value })}
+                  placeholder="Min"
+                  className="flex-1 h-8 text-xs"
+                />
+                <Input
+                  value={switchCase.max ?? ""}
+                  onChange={(e) => updateCase(switchCase.id, { max: e.target.value })}
+                  placeholder="Max"
+                  className="flex-1 h-8 text-xs"
+                />
+              </>
+            ) : (
+              <Input
+                value={switchCase.value}
+                onChange={(e) => updateCase(switchCase.id, { value: e.target.value })}
+                placeholder={VALUE_PLACEHOLDERS[switchCase.mode]}
+                className={`flex-1 h-8 text-xs ${
+                  switchCase.mode === "regex" || switchCase.mode === "expression" ? "font-mono" : ""
+                }`}
+              />
+            )}
+          </div>
+
+          <div className="pl-7">
+            <Input
+              value={switchCase.label ?? ""}
+              onChange={(e) => updateCase(switchCase.id, { label: e.target.value })}
+              placeholder="Output label (optional)"
+              className="h-8 text-xs"
+            />
+          </div>
+        </div>
+      ))}
+
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Ranges are inclusive. Expressions see the property value as <code>$value</code>.
+      </p>
+
+      <Button
+        type="button"
+        onClick={() => setCases([...cases, createSwitchCase()])}
+        variant="outline"
+        size="sm"
+        className="w-full"
+      >
+        <Plus className="h-4 w-4 mr-1" />
+        Add case
+      </Button>
+    </div>
+  );
+}
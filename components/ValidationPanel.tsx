@@ -0,0 +1,71 @@
+"use client";
+
+import React, { useState } from "react";
+import { AlertCircle, AlertTriangle, CheckCircle, ChevronDown, ChevronRight } from "lucide-react";
+import type { ValidationIssue } from "@/lib/types";
+
+interface ValidationPanelProps {
+  issues: ValidationIssue[];
+  onSelectNode: (nodeId: string) => void;
+}
+
+export default function ValidationPanel({ issues, onSelectNode }: ValidationPanelProps) {
+  const [expanded, setExpanded] = useState(false);
+  const errorCount = issues.filter((issue) => issue.severity === "error").length;
+  const warningCount = issues.length - errorCount;
+
+  if (issues.length === 0) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-green-600 dark:text-green-400">
+        <CheckCircle className="h-4 w-4" />
+        No issues
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-80">
+      <button
+        type="button"
+        onClick={() => setExpanded((value) => !value)}
+        className="w-full flex items-center gap-2 text-sm font-medium text-gray-900 dark:text-white"
+      >
+        {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+        {errorCount > 0 && (
+          <span className="flex items-center gap-1 text-red-600 dark:text-red-400">
+            <AlertCircle className="h-4 w-4" />
+            {errorCount} error{errorCount !== 1 ? "s" : ""}
+          </span>
+        )}
+        {warningCount > 0 && (
+          <span className="flex items-center gap-1 text-amber-600 dark:text-amber-400">
+            <AlertTriangle className="h-4 w-4" />
+            {warningCount} warning{warningCount !== 1 ? "s" : ""}
+          </span>
+        )}
+      </button>
+
+      {expanded && (
+        <ul className="mt-2 space-y-1 max-h-64 overflow-y-auto">
+          {issues.map((issue) => (
+            <li key={issue.id}>
+              <button
+                type="button"
+                disabled={!issue.nodeIds?.length}
+                onClick={() => issue.nodeIds?.[0] && onSelectNode(issue.nodeIds[0])}
+                className="w-full text-left flex items-start gap-2 p-2 rounded text-xs text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:hover:bg-transparent"
+              >
+                {issue.severity === "error" ? (
+                  <AlertCircle className="h-3 w-3 mt-0.5 shrink-0 text-red-500" />
+                ) : (
+                  <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0 text-amber-500" />
+                )}
+                {issue.message}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+"use client";
+
+import React, { useState } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import { useWorkflowStore } from "@/lib/store";
+import type { WorkflowVariables } from "@/lib/types";
+import {
+  getGlobalVariables,
+  saveGlobalVariables,
+  VARIABLE_NAME_PATTERN,
+} from "@/lib/variables";
+
+interface VariableRow {
+  key: string;
+  value: string;
+}
+
+type VariableScope = "workflow" | "global";
+
+const toRows = (variables: WorkflowVariables): VariableRow[] =>
+  Object.entries(variables).map(([key, value]) => ({ key, value }));
+
+const toVariables = (rows: VariableRow[]): WorkflowVariables =>
+  Object.fromEntries(
+    rows.filter((row) => row.key.trim()).map((row) => [row.key.trim(), row.value])
+  );
+
+// Returns the first problem with a list of rows, or null when it can be saved.
+const validateRows = (rows: VariableRow[], scope: string): string | null => {
+  const names = rows.map((row) => row.key.trim()).filter(Boolean);
+  const invalid = names.find((name) => !VARIABLE_NAME_PATTERN.test(name));
+  if (invalid) {
+    return `${scope} variable "${invalid}" must start with a letter or underscore and contain only letters, digits and underscores`;
+  }
+  const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+  if (duplicate) {
+    return `${scope} variable "${duplicate}" is defined twice`;
+  }
+  return null;
+};
+
+interface VariablesDialogProps {
+  onClose: () => void;
+}
+
+export default function VariablesDialog({ onClose }: VariablesDialogProps) {
+  const { variables, setVariables } = useWorkflowStore();
+  const [scope, setScope] = useState<VariableScope>("workflow");
+  const [workflowRows, setWorkflowRows] = useState<VariableRow[]>(() => toRows(variables));
+  const [globalRows, setGlobalRows] = useState<VariableRow[]>(() =>
+    toRows(getGlobalVariables())
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const rows = scope === "workflow" ? workflowRows : globalRows;
+  const setRows = scope === "workflow" ? setWorkflowRows : setGlobalRows;
+
+  const updateRow = (index: number, changes: Partial<VariableRow>) => {
+    setRows((prev) => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+    setError(null);
+  };
+
+  const handleSave = () => {
+    const problem =
+      validateRows(workflowRows, "Workflow") ?? validateRows(globalRows, "Global");
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    setVariables(toVariables(workflowRows));
+    saveGlobalVariables(toVariables(globalRows));
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-xl w-[32rem] max-h-[80vh] flex flex-col">
+        <h3 className="text-lg font-semibold mb-1 text-gray-900 dark:text-white">
+          Variables
+        </h3>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+          Use <code className="font-mono">{"{{$vars.name}}"}</code> in templated fields and{" "}
+          <code className="font-mono">vars.name</code> in JavaScript. Workflow variables
+          override global ones with the same name.
+        </p>
+
+        <div className="flex gap-2 mb-4">
+          {(["workflow", "global"] as const).map((option) => (
+            <Button
+              key={option}
+              onClick={() => setScope(option)}
+              variant={scope === option ? "default" : "outline"}
+              size="sm"
+              className="flex-1"
+            >
+              {option === "workflow" ? "This workflow" : "Global"}
+            </Button>
+          ))}
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-2">
+          {rows.length === 0 && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              No {scope} variables yet.
+            </p>
+          )}
+          {rows.map((row, index) => (
+            <div key={index} className="flex gap-2">
+              <input
+                type="text"
+                value={row.key}
+                onChange={(e) => updateRow(index, { key: e.target.value })}
+                placeholder="name"
+                className="w-1/3 px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-md bg-white dark:bg-gray-900 text-gray-900 dark:text-white font-mono text-sm"
+              />
+              <input
+                type="text"
+                value={row.value}
+                onChange={(e) => updateRow(index, { value: e.target.value })}
+                placeholder="value"
+                className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-md bg-white dark:bg-gray-900 text-gray-900 dark:text-white text-sm"
+              />
+              <button
+                onClick={() => setRows((prev) => prev.filter((_, i) => i !== index))}
+                className="text-red-500 hover:text-red-700 p-1"
+                title="Remove variable"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <Button
+          onClick={() => setRows((prev) => [...prev, { key: "", value: "" }])}
+          variant="outline"
+          size="sm"
+          className="mt-3"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add variable
+        </Button>
+
+        {error && <div className="mt-3 text-xs text-red-600 dark:text-red-400">{error}</div>}
+
+        <div className="flex gap-2 mt-4">
+          <Button onClick={handleSave} className="flex-1">
+            Save
+          </Button>
+          <Button onClick={onClose} variant="outline">
+            Cancel
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -5,9 +5,21 @@ import React, { memo } from "react";
 import { Handle, Position, NodeProps } from "reactflow";
 import { nodeDefinitions } from "@/lib/node-definitions";
 import { WorkflowNode } from "@/lib/types";
-import { Settings, CheckCircle, AlertCircle, Loader2, X } from "lucide-react";
+import {
+  Settings,
+  CheckCircle,
+  AlertCircle,
+  AlertTriangle,
+  Loader2,
+  Pin,
+  X,
+} from "lucide-react";
 import { useWorkflowStore } from "@/lib/store";
-import { getNodeOutputHandles } from "@/lib/node-helpers";
+import {
+  ERROR_OUTPUT_HANDLE,
+  getNodeInputHandles,
+  getNodeOutputHandles,
+} from "@/lib/node-helpers";
 
 function CustomNode({ data, id, selected }: NodeProps<WorkflowNode["data"]>) {
   const definition = nodeDefinitions[data.type];
@@ -17,6 +29,9 @@ function CustomNode({ data, id, selected }: NodeProps<WorkflowNode["data"]>) {
 
   const Icon = definition.icon;
   const showInput = definition.category !== "trigger";
+  const isPinned = data.pinnedData !== undefined;
+  const validationIssues = data.validationIssues ?? [];
+  const hasValidationError = validationIssues.some((issue) => issue.severity === "error");
 
   const handleDelete = (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -25,7 +40,8 @@ function CustomNode({ data, id, selected }: NodeProps<WorkflowNode["data"]>) {
     }
   };
 
-  const outputHandles = getNodeOutputHandles(data.type, data.config);
+  const inputHandles = getNodeInputHandles(data.type, data.config);
+  const outputHandles = getNodeOutputHandles(data.type, data.config, data.settings);
 
   return (
     <div
@@ -33,19 +49,57 @@ function CustomNode({ data, id, selected }: NodeProps<WorkflowNode["data"]>) {
         relative bg-white dark:bg-gray-800 rounded-lg shadow-lg border-2 transition-all
         ${selected ? "border-blue-500" : "border-gray-200 dark:border-gray-700"}
         ${data.isExecuting ? "ring-2 ring-blue-400" : ""}
+        ${data.isPaused ? "ring-4 ring-yellow-400 animate-pulse" : ""}
         ${data.error ? "ring-2 ring-red-400" : ""}
+        ${isPinned && !data.isExecuting && !data.error ? "ring-2 ring-purple-400" : ""}
         min-w-[200px]
       `}
     >
-      {/* Input Handle */}
-      {showInput && (
-        <Handle
-          type="target"
-          position={Position.Left}
-          className="w-3! h-3! bg-blue-500! border-2! border-white!"
+      {/* Input Handles */}
+      {showInput &&
+        (inputHandles ? (
+          <div className="absolute inset-y-0 left-0 flex flex-col justify-center gap-2 pl-1">
+            {inputHandles.map((handle) => (
+              <div key={handle.id} className="relative flex items-center">
+                <Handle
+                  id={handle.id}
+                  type="target"
+                  position={Position.Left}
+                  className="w-3! h-3! bg-blue-500! border-2! border-white!"
+                />
+                <span className="pointer-events-none ml-2 rounded bg-white/90 px-1 text-[10px] text-gray-600 dark:bg-gray-800/90 dark:text-gray-300">
+                  {handle.label}
+                </span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <Handle
+            type="target"
+            position={Position.Left}
+            className="w-3! h-3! bg-blue-500! border-2! border-white!"
+          />
+        ))}
+
+      {data.breakpoint && (
+        <span
+          className="absolute -top-1.5 -left-1.5 z-10 h-3 w-3 rounded-full bg-red-500 border-2 border-white dark:border-gray-800"
+          title="Breakpoint"
         />
       )}
 
+      {validationIssues.length > 0 && (
+        <span
+          className={`absolute -top-2 -right-2 z-10 flex items-center gap-0.5 rounded-full px-1.5 py-0.5 text-[10px] font-semibold text-white shadow ${
+            hasValidationError ? "bg-red-500" : "bg-amber-500"
+          }`}
+          title={validationIssues.map((issue) => issue.message).join("\n")}
+        >
+          <AlertTriangle className="h-3 w-3" />
+          {validationIssues.length}
+        </span>
+      )}
+
       {/* Node Header */}
       <div
         className={`${definition.color} p-3 rounded-t-lg flex items-center gap-2 relative`}
@@ -56,6 +110,11 @@ function CustomNode({ data, id, selected }: NodeProps<WorkflowNode["data"]>) {
         </span>
 
         <div className="flex items-center gap-1">
+          {isPinned && (
+            <span title="Pinned data: this node emits fixed output">
+              <Pin className="h-4 w-4 text-white" />
+            </span>
+          )}
           {data.isExecuting && (
             <Loader2 className="h-4 w-4 text-white animate-spin" />
           )}
@@ -90,6 +149,19 @@ function CustomNode({ data, id, selected }: NodeProps<WorkflowNode["data"]>) {
           </div>
         )}
 
+        {data.isPaused && (
+          <div className="mt-2 text-xs bg-yellow-50 dark:bg-yellow-900/20 text-yellow-700 dark:text-yellow-400 p-2 rounded border border-yellow-200 dark:border-yellow-800">
+            ⏸ Paused in debugger
+          </div>
+        )}
+
+        {isPinned && (
+          <div className="mt-2 text-xs bg-purple-50 dark:bg-purple-900/20 text-purple-600 dark:text-purple-400 p-2 rounded border border-purple-200 dark:border-purple-800 flex items-center gap-1">
+            <Pin className="h-3 w-3" />
+            Pinned data
+          </div>
+        )}
+
         {data.error && (
           <div className="mt-2 text-xs bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 p-2 rounded border border-red-200 dark:border-red-800">
             {data.error}
@@ -109,13 +181,24 @@ function CustomNode({ data, id, selected }: NodeProps<WorkflowNode["data"]>) {
           {outputHandles.map((handle) => (
             <div
               key={handle.id}
-              className="flex items-center justify-end"
+              className="relative flex items-center justify-end"
             >
+              <span
+                className={`pointer-events-none mr-2 rounded bg-white/90 px-1 text-[10px] dark:bg-gray-800/90 ${
+                  handle.id === ERROR_OUTPUT_HANDLE
+                    ? "text-red-600 dark:text-red-400"
+                    : "text-gray-600 dark:text-gray-300"
+                }`}
+              >
+                {handle.label}
+              </span>
               <Handle
                 id={handle.id}
                 type="source"
                 position={Position.Right}
-                className="w-3! h-3! bg-blue-500! border-2! border-white!"
+                className={`w-3! h-3! border-2! border-white! ${
+                  handle.id === ERROR_OUTPUT_HANDLE ? "bg-red-500!" : "bg-blue-500!"
+                }`}
               />
             </div>
           ))}
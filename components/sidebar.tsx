@@ -4,6 +4,7 @@ import React, { useEffect, useMemo, useState } from "react";
 import { nodeDefinitions, NodeDefinition } from "@/lib/node-definitions";
 import {
   Play,
+  Bug,
   Trash2,
   Save,
   FolderOpen,
@@ -14,22 +15,43 @@ import {
   Search,
   X,
   Clock,
+  Settings,
+  Square,
+  Braces,
+  KeyRound,
+  Power,
 } from "lucide-react";
 import { Button } from "@/components/ui/Button";
 import { useWorkflowStore } from "@/lib/store";
+import VariablesDialog from "@/components/VariablesDialog";
+import CredentialsDialog from "@/components/CredentialsDialog";
+import { DEFAULT_CONCURRENCY, normalizeConcurrency } from "@/lib/workflow-runner";
+import { activateWorkflow, deactivateWorkflow, fetchActiveWorkflows } from "@/lib/active-workflows";
+import { getGlobalVariables } from "@/lib/variables";
+import type { WorkflowDataMode } from "@/lib/types";
 
 interface SidebarProps {
   onExecute: () => void | Promise<void>;
+  onDebug: () => void | Promise<void>;
+  onStop: () => void;
   onShowHistory: () => void;
   isExecuting: boolean;
 }
 
-export default function Sidebar({ onExecute, onShowHistory, isExecuting }: SidebarProps) {
+export default function Sidebar({
+  onExecute,
+  onDebug,
+  onStop,
+  onShowHistory,
+  isExecuting,
+}: SidebarProps) {
   const {
     clearWorkflow,
     saveWorkflow,
     loadWorkflow,
-    getSavedWorkflows,
+    savedWorkflows,
+    currentWorkflow,
+    refreshSavedWorkflows,
     deleteSavedWorkflow,
     exportWorkflow,
     importWorkflow,
@@ -37,44 +59,105 @@ export default function Sidebar({ onExecute, onShowHistory, isExecuting }: Sideb
     redo,
     canUndo,
     canRedo,
+    settings,
+    updateSettings,
   } = useWorkflowStore();
 
-  const [savedWorkflows, setSavedWorkflows] = useState<any[]>([]);
   const [showSaveDialog, setShowSaveDialog] = useState(false);
   const [workflowName, setWorkflowName] = useState("");
   const [showLoadDialog, setShowLoadDialog] = useState(false);
+  const [activeWorkflowIds, setActiveWorkflowIds] = useState<Set<string>>(new Set());
+  const [showSettingsDialog, setShowSettingsDialog] = useState(false);
+  const [showVariablesDialog, setShowVariablesDialog] = useState(false);
+  const [showCredentialsDialog, setShowCredentialsDialog] = useState(false);
+  const [concurrencyDraft, setConcurrencyDraft] = useState("");
+  const [maxDurationDraft, setMaxDurationDraft] = useState("");
+  const [dataModeDraft, setDataModeDraft] = useState<WorkflowDataMode>("single");
 
   //search Node in sidebar.
   const [searchQuery, setSearchQuery] = useState("");
 
   useEffect(() => {
-    setSavedWorkflows(getSavedWorkflows());
-  }, [getSavedWorkflows]);
+    if (!showLoadDialog) return;
+    refreshSavedWorkflows().catch((error) =>
+      console.error("Failed to load saved workflows:", error)
+    );
+    fetchActiveWorkflows()
+      .then((workflows) => setActiveWorkflowIds(new Set(workflows.map((workflow) => workflow.id))))
+      .catch((error) => console.error("Failed to load active workflows:", error));
+  }, [refreshSavedWorkflows, showLoadDialog]);
 
-  const handleSave = () => {
+  const handleSave = async () => {
     if (workflowName.trim()) {
-      saveWorkflow(workflowName.trim());
-      setSavedWorkflows(getSavedWorkflows());
+      try {
+        await saveWorkflow(workflowName.trim());
+      } catch (error: unknown) {
+        alert(error instanceof Error ? error.message : "Failed to save the workflow");
+        return;
+      }
       setShowSaveDialog(false);
       setWorkflowName("");
       alert("Workflow saved successfully!");
     }
   };
 
-  const handleLoad = (id: string) => {
-    loadWorkflow(id);
-    setShowLoadDialog(false);
-    setSavedWorkflows(getSavedWorkflows());
+  const handleLoad = async (id: string) => {
+    try {
+      await loadWorkflow(id);
+      setShowLoadDialog(false);
+    } catch (error: unknown) {
+      alert(error instanceof Error ? error.message : "Failed to load the workflow");
+    }
   };
 
-  const handleDeleteSaved = (id: string, e: React.MouseEvent) => {
+  const handleDeleteSaved = async (id: string, e: React.MouseEvent) => {
     e.stopPropagation();
     if (window.confirm("Delete this saved workflow?")) {
-      deleteSavedWorkflow(id);
-      setSavedWorkflows(getSavedWorkflows());
+      try {
+        await deleteSavedWorkflow(id);
+      } catch (error: unknown) {
+        alert(error instanceof Error ? error.message : "Failed to delete the workflow");
+        return;
+      }
+      // The server deactivates deleted workflows
+      setActiveWorkflowIds((ids) => new Set([...ids].filter((activeId) => activeId !== id)));
+    }
+  };
+
+  // Activating snapshots the saved workflow on the server, which then
+  // serves its webhooks and fires its schedules
+  const handleToggleActive = async (id: string, e: React.MouseEvent) => {
+    e.stopPropagation();
+    try {
+      if (activeWorkflowIds.has(id)) {
+        await deactivateWorkflow(id);
+        setActiveWorkflowIds((ids) => new Set([...ids].filter((activeId) => activeId !== id)));
+      } else {
+        await activateWorkflow(id, getGlobalVariables());
+        setActiveWorkflowIds((ids) => new Set(ids).add(id));
+      }
+    } catch (error: unknown) {
+      alert(error instanceof Error ? error.message : "Failed to update the workflow");
     }
   };
 
+  const handleOpenSettings = () => {
+    setConcurrencyDraft(String(settings.concurrency ?? DEFAULT_CONCURRENCY));
+    setMaxDurationDraft(String(settings.maxDurationSeconds ?? 0));
+    setDataModeDraft(settings.dataMode ?? "single");
+    setShowSettingsDialog(true);
+  };
+
+  const handleSaveSettings = () => {
+    const maxDuration = parseInt(maxDurationDraft, 10);
+    updateSettings({
+      concurrency: normalizeConcurrency(concurrencyDraft),
+      maxDurationSeconds: Number.isFinite(maxDuration) && maxDuration > 0 ? maxDuration : 0,
+      dataMode: dataModeDraft,
+    });
+    setShowSettingsDialog(false);
+  };
+
   const handleExport = () => {
     const json = exportWorkflow();
     const blob = new Blob([json], { type: "application/json" });
@@ -97,7 +180,6 @@ export default function Sidebar({ onExecute, onShowHistory, isExecuting }: Sideb
         reader.onload = (event) => {
           try {
             importWorkflow(event.target?.result as string);
-            setSavedWorkflows(getSavedWorkflows());
             alert("Workflow imported successfully!");
           } catch (error: any) {
             alert(`Error importing workflow: ${error.message}`);
@@ -165,10 +247,26 @@ export default function Sidebar({ onExecute, onShowHistory, isExecuting }: Sideb
 
         <div className="space-y-2">
           <div className="flex gap-2">
-            <Button onClick={onExecute} disabled={isExecuting} className="flex-1">
-              <Play className="mr-2 h-4 w-4" />
-              {isExecuting ? "Running..." : "Execute"}
-            </Button>
+            {isExecuting ? (
+              <Button onClick={onStop} variant="destructive" className="flex-1">
+                <Square className="mr-2 h-4 w-4" />
+                Stop
+              </Button>
+            ) : (
+              <>
+                <Button onClick={onExecute} className="flex-1">
+                  <Play className="mr-2 h-4 w-4" />
+                  Execute
+                </Button>
+                <Button
+                  onClick={onDebug}
+                  variant="outline"
+                  title="Debug: pause before nodes with a breakpoint"
+                >
+                  <Bug className="h-4 w-4" />
+                </Button>
+              </>
+            )}
             <Button onClick={clearWorkflow} variant="outline" title="Clear workflow">
               <Trash2 className="h-4 w-4" />
             </Button>
@@ -199,7 +297,10 @@ export default function Sidebar({ onExecute, onShowHistory, isExecuting }: Sideb
 
           <div className="grid grid-cols-2 gap-2">
             <Button
-              onClick={() => setShowSaveDialog(true)}
+              onClick={() => {
+                setWorkflowName(currentWorkflow?.name ?? "");
+                setShowSaveDialog(true);
+              }}
               variant="outline"
               size="sm"
               title="Save workflow"
@@ -243,6 +344,33 @@ export default function Sidebar({ onExecute, onShowHistory, isExecuting }: Sideb
               <Clock className="h-4 w-4 mr-1" />
               History
             </Button>
+            <Button
+              onClick={handleOpenSettings}
+              variant="outline"
+              size="sm"
+              title="Workflow settings"
+            >
+              <Settings className="h-4 w-4 mr-1" />
+              Settings
+            </Button>
+            <Button
+              onClick={() => setShowVariablesDialog(true)}
+              variant="outline"
+              size="sm"
+              title="Workflow and global variables"
+            >
+              <Braces className="h-4 w-4 mr-1" />
+              Variables
+            </Button>
+            <Button
+              onClick={() => setShowCredentialsDialog(true)}
+              variant="outline"
+              size="sm"
+              title="Encrypted credentials for HTTP requests"
+            >
+              <KeyRound className="h-4 w-4 mr-1" />
+              Credentials
+            </Button>
           </div>
         </div>
       </div>
@@ -279,6 +407,11 @@ export default function Sidebar({ onExecute, onShowHistory, isExecuting }: Sideb
             <h3 className="text-lg font-semibold mb-4 text-gray-900 dark:text-white">
               Save Workflow
             </h3>
+            {currentWorkflow && (
+              <p className="text-xs text-gray-500 dark:text-gray-400 -mt-2 mb-3">
+                Updates &quot;{currentWorkflow.name}&quot;. Clear the canvas to save a new workflow.
+              </p>
+            )}
             <input
               type="text"
               value={workflowName}
@@ -309,6 +442,73 @@ export default function Sidebar({ onExecute, onShowHistory, isExecuting }: Sideb
         </div>
       )}
 
+      {showSettingsDialog && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-xl w-96">
+            <h3 className="text-lg font-semibold mb-4 text-gray-900 dark:text-white">
+              Workflow Settings
+            </h3>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Max parallel nodes
+            </label>
+            <input
+              type="number"
+              min={1}
+              value={concurrencyDraft}
+              onChange={(e) => setConcurrencyDraft(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-md bg-white dark:bg-gray-900 text-gray-900 dark:text-white"
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 mb-4">
+              Independent branches run concurrently up to this limit.
+            </p>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Max duration (seconds)
+            </label>
+            <input
+              type="number"
+              min={0}
+              value={maxDurationDraft}
+              onChange={(e) => setMaxDurationDraft(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-md bg-white dark:bg-gray-900 text-gray-900 dark:text-white"
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 mb-4">
+              Runs taking longer are cancelled. Use 0 for no limit.
+            </p>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Data mode
+            </label>
+            <select
+              value={dataModeDraft}
+              onChange={(e) => setDataModeDraft(e.target.value as WorkflowDataMode)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-md bg-white dark:bg-gray-900 text-gray-900 dark:text-white"
+            >
+              <option value="single">Single value</option>
+              <option value="items">Items</option>
+            </select>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 mb-4">
+              In item mode nodes pass lists of items and transforms, emails,
+              HTTP and AI nodes run once per item.
+            </p>
+            <div className="flex gap-2">
+              <Button onClick={handleSaveSettings} className="flex-1">
+                Save
+              </Button>
+              <Button onClick={() => setShowSettingsDialog(false)} variant="outline">
+                Cancel
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {showVariablesDialog && (
+        <VariablesDialog onClose={() => setShowVariablesDialog(false)} />
+      )}
+
+      {showCredentialsDialog && (
+        <CredentialsDialog onClose={() => setShowCredentialsDialog(false)} />
+      )}
+
       {showLoadDialog && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
           <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-xl w-96 max-h-96 overflow-y-auto">
@@ -321,7 +521,7 @@ export default function Sidebar({ onExecute, onShowHistory, isExecuting }: Sideb
               </p>
             ) : (
               <div className="space-y-2">
-                {savedWorkflows.map((workflow: any) => (
+                {savedWorkflows.map((workflow) => (
                   <div
                     key={workflow.id}
                     className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-900 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 cursor-pointer"
@@ -335,13 +535,30 @@ export default function Sidebar({ onExecute, onShowHistory, isExecuting }: Sideb
                         {new Date(workflow.timestamp).toLocaleString()}
                       </div>
                     </div>
-                    <button
-                      onClick={(e) => handleDeleteSaved(workflow.id, e)}
-                      className="text-red-500 hover:text-red-700 p-1"
-                      title="Delete"
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </button>
+                    <div className="flex items-center gap-1">
+                      <button
+                        onClick={(e) => handleToggleActive(workflow.id, e)}
+                        className={`p-1 ${
+                          activeWorkflowIds.has(workflow.id)
+                            ? "text-green-600 hover:text-green-800"
+                            : "text-gray-400 hover:text-gray-600"
+                        }`}
+                        title={
+                          activeWorkflowIds.has(workflow.id)
+                            ? "Active: triggers are served. Click to deactivate"
+                            : "Activate triggers"
+                        }
+                      >
+                        <Power className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={(e) => handleDeleteSaved(workflow.id, e)}
+                        className="text-red-500 hover:text-red-700 p-1"
+                        title="Delete"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
                   </div>
                 ))}
               </div>
@@ -0,0 +1,20 @@
+/**
+ * Runs once when the server starts: fails runs the last server left
+ * unfinished, resumes executions suspended by Delay nodes once their wait is
+ * over, fires the schedule triggers of active workflows and prunes old
+ * executions.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startWaitingExecutionScheduler } = await import("./lib/server/waiting-executions");
+    const { startScheduleTriggerScheduler } = await import("./lib/server/schedules");
+    const { startExecutionPruning } = await import("./lib/server/storage");
+    const { failInterruptedRuns } = await import("./lib/server/workflow-runs");
+    await failInterruptedRuns().catch((error) =>
+      console.error("Failed to recover interrupted executions:", error)
+    );
+    startWaitingExecutionScheduler();
+    startScheduleTriggerScheduler();
+    startExecutionPruning();
+  }
+}
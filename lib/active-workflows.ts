@@ -0,0 +1,93 @@
+import { WORKFLOWS_API } from "./saved-workflows";
+import type { SavedWorkflow, WorkflowNode, WorkflowVariables } from "./types";
+
+/**
+ * Active workflows are snapshots of saved workflows handed to the server,
+ * which runs them when one of their webhooks is called or one of their
+ * schedules is due.
+ */
+
+export interface ActiveWorkflow {
+  workflow: SavedWorkflow;
+  /** Saved workflows its Execute Workflow nodes run, at activation time. */
+  subWorkflows: SavedWorkflow[];
+  globalVariables?: WorkflowVariables;
+  activatedAt: number;
+}
+
+export interface ActiveWorkflowSummary {
+  id: string;
+  name: string;
+  activatedAt: number;
+  /** "METHOD /path" of every webhook trigger. */
+  webhooks: string[];
+  /** Summary of every schedule trigger, e.g. "every 5 minutes". */
+  schedules: string[];
+}
+
+export type ActivateWorkflowInput = Pick<ActiveWorkflow, "workflow" | "subWorkflows" | "globalVariables">;
+
+export const ACTIVE_WORKFLOWS_API = "/api/active-workflows";
+
+/**
+ * Saved workflows run by `workflow`'s Execute Workflow nodes, and by theirs.
+ */
+export const collectSubWorkflows = (
+  workflow: { id?: string; nodes: WorkflowNode[] },
+  savedWorkflows: SavedWorkflow[]
+): SavedWorkflow[] => {
+  const collected = new Map<string, SavedWorkflow>();
+  const pending: { nodes: WorkflowNode[] }[] = [workflow];
+
+  while (pending.length > 0) {
+    pending
+      .pop()!
+      .nodes.filter((node) => node.data.type === "executeWorkflow")
+      .forEach((node) => {
+        const id = String(node.data.config?.workflowId ?? "");
+        const subWorkflow = savedWorkflows.find((candidate) => candidate.id === id);
+        if (subWorkflow && subWorkflow.id !== workflow.id && !collected.has(id)) {
+          collected.set(id, subWorkflow);
+          pending.push(subWorkflow);
+        }
+      });
+  }
+
+  return [...collected.values()];
+};
+
+export async function fetchActiveWorkflows(): Promise<ActiveWorkflowSummary[]> {
+  const response = await fetch(ACTIVE_WORKFLOWS_API);
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || "Failed to load active workflows");
+  }
+  return result.workflows as ActiveWorkflowSummary[];
+}
+
+/** Activates a saved workflow as it is currently stored. */
+export async function activateWorkflow(
+  id: string,
+  globalVariables?: WorkflowVariables
+): Promise<ActiveWorkflowSummary> {
+  const response = await fetch(`${WORKFLOWS_API}/${encodeURIComponent(id)}/activate`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ globalVariables }),
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || "Failed to activate the workflow");
+  }
+  return result.workflow as ActiveWorkflowSummary;
+}
+
+export async function deactivateWorkflow(id: string): Promise<void> {
+  const response = await fetch(`${WORKFLOWS_API}/${encodeURIComponent(id)}/deactivate`, {
+    method: "POST",
+  });
+  if (!response.ok) {
+    const result = await response.json();
+    throw new Error(result.error || "Failed to deactivate the workflow");
+  }
+}
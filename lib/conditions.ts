@@ -0,0 +1,344 @@
+import type {
+  ConditionCombinator,
+  ConditionRule,
+  ConditionValueType,
+} from "./types";
+import {
+  isRecord,
+  replaceTemplateVariables,
+  resolveContextPath,
+  stringifyValue,
+  type TemplateContext,
+} from "./templates";
+
+export interface ConditionOperator {
+  value: string;
+  label: string;
+  /** Number of right-hand values the operator compares against. */
+  operands: 0 | 1 | 2;
+}
+
+export const conditionValueTypes: { value: ConditionValueType; label: string }[] = [
+  { value: "string", label: "String" },
+  { value: "number", label: "Number" },
+  { value: "boolean", label: "Boolean" },
+  { value: "date", label: "Date" },
+  { value: "array", label: "Array" },
+];
+
+export const conditionOperators: Record<ConditionValueType, ConditionOperator[]> = {
+  string: [
+    { value: "equals", label: "is equal to", operands: 1 },
+    { value: "notEquals", label: "is not equal to", operands: 1 },
+    { value: "contains", label: "contains", operands: 1 },
+    { value: "notContains", label: "does not contain", operands: 1 },
+    { value: "startsWith", label: "starts with", operands: 1 },
+    { value: "endsWith", label: "ends with", operands: 1 },
+    { value: "regex", label: "matches regex", operands: 1 },
+    { value: "isEmpty", label: "is empty", operands: 0 },
+    { value: "isNotEmpty", label: "is not empty", operands: 0 },
+  ],
+  number: [
+    { value: "equals", label: "=", operands: 1 },
+    { value: "notEquals", label: "≠", operands: 1 },
+    { value: "gt", label: ">", operands: 1 },
+    { value: "gte", label: "≥", operands: 1 },
+    { value: "lt", label: "<", operands: 1 },
+    { value: "lte", label: "≤", operands: 1 },
+    { value: "between", label: "is between", operands: 2 },
+  ],
+  boolean: [
+    { value: "isTrue", label: "is true", operands: 0 },
+    { value: "isFalse", label: "is false", operands: 0 },
+  ],
+  date: [
+    { value: "before", label: "is before", operands: 1 },
+    { value: "after", label: "is after", operands: 1 },
+    { value: "between", label: "is between", operands: 2 },
+  ],
+  array: [
+    { value: "contains", label: "contains", operands: 1 },
+    { value: "notContains", label: "does not contain", operands: 1 },
+    { value: "lengthEquals", label: "length =", operands: 1 },
+    { value: "lengthGt", label: "length >", operands: 1 },
+    { value: "lengthLt", label: "length <", operands: 1 },
+    { value: "isEmpty", label: "is empty", operands: 0 },
+    { value: "isNotEmpty", label: "is not empty", operands: 0 },
+  ],
+};
+
+export const getConditionOperator = (
+  type: ConditionValueType,
+  operator: string
+): ConditionOperator | undefined =>
+  conditionOperators[type]?.find((candidate) => candidate.value === operator);
+
+export const createConditionRule = (): ConditionRule => ({
+  id: `rule_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+  left: "input.",
+  type: "string",
+  operator: "equals",
+  right: "",
+});
+
+/**
+ * Rules are stored in the node config as a JSON string, like other
+ * structured config values.
+ */
+export const parseConditionRules = (config?: Record<string, unknown>): ConditionRule[] => {
+  const raw = config?.rules;
+  let parsed: unknown = raw;
+  if (typeof raw === "string") {
+    try {
+      parsed = raw.trim() ? JSON.parse(raw) : [];
+    } catch {
+      return [];
+    }
+  }
+  return Array.isArray(parsed)
+    ? parsed.filter((rule): rule is ConditionRule => isRecord(rule) && typeof rule.left === "string")
+    : [];
+};
+
+export const getConditionCombinator = (config?: Record<string, unknown>): ConditionCombinator =>
+  config?.combinator === "or" ? "or" : "and";
+
+/** Reads `/pattern/flags` or a bare pattern. */
+export const parseRegex = (value: string): RegExp => {
+  const literal = /^\/([\s\S]+)\/([dgimsuy]*)$/.exec(value);
+  return literal ? new RegExp(literal[1], literal[2]) : new RegExp(value);
+};
+
+/**
+ * Returns a description of the first problem with a rule, or null.
+ */
+export const getConditionRuleProblem = (rule: ConditionRule): string | null => {
+  if (!rule.left?.trim()) {
+    return "has no value to compare";
+  }
+  const operator = getConditionOperator(rule.type, rule.operator);
+  if (!operator) {
+    return `uses unknown ${rule.type} operator "${rule.operator}"`;
+  }
+  if (rule.operator === "regex") {
+    try {
+      parseRegex(rule.right ?? "");
+    } catch {
+      return `has an invalid regular expression "${rule.right}"`;
+    }
+  }
+  return null;
+};
+
+export const describeConditionRule = (rule: ConditionRule): string => {
+  const operator = getConditionOperator(rule.type, rule.operator);
+  const parts = [rule.left.trim(), operator?.label ?? rule.operator];
+  if (operator?.operands === 1) parts.push(JSON.stringify(rule.right ?? ""));
+  if (operator?.operands === 2) {
+    parts.push(`${JSON.stringify(rule.right ?? "")} and ${JSON.stringify(rule.rightTo ?? "")}`);
+  }
+  return parts.join(" ");
+};
+
+class ConditionValueError extends Error {}
+
+const toText = (value: unknown): string =>
+  value === undefined || value === null ? "" : typeof value === "string" ? value : stringifyValue(value);
+
+const toNumber = (value: unknown, side: string): number => {
+  const number = typeof value === "number" ? value : Number(toText(value).trim() || NaN);
+  if (Number.isNaN(number)) {
+    throw new ConditionValueError(`${side} value ${JSON.stringify(toText(value))} is not a number`);
+  }
+  return number;
+};
+
+const toTimestamp = (value: unknown, side: string): number => {
+  const timestamp =
+    typeof value === "number" ? value : new Date(toText(value)).getTime();
+  if (Number.isNaN(timestamp)) {
+    throw new ConditionValueError(`${side} value ${JSON.stringify(toText(value))} is not a date`);
+  }
+  return timestamp;
+};
+
+const toBoolean = (value: unknown): boolean => {
+  if (typeof value === "string") {
+    return !["", "false", "0", "no", "off"].includes(value.trim().toLowerCase());
+  }
+  return Boolean(value);
+};
+
+const toList = (value: unknown): unknown[] => {
+  if (Array.isArray(value)) {
+    return value;
+  }
+  if (typeof value === "string") {
+    try {
+      const parsed = JSON.parse(value);
+      if (Array.isArray(parsed)) return parsed;
+    } catch {
+      // fall through to the error below
+    }
+  }
+  if (value === undefined || value === null) {
+    return [];
+  }
+  throw new ConditionValueError(`Value ${JSON.stringify(toText(value))} is not an array`);
+};
+
+const compare = (
+  rule: ConditionRule,
+  left: unknown,
+  right: string,
+  rightTo: string
+): boolean => {
+  switch (rule.type) {
+    case "string": {
+      const text = toText(left);
+      switch (rule.operator) {
+        case "equals":
+          return text === right;
+        case "notEquals":
+          return text !== right;
+        case "contains":
+          return text.includes(right);
+        case "notContains":
+          return !text.includes(right);
+        case "startsWith":
+          return text.startsWith(right);
+        case "endsWith":
+          return text.endsWith(right);
+        case "regex":
+          return parseRegex(right).test(text);
+        case "isEmpty":
+          return text.trim() === "";
+        case "isNotEmpty":
+          return text.trim() !== "";
+      }
+      break;
+    }
+
+    case "number": {
+      const value = toNumber(left, "Left");
+      switch (rule.operator) {
+        case "equals":
+          return value === toNumber(right, "Right");
+        case "notEquals":
+          return value !== toNumber(right, "Right");
+        case "gt":
+          return value > toNumber(right, "Right");
+        case "gte":
+          return value >= toNumber(right, "Right");
+        case "lt":
+          return value < toNumber(right, "Right");
+        case "lte":
+          return value <= toNumber(right, "Right");
+        case "between":
+          return value >= toNumber(right, "From") && value <= toNumber(rightTo, "To");
+      }
+      break;
+    }
+
+    case "boolean":
+      if (rule.operator === "isTrue") return toBoolean(left);
+      if (rule.operator === "isFalse") return !toBoolean(left);
+      break;
+
+    case "date": {
+      const value = toTimestamp(left, "Left");
+      switch (rule.operator) {
+        case "before":
+          return value < toTimestamp(right, "Right");
+        case "after":
+          return value > toTimestamp(right, "Right");
+        case "between":
+          return value >= toTimestamp(right, "From") && value <= toTimestamp(rightTo, "To");
+      }
+      break;
+    }
+
+    case "array": {
+      const list = toList(left);
+      switch (rule.operator) {
+        case "contains":
+          return list.some((entry) => toText(entry) === right);
+        case "notContains":
+          return !list.some((entry) => toText(entry) === right);
+        case "lengthEquals":
+          return list.length === toNumber(right, "Right");
+        case "lengthGt":
+          return list.length > toNumber(right, "Right");
+        case "lengthLt":
+          return list.length < toNumber(right, "Right");
+        case "isEmpty":
+          return list.length === 0;
+        case "isNotEmpty":
+          return list.length > 0;
+      }
+      break;
+    }
+  }
+
+  throw new Error(`Unknown ${rule.type} operator "${rule.operator}"`);
+};
+
+export interface ConditionRuleResult {
+  index: number;
+  rule: string;
+  matched: boolean;
+  /** Why the rule couldn't match, e.g. a value that isn't a number. */
+  reason?: string;
+}
+
+export interface ConditionEvaluation {
+  result: boolean;
+  rules: ConditionRuleResult[];
+}
+
+/**
+ * Evaluates every rule (no short-circuit, so the output can report each
+ * one) and combines them with AND or OR. Values that don't fit a rule's
+ * type make that rule not match; invalid rules throw.
+ */
+export const evaluateConditionRules = (
+  rules: ConditionRule[],
+  combinator: ConditionCombinator,
+  context: TemplateContext
+): ConditionEvaluation => {
+  if (rules.length === 0) {
+    throw new Error("Add at least one condition rule");
+  }
+
+  const results = rules.map((rule, index): ConditionRuleResult => {
+    const problem = getConditionRuleProblem(rule);
+    if (problem) {
+      throw new Error(`Rule ${index + 1} ${problem}`);
+    }
+
+    const description = describeConditionRule(rule);
+    try {
+      const left = resolveContextPath(rule.left, context);
+      const matched = compare(
+        rule,
+        left,
+        replaceTemplateVariables(rule.right ?? "", context),
+        replaceTemplateVariables(rule.rightTo ?? "", context)
+      );
+      return { index, rule: description, matched };
+    } catch (error) {
+      if (error instanceof ConditionValueError) {
+        return { index, rule: description, matched: false, reason: error.message };
+      }
+      throw error;
+    }
+  });
+
+  return {
+    result:
+      combinator === "or"
+        ? results.some((result) => result.matched)
+        : results.every((result) => result.matched),
+    rules: results,
+  };
+};
@@ -0,0 +1,131 @@
+/**
+ * Credential types and metadata shared by the browser and the server.
+ * Secrets themselves only ever live on the server (see lib/server/credentials).
+ */
+
+export type CredentialType = "bearer" | "basic" | "apiKeyHeader" | "oauth2ClientCredentials";
+
+export type CredentialData = Record<string, string>;
+
+/** A stored credential without its secret values. */
+export interface CredentialSummary {
+  id: string;
+  name: string;
+  type: CredentialType;
+  /**
+   * Base URLs the credential may be sent to, e.g. `https://api.example.com/v1`.
+   * Requests to any other URL are refused.
+   */
+  allowedUrls: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CredentialInput {
+  name: string;
+  type: CredentialType;
+  allowedUrls: string[];
+  data: CredentialData;
+}
+
+export interface CredentialField {
+  name: string;
+  label: string;
+  placeholder?: string;
+  /** Secret fields are never sent back to the browser. */
+  secret?: boolean;
+  required?: boolean;
+}
+
+export interface CredentialTypeDefinition {
+  type: CredentialType;
+  label: string;
+  fields: CredentialField[];
+}
+
+export const credentialTypes: Record<CredentialType, CredentialTypeDefinition> = {
+  bearer: {
+    type: "bearer",
+    label: "Bearer Token",
+    fields: [{ name: "token", label: "Token", secret: true, required: true }],
+  },
+  basic: {
+    type: "basic",
+    label: "Basic Auth",
+    fields: [
+      { name: "username", label: "Username", required: true },
+      { name: "password", label: "Password", secret: true, required: true },
+    ],
+  },
+  apiKeyHeader: {
+    type: "apiKeyHeader",
+    label: "API Key Header",
+    fields: [
+      { name: "headerName", label: "Header Name", placeholder: "X-API-Key", required: true },
+      { name: "value", label: "API Key", secret: true, required: true },
+    ],
+  },
+  oauth2ClientCredentials: {
+    type: "oauth2ClientCredentials",
+    label: "OAuth2 Client Credentials",
+    fields: [
+      {
+        name: "tokenUrl",
+        label: "Token URL",
+        placeholder: "https://auth.example.com/oauth/token",
+        required: true,
+      },
+      { name: "clientId", label: "Client ID", required: true },
+      { name: "clientSecret", label: "Client Secret", secret: true, required: true },
+      { name: "scope", label: "Scope", placeholder: "read write" },
+    ],
+  },
+};
+
+/**
+ * Normalizes an allowed base URL to its origin and path, without a trailing
+ * slash. Returns null if it isn't an http(s) URL.
+ */
+export const normalizeAllowedUrl = (value: string): string | null => {
+  try {
+    const url = new URL(value.trim());
+    if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+    return `${url.origin}${url.pathname.replace(/\/+$/, "")}`;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Whether `url` is on one of the allowed base URLs: same scheme, host and
+ * port, with the base path as a whole-segment prefix of its path.
+ */
+export const isUrlAllowed = (url: string, allowedUrls: string[]): boolean => {
+  let target: URL;
+  try {
+    target = new URL(url);
+  } catch {
+    return false;
+  }
+  return allowedUrls.some((allowed) => {
+    const base = normalizeAllowedUrl(allowed);
+    if (!base) return false;
+    const baseUrl = new URL(base);
+    const basePath = baseUrl.pathname.replace(/\/+$/, "");
+    return (
+      target.origin === baseUrl.origin &&
+      (target.pathname === basePath || target.pathname.startsWith(`${basePath}/`))
+    );
+  });
+};
+
+export const CREDENTIALS_API = "/api/credentials";
+
+export async function fetchCredentials(): Promise<CredentialSummary[]> {
+  const response = await fetch(CREDENTIALS_API);
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || "Failed to load credentials");
+  }
+  return result.credentials as CredentialSummary[];
+}
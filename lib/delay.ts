@@ -0,0 +1,206 @@
+import type { DelayMode, WorkflowDataMode } from "./types";
+import type { WaitingNode } from "./execution-history";
+import { replaceTemplateVariables, type TemplateContext } from "./templates";
+
+export const delayUnits: Record<string, number> = {
+  milliseconds: 1,
+  seconds: 1000,
+  minutes: 60_000,
+  hours: 3_600_000,
+  days: 86_400_000,
+};
+
+/**
+ * Waits up to this long block the run; longer ones suspend it so it can be
+ * resumed by the server.
+ */
+export const IN_PROCESS_WAIT_LIMIT_MS = 60_000;
+
+/** Longest timer `setTimeout` supports (about 24.8 days); longer ones fire at once. */
+export const MAX_BLOCKING_WAIT_MS = 2_147_483_647;
+
+export const getDelayMode = (config?: Record<string, unknown>): DelayMode =>
+  config?.mode === "until" || config?.mode === "webhook" ? config.mode : "duration";
+
+const WALL_CLOCK_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?$/;
+
+/**
+ * Offset of `timeZone` (the local zone when empty) from UTC at `timestamp`,
+ * in milliseconds: wall-clock time there is `timestamp + offset`.
+ */
+export const getTimeZoneOffset = (timestamp: number, timeZone?: string): number => {
+  if (!timeZone?.trim()) {
+    return -new Date(timestamp).getTimezoneOffset() * 60_000;
+  }
+  let parts: Record<string, string>;
+  try {
+    parts = Object.fromEntries(
+      new Intl.DateTimeFormat("en-US", {
+        timeZone: timeZone.trim(),
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        hour: "2-digit",
+        minute: "2-digit",
+        second: "2-digit",
+        hourCycle: "h23",
+      })
+        .formatToParts(new Date(timestamp))
+        .map((part) => [part.type, part.value])
+    );
+  } catch {
+    throw new Error(`Unknown time zone: ${timeZone}`);
+  }
+  const asUtc = Date.UTC(
+    Number(parts.year),
+    Number(parts.month) - 1,
+    Number(parts.day),
+    Number(parts.hour),
+    Number(parts.minute),
+    Number(parts.second)
+  );
+  return asUtc - timestamp;
+};
+
+/**
+ * Converts wall-clock time in `timeZone`, written as if it were UTC, to a
+ * timestamp. The zone's offset is corrected once for DST changes.
+ */
+export const wallClockToTimestamp = (wallClock: number, timeZone?: string): number => {
+  const guess = wallClock - getTimeZoneOffset(wallClock, timeZone);
+  return wallClock - getTimeZoneOffset(guess, timeZone);
+};
+
+/**
+ * Reads a date/time such as `2024-06-01 09:30` as wall-clock time in
+ * `timeZone` (the local zone when empty). Values with an explicit offset,
+ * like ISO timestamps ending in `Z`, are absolute and ignore the zone.
+ */
+export const parseZonedDateTime = (value: string, timeZone?: string): number => {
+  const text = value.trim();
+  const match = WALL_CLOCK_PATTERN.exec(text);
+
+  if (!match) {
+    const timestamp = Date.parse(text);
+    if (Number.isNaN(timestamp)) {
+      throw new Error(`Invalid date/time "${text}"`);
+    }
+    return timestamp;
+  }
+
+  const [, year, month, day, hour = "0", minute = "0", second = "0"] = match;
+  const fields = [year, month, day, hour, minute, second].map(Number);
+
+  if (!timeZone?.trim()) {
+    return new Date(fields[0], fields[1] - 1, fields[2], fields[3], fields[4], fields[5]).getTime();
+  }
+  return wallClockToTimestamp(
+    Date.UTC(fields[0], fields[1] - 1, fields[2], fields[3], fields[4], fields[5]),
+    timeZone
+  );
+};
+
+const hasTemplate = (value: string) => value.includes("{{");
+
+/**
+ * Returns a description of the first problem with a Delay node's config, or
+ * null. Values with templates are only checked when the node runs.
+ */
+export const getDelayConfigProblem = (config: Record<string, unknown> = {}): string | null => {
+  const mode = getDelayMode(config);
+  if (mode === "webhook") {
+    return null;
+  }
+
+  if (mode === "duration") {
+    const duration = String(config.duration ?? "").trim();
+    if (!duration) {
+      return "needs a duration";
+    }
+    return hasTemplate(duration) || Number(duration) >= 0
+      ? null
+      : `has an invalid duration "${duration}"`;
+  }
+
+  const until = String(config.until ?? "").trim();
+  const timeZone = String(config.timezone ?? "").trim();
+  if (!until) {
+    return "needs a date and time to wait until";
+  }
+  if (hasTemplate(until) || hasTemplate(timeZone)) {
+    return null;
+  }
+  try {
+    parseZonedDateTime(until, timeZone);
+  } catch (error) {
+    return `has an invalid wait time: ${error instanceof Error ? error.message : until}`;
+  }
+  return null;
+};
+
+export type DelayTarget = { mode: "webhook" } | { mode: "duration" | "until"; resumeAt: number };
+
+/**
+ * Works out when a Delay node's wait ends. Duration and date values may use
+ * templates.
+ */
+export const getDelayTarget = (
+  config: Record<string, unknown>,
+  context: TemplateContext,
+  now: number
+): DelayTarget => {
+  const mode = getDelayMode(config);
+
+  if (mode === "webhook") {
+    return { mode };
+  }
+
+  if (mode === "until") {
+    const until = replaceTemplateVariables(config.until ?? "", context);
+    if (!until.trim()) {
+      throw new Error("Set the date and time to wait until");
+    }
+    const timeZone = replaceTemplateVariables(config.timezone ?? "", context);
+    return { mode, resumeAt: Math.max(now, parseZonedDateTime(until, timeZone)) };
+  }
+
+  const duration = Number(replaceTemplateVariables(config.duration ?? "", context).trim());
+  if (!Number.isFinite(duration) || duration < 0) {
+    throw new Error(`Invalid delay duration "${String(config.duration ?? "")}"`);
+  }
+  const unit = typeof config.unit === "string" ? config.unit : "milliseconds";
+  const unitSize = delayUnits[unit];
+  if (!unitSize) {
+    throw new Error(`Unknown delay unit "${unit}"`);
+  }
+  return { mode, resumeAt: now + duration * unitSize };
+};
+
+export interface WebhookResumePayload {
+  body: unknown;
+  query: Record<string, string>;
+}
+
+/**
+ * Output of a Delay node that suspended the run, once it resumes. In item
+ * mode its items pass on unchanged, like after a short wait.
+ */
+export const getResumedDelayOutput = (
+  waiting: WaitingNode,
+  dataMode: WorkflowDataMode | undefined,
+  resumedAt: number,
+  webhook?: WebhookResumePayload
+): unknown => {
+  if (dataMode === "items") {
+    return waiting.input;
+  }
+  return {
+    ...(waiting.resumeAt !== undefined && {
+      waitedUntil: new Date(waiting.resumeAt).toISOString(),
+    }),
+    ...(webhook && { webhook }),
+    resumedAt: new Date(resumedAt).toISOString(),
+    input: waiting.input,
+  };
+};
@@ -1,27 +1,116 @@
-import type { JsonValue } from "./types";
+import type { JsonValue, NodeExecutionAttempt, NodeLogEntry, NodeWait } from "./types";
+
+/** A Delay node an execution is waiting on. */
+export interface WaitingNode extends NodeWait {
+  nodeId: string;
+  /** Input the node received, passed on once it resumes. */
+  input: unknown;
+}
+
+/** What a waiting execution needs to be resumed. */
+export interface ExecutionWait {
+  nodes: WaitingNode[];
+  /** Outputs of the nodes that already ran. */
+  nodeOutputs: Record<string, unknown>;
+}
+
+/** What started an execution that didn't come from the editor. */
+export interface ExecutionTrigger {
+  type: "webhook" | "schedule" | "api";
+  /** Trigger node that started the run; API runs may start every trigger. */
+  nodeId?: string;
+  /** When a scheduled run was due. */
+  scheduledAt?: number;
+  /** When the run actually started. */
+  firedAt: number;
+}
+
+export type ExecutionStatus = "success" | "error" | "running" | "cancelled" | "waiting";
+
+/** How an execution was started: from the editor or by one of the triggers. */
+export type ExecutionMode = "manual" | ExecutionTrigger["type"];
+
+export const executionStatuses: ExecutionStatus[] = [
+  "success",
+  "error",
+  "running",
+  "cancelled",
+  "waiting",
+];
+
+export const executionModes: ExecutionMode[] = ["manual", "webhook", "schedule", "api"];
 
 export interface ExecutionLog {
   id: string;
   timestamp: number;
   duration: number;
-  status: "success" | "error" | "running";
+  status: ExecutionStatus;
   nodesExecuted: number;
   totalNodes: number;
   results: ExecutionNodeResult[];
   errorMessage?: string;
+  workflowId?: string;
+  workflowName?: string;
+  /** Set on sub-workflow executions, pointing at the execution that ran them. */
+  parentExecutionId?: string;
+  /** Set while the execution is suspended by Delay nodes. */
+  wait?: ExecutionWait;
+  mode?: ExecutionMode;
+  trigger?: ExecutionTrigger;
 }
 
+/** Logs saved before modes were recorded were run from the editor. */
+export const getExecutionMode = (log: ExecutionLog): ExecutionMode =>
+  log.mode ?? log.trigger?.type ?? "manual";
+
+/** Filters for listing executions; `from` and `to` are timestamps. */
+export interface ExecutionQuery {
+  status?: ExecutionStatus;
+  workflowId?: string;
+  mode?: ExecutionMode;
+  from?: number;
+  to?: number;
+  /** `nextCursor` of the previous page. */
+  cursor?: string;
+  limit?: number;
+}
+
+export interface ExecutionPage {
+  executions: ExecutionLog[];
+  /** Pass as `cursor` to get the next page; null on the last page. */
+  nextCursor: string | null;
+}
+
+export const DEFAULT_EXECUTION_PAGE_SIZE = 20;
+export const MAX_EXECUTION_PAGE_SIZE = 100;
+
 export interface ExecutionNodeResult {
   nodeId: string;
   nodeName: string;
-  status: "success" | "error" | "skipped";
+  status: "success" | "error" | "skipped" | "cancelled" | "waiting";
   output?: JsonValue;
   error?: string;
   duration: number;
+  startedAt?: number;
+  finishedAt?: number;
+  attempts?: NodeExecutionAttempt[];
+  pinned?: boolean;
+  /** Number of items the node received and produced, in item mode. */
+  inputItems?: number;
+  outputItems?: number;
+  /** Execution of the sub-workflow run by an Execute Workflow node. */
+  subExecutionId?: string;
+  /** Console output captured from Data Transform code. */
+  logs?: NodeLogEntry[];
 }
 
-export const MAX_EXECUTION_HISTORY = 50;
+export const EXECUTIONS_API = "/api/executions";
+/**
+ * Where earlier versions kept the history, uploaded once to the server. Logs
+ * the server rejects are set aside under `REJECTED_HISTORY_KEY`.
+ */
 export const EXECUTION_HISTORY_KEY = "n8n-execution-history";
+const REJECTED_HISTORY_KEY = "n8n-execution-history-rejected";
 export const EXECUTION_HISTORY_UPDATED_EVENT = "n8n:execution-history-updated";
 
 function notifyHistoryUpdated() {
@@ -30,46 +119,152 @@ function notifyHistoryUpdated() {
   }
 }
 
-export function saveExecutionLog(log: ExecutionLog) {
-  try {
-    const history = getExecutionHistory();
-    history.unshift(log);
+/** The log without the secret tokens of its resume webhooks. */
+export const withoutWaitTokens = (log: ExecutionLog): ExecutionLog =>
+  log.wait
+    ? {
+        ...log,
+        wait: {
+          ...log.wait,
+          nodes: log.wait.nodes.map((node) => ({ ...node, webhookToken: undefined })),
+        },
+      }
+    : log;
+
+/**
+ * Waiting executions are resumed from the server's copy, so the history
+ * only keeps which nodes are waiting and not the outputs needed to resume.
+ */
+export const toStoredLog = (log: ExecutionLog): ExecutionLog => {
+  const stored = withoutWaitTokens(log);
+  return stored.wait ? { ...stored, wait: { ...stored.wait, nodeOutputs: {} } } : stored;
+};
 
-    if (history.length > MAX_EXECUTION_HISTORY) {
-      history.splice(MAX_EXECUTION_HISTORY);
+async function sendExecution(method: "POST" | "PUT", log: ExecutionLog) {
+  const response = await fetch(
+    method === "POST" ? EXECUTIONS_API : `${EXECUTIONS_API}/${encodeURIComponent(log.id)}`,
+    {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(toStoredLog(log)),
     }
+  );
+  if (!response.ok) {
+    const result = await response.json();
+    throw new Error(result.error || "Failed to save the execution");
+  }
+}
+
+let migration: Promise<void> | null = null;
 
-    localStorage.setItem(EXECUTION_HISTORY_KEY, JSON.stringify(history));
+async function migrateLocalHistory() {
+  const stored = typeof window === "undefined" ? null : localStorage.getItem(EXECUTION_HISTORY_KEY);
+  if (!stored) return;
+
+  // Oldest first, so the server keeps the newest if it has to drop some
+  const pending = (JSON.parse(stored) as ExecutionLog[]).reverse();
+  const rejected: ExecutionLog[] = [];
+  try {
+    while (pending.length > 0) {
+      const log = pending[0];
+      const response = await fetch(EXECUTIONS_API, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(toStoredLog(log)),
+      });
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        const message = result.error || `Failed to upload execution ${log.id}`;
+        // Server errors may go away; the log is tried again next time
+        if (response.status >= 500) {
+          throw new Error(message);
+        }
+        console.warn(`Execution ${log.id} couldn't be moved to the server: ${message}`);
+        rejected.push(log);
+      }
+      pending.shift();
+    }
+  } finally {
+    if (pending.length > 0) {
+      // Stored newest first, like before
+      localStorage.setItem(EXECUTION_HISTORY_KEY, JSON.stringify([...pending].reverse()));
+    } else {
+      localStorage.removeItem(EXECUTION_HISTORY_KEY);
+    }
+    if (rejected.length > 0) {
+      const previous = JSON.parse(localStorage.getItem(REJECTED_HISTORY_KEY) ?? "[]");
+      localStorage.setItem(REJECTED_HISTORY_KEY, JSON.stringify([...previous, ...rejected]));
+    }
+  }
+}
+
+const migrateOnce = () => {
+  migration ??= migrateLocalHistory().catch((error) => {
+    migration = null;
+    console.error("Failed to move execution history to the server:", error);
+  });
+  return migration;
+};
+
+export async function saveExecutionLog(log: ExecutionLog) {
+  try {
+    await sendExecution("POST", log);
     notifyHistoryUpdated();
   } catch (error) {
     console.error("Failed to save execution log:", error);
   }
 }
 
-export function getExecutionHistory(): ExecutionLog[] {
+/** Lists executions newest first, one page at a time. */
+export async function fetchExecutions(query: ExecutionQuery = {}): Promise<ExecutionPage> {
+  await migrateOnce();
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined && value !== "") {
+      params.set(key, String(value));
+    }
+  });
+
+  const response = await fetch(`${EXECUTIONS_API}?${params}`);
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || "Failed to load execution history");
+  }
+  return result as ExecutionPage;
+}
+
+/** Replaces a stored log, e.g. once a waiting execution was resumed. */
+export async function updateExecutionLog(log: ExecutionLog) {
   try {
-    const stored = localStorage.getItem(EXECUTION_HISTORY_KEY);
-    return stored ? (JSON.parse(stored) as ExecutionLog[]) : [];
+    await sendExecution("PUT", log);
+    notifyHistoryUpdated();
   } catch (error) {
-    console.error("Failed to load execution history:", error);
-    return [];
+    console.error("Failed to update execution log:", error);
   }
 }
 
-export function clearExecutionHistory() {
+export async function clearExecutionHistory() {
   try {
-    localStorage.removeItem(EXECUTION_HISTORY_KEY);
+    const response = await fetch(EXECUTIONS_API, { method: "DELETE" });
+    if (!response.ok) {
+      const result = await response.json();
+      throw new Error(result.error || "Failed to clear execution history");
+    }
     notifyHistoryUpdated();
   } catch (error) {
     console.error("Failed to clear execution history:", error);
   }
 }
 
-export function deleteExecutionLog(id: string) {
+export async function deleteExecutionLog(id: string) {
   try {
-    const history = getExecutionHistory();
-    const filtered = history.filter((log) => log.id !== id);
-    localStorage.setItem(EXECUTION_HISTORY_KEY, JSON.stringify(filtered));
+    const response = await fetch(`${EXECUTIONS_API}/${encodeURIComponent(id)}`, {
+      method: "DELETE",
+    });
+    if (!response.ok) {
+      const result = await response.json();
+      throw new Error(result.error || "Failed to delete execution log");
+    }
     notifyHistoryUpdated();
   } catch (error) {
     console.error("Failed to delete execution log:", error);
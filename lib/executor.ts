@@ -1,103 +1,172 @@
-import { NodeExecutionContext, NodeExecutionResult } from "./types";
+import {
+  NodeExecutionAttempt,
+  NodeExecutionContext,
+  NodeExecutionResult,
+  NodeLogEntry,
+  NodeSettings,
+  NodeType,
+  WorkflowItem,
+} from "./types";
 import { nodeDefinitions } from "./node-definitions";
-import { parseSwitchCases } from "./node-helpers";
+import { getBatchSize, getOutputBranches, splitIntoBatches } from "./node-helpers";
+import { getSwitchCaseLabel, getSwitchOutputMode, matchSwitchCase, parseSwitchCases } from "./switch-cases";
+import { countItems, pairWithInput, toItems } from "./items";
+import {
+  getDelayTarget,
+  IN_PROCESS_WAIT_LIMIT_MS,
+  MAX_BLOCKING_WAIT_MS,
+  type DelayTarget,
+} from "./delay";
+import { createWaitToken, WAITING_EXECUTIONS_API } from "./waiting-executions";
+import {
+  evaluateConditionRules,
+  getConditionCombinator,
+  parseConditionRules,
+} from "./conditions";
+import {
+  evaluateTemplateExpression,
+  isRecord,
+  replaceTemplateVariables,
+  resolveContextPath,
+  resolvePath,
+  stringifyValue,
+  type TemplateContext,
+} from "./templates";
+
+const toArray = (value: unknown): unknown[] =>
+  Array.isArray(value) ? value : [value];
 
-interface TemplateContext {
-  input: unknown;
-  previousNodes: Record<string, unknown>;
-}
-
-const isRecord = (value: unknown): value is Record<string, unknown> =>
-  typeof value === "object" && value !== null;
-
-const stringifyValue = (value: unknown): string =>
-  isRecord(value) ? JSON.stringify(value) : String(value);
+const getErrorMessage = (error: unknown, fallback: string): string =>
+  error instanceof Error ? error.message : fallback;
 
-const accessValue = (target: unknown, key: string): unknown => {
-  if (Array.isArray(target)) {
-    const index = Number(key);
-    if (Number.isInteger(index)) {
-      return target[index];
-    }
-    return undefined;
+/**
+ * Error carrying the HTTP status of the failed upstream call.
+ */
+export class ExecutionError extends Error {
+  constructor(message: string, public readonly statusCode?: number) {
+    super(message);
+    this.name = "ExecutionError";
   }
+}
 
-  if (isRecord(target)) {
-    return target[key];
-  }
+const MAX_RETRY_DELAY = 60000;
+const TRANSIENT_ERROR_PATTERN = /network|fetch failed|failed to fetch|timed? ?out|ECONNRESET|ETIMEDOUT|ECONNREFUSED|socket hang up/i;
 
-  return undefined;
+const parsePositiveInt = (value: unknown, fallback: number): number => {
+  const parsed = parseInt(String(value ?? ""), 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
 };
 
-const resolvePath = (source: unknown, path: string): unknown => {
-  if (!path) {
-    return source;
-  }
+const isRetryable = (result: NodeExecutionResult, settings: NodeSettings): boolean => {
+  const { statusCode } = result;
 
-  const sanitized = path
-    .replace(/\[(\w+)\]/g, ".$1")
-    .replace(/^\./, "");
+  switch (settings.retryOn ?? "transient") {
+    case "all":
+      return true;
 
-  const segments = sanitized.split(".").filter(Boolean);
+    case "rateLimit":
+      return statusCode === 429;
 
-  return segments.reduce<unknown>((acc, segment) => {
-    if (acc === undefined || acc === null) {
-      return undefined;
-    }
-    return accessValue(acc, segment);
-  }, source);
+    default:
+      if (statusCode !== undefined) {
+        return statusCode === 408 || statusCode === 429 || statusCode >= 500;
+      }
+      return TRANSIENT_ERROR_PATTERN.test(result.error ?? "");
+  }
 };
 
-const getErrorMessage = (error: unknown, fallback: string): string =>
-  error instanceof Error ? error.message : fallback;
-
-function replaceTemplateVariables(rawText: unknown, context: TemplateContext): string {
-  if (typeof rawText !== "string") {
-    return String(rawText ?? "");
+const getRetryDelay = (attempt: number, settings: NodeSettings): number => {
+  const baseDelay = parseInt(String(settings.retryDelay ?? "1000"), 10);
+  const base = Number.isFinite(baseDelay) && baseDelay >= 0 ? baseDelay : 1000;
+  const exponential = Math.min(base * 2 ** (attempt - 1), MAX_RETRY_DELAY);
+
+  switch (settings.backoff ?? "exponential") {
+    case "fixed":
+      return Math.min(base, MAX_RETRY_DELAY);
+    case "jitter":
+      return Math.round(Math.random() * exponential);
+    default:
+      return exponential;
   }
+};
 
-  const text = rawText;
-  const { input, previousNodes } = context;
-
-  return text.replace(/\{\{([^}]+)\}\}/g, (match, rawPath) => {
-    const trimmedPath = rawPath.trim();
-    if (!trimmedPath) {
-      return match;
-    }
-
-    if (trimmedPath === "input") {
-      return stringifyValue(input);
-    }
-
-    if (trimmedPath.startsWith("input.")) {
-      const value = resolvePath(input, trimmedPath.slice(6));
-      return value !== undefined && value !== null ? stringifyValue(value) : match;
-    }
+/** Nodes that run once for every input item in item mode. */
+const PER_ITEM_NODE_TYPES = new Set<NodeType>([
+  "aiTextGenerator",
+  "aiAnalyzer",
+  "aiChatbot",
+  "aiDataExtractor",
+  "httpRequest",
+  "dataTransform",
+  "sendEmail",
+]);
+
+/** Nodes that send each input item down the branch it matched in item mode. */
+const ROUTING_NODE_TYPES = new Set<NodeType>(["ifElse", "switch"]);
+
+const CANCELLED_RESULT: NodeExecutionResult = {
+  success: false,
+  error: "Execution cancelled",
+  cancelled: true,
+};
 
-    const [nodeId, ...rest] = trimmedPath.split(".");
-    if (nodeId) {
-      const nodeOutput = previousNodes[nodeId];
-      if (nodeOutput !== undefined) {
-        if (rest.length === 0) {
-          return stringifyValue(nodeOutput);
-        }
-        const value = resolvePath(nodeOutput, rest.join("."));
-        return value !== undefined && value !== null ? stringifyValue(value) : match;
-      }
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
     }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
 
-    return match;
+/**
+ * Rejects as soon as `signal` aborts, even if the wrapped work (e.g. a
+ * synchronous transform or a non-abortable call) keeps going.
+ */
+const abortable = <T>(promise: Promise<T>, signal: AbortSignal): Promise<T> => {
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
   });
+};
+
+export interface WorkflowExecutorOptions {
+  /**
+   * Origin the app's API routes are called on. Empty in the browser, where
+   * they are same-origin; required when running on the server.
+   */
+  baseUrl?: string;
 }
 
+/** Per-item results of a node's earlier attempts, by item index. */
+type CompletedItems = Map<number, NodeExecutionResult>;
+
 export class WorkflowExecutor {
+  constructor(private readonly options: WorkflowExecutorOptions = {}) {}
+
+  private apiUrl(path: string): string {
+    return `${this.options.baseUrl ?? ""}${path}`;
+  }
+
   private async executeAINode(
     type: string,
     config: Record<string, unknown>,
     context: NodeExecutionContext
   ): Promise<unknown> {
     try {
-      const response = await fetch("/api/ai/execute", {
+      const response = await fetch(this.apiUrl("/api/ai/execute"), {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -105,21 +174,263 @@ export class WorkflowExecutor {
           config,
           input: context.input,
           previousNodes: context.previousNodes,
+          vars: context.vars,
+          item: context.item,
         }),
+        signal: context.signal,
       });
 
       if (!response.ok) {
         const error = await response.json();
-        throw new Error(error.error || "AI execution failed");
+        throw new ExecutionError(error.error || "AI execution failed", response.status);
       }
 
       return await response.json();
     } catch (error: unknown) {
+      if (error instanceof ExecutionError) {
+        throw error;
+      }
       throw new Error(getErrorMessage(error, "Failed to execute AI node"));
     }
   }
 
+  /**
+   * Executes a node, retrying failed attempts according to the node's
+   * retry settings. Every attempt is reported in `attempts`. In item mode,
+   * retries of nodes that run once per item skip the items that already
+   * succeeded, so their side effects aren't repeated. Nodes with pinned
+   * data emit it without running.
+   */
   async executeNode(context: NodeExecutionContext): Promise<NodeExecutionResult> {
+    if (context.pinnedData !== undefined) {
+      if (context.dataMode === "items") {
+        const output = toItems(context.pinnedData);
+        return {
+          success: true,
+          output,
+          pinned: true,
+          itemCounts: { input: countItems(context.input), output: output.length },
+        };
+      }
+      return { success: true, output: context.pinnedData, pinned: true };
+    }
+
+    const settings = context.settings ?? {};
+    const maxAttempts = parsePositiveInt(settings.maxAttempts, 1);
+    const attempts: NodeExecutionAttempt[] = [];
+    const completedItems: CompletedItems = new Map();
+
+    for (let attempt = 1; ; attempt++) {
+      const startedAt = Date.now();
+      const result = await this.executeAttemptWithTimeout(context, completedItems);
+
+      attempts.push({
+        attempt,
+        startedAt,
+        finishedAt: Date.now(),
+        success: result.success,
+        error: result.error,
+        statusCode: result.statusCode,
+      });
+
+      if (
+        result.success ||
+        result.cancelled ||
+        attempt >= maxAttempts ||
+        !isRetryable(result, settings)
+      ) {
+        return { ...result, attempts };
+      }
+
+      try {
+        await sleep(getRetryDelay(attempt, settings), context.signal);
+      } catch {
+        return { ...CANCELLED_RESULT, attempts };
+      }
+    }
+  }
+
+  private async executeAttemptWithTimeout(
+    context: NodeExecutionContext,
+    completedItems: CompletedItems
+  ): Promise<NodeExecutionResult> {
+    const parentSignal = context.signal;
+    if (parentSignal?.aborted) {
+      return CANCELLED_RESULT;
+    }
+
+    const timeout = parsePositiveInt(context.settings?.timeout, 0);
+    const controller = new AbortController();
+    const onParentAbort = () => controller.abort(parentSignal?.reason);
+    parentSignal?.addEventListener("abort", onParentAbort, { once: true });
+
+    const timer =
+      timeout > 0
+        ? setTimeout(
+            () => controller.abort(new ExecutionError(`Node timed out after ${timeout}ms`, 408)),
+            timeout
+          )
+        : undefined;
+
+    try {
+      const attemptContext = { ...context, signal: controller.signal };
+      const result = await abortable(
+        context.dataMode === "items"
+          ? this.executeItemsAttempt(attemptContext, completedItems)
+          : this.executeAttempt(attemptContext),
+        controller.signal
+      );
+      if (controller.signal.aborted) {
+        throw controller.signal.reason;
+      }
+      return result;
+    } catch (error: unknown) {
+      if (parentSignal?.aborted) {
+        return CANCELLED_RESULT;
+      }
+      return {
+        success: false,
+        error: getErrorMessage(error, "Execution failed"),
+        statusCode: error instanceof ExecutionError ? error.statusCode : undefined,
+      };
+    } finally {
+      clearTimeout(timer);
+      parentSignal?.removeEventListener("abort", onParentAbort);
+    }
+  }
+
+  /**
+   * Item mode: the input is a list of items and the output is normalized to
+   * one. Item-aware nodes run once per item, routing nodes evaluate every
+   * item and send it down the branch it matched, and items keep a
+   * `pairedItem` reference to the input item they came from. Results of
+   * per-item runs that succeeded are kept in `completedItems` for retries.
+   */
+  private async executeItemsAttempt(
+    context: NodeExecutionContext,
+    completedItems: CompletedItems
+  ): Promise<NodeExecutionResult> {
+    const type = context.config.type as NodeType;
+    const category = nodeDefinitions[type]?.category;
+
+    if (category === "trigger") {
+      const result = await this.executeAttempt(context);
+      return this.withItemCounts(result, 0, toItems(result.output));
+    }
+
+    if (type === "merge") {
+      const inputs = (Array.isArray(context.input) ? context.input : [context.input]).map(
+        (value) => (value === undefined ? undefined : toItems(value))
+      );
+      const inputCount = inputs.reduce((total, items) => total + (items?.length ?? 0), 0);
+      const result = await this.executeAttempt({
+        ...context,
+        input: inputs.map((items) => items?.map((item) => item.json)),
+      });
+      const output =
+        (context.config.mode ?? "append") === "append"
+          ? inputs.flatMap((items, inputIndex) => pairWithInput(items ?? [], inputIndex))
+          : toItems(result.output);
+      return this.withItemCounts(result, inputCount, output);
+    }
+
+    const items = pairWithInput(toItems(context.input));
+
+    if (type === "splitInBatches") {
+      const result = await this.executeAttempt({
+        ...context,
+        config: { ...context.config, arrayPath: "" },
+        input: items,
+        iteration: context.iteration && {
+          ...context.iteration,
+          results: context.iteration.results.flatMap((value) => toItems(value)),
+        },
+      });
+      const output = result.output as { branch?: string; batch?: unknown; results?: unknown };
+      const emitted = output?.branch === "loop" ? output.batch : output?.results;
+      return this.withItemCounts(result, items.length, toItems(emitted), result.output);
+    }
+
+    if (ROUTING_NODE_TYPES.has(type)) {
+      const routes: Record<string, WorkflowItem[]> = {};
+      for (const [index, item] of items.entries()) {
+        const result = await this.executeAttempt({ ...context, input: item.json, item });
+        if (!result.success) {
+          return { ...result, error: `Item ${index}: ${result.error}` };
+        }
+        const branches = getOutputBranches(result.output);
+        (branches.length > 0 ? branches : ["default"]).forEach((branch) =>
+          (routes[branch] ??= []).push(item)
+        );
+      }
+      return {
+        success: true,
+        output: { routes },
+        itemCounts: { input: items.length, output: items.length },
+      };
+    }
+
+    if (PER_ITEM_NODE_TYPES.has(type)) {
+      const output: WorkflowItem[] = [];
+      const logs: NodeLogEntry[] = [];
+      for (const [index, item] of items.entries()) {
+        const result =
+          completedItems.get(index) ??
+          (await this.executeAttempt({ ...context, input: item.json, item }));
+        // Items finishing after a timed-out attempt was given up on run again
+        if (result.success && !context.signal?.aborted) {
+          completedItems.set(index, result);
+        }
+        logs.push(...(result.logs ?? []));
+        if (!result.success) {
+          return { ...result, error: `Item ${index}: ${result.error}`, logs: logs.length ? logs : undefined };
+        }
+        toItems(result.output).forEach((produced) =>
+          output.push({ ...produced, pairedItem: { item: index } })
+        );
+      }
+      return {
+        success: true,
+        output,
+        itemCounts: { input: items.length, output: output.length },
+        logs: logs.length ? logs : undefined,
+      };
+    }
+
+    // Everything else runs once on all items. Delay passes them on as they
+    // are, other nodes emit their output as items.
+    const result = await this.executeAttempt({
+      ...context,
+      input: items.map((item) => item.json),
+    });
+    return this.withItemCounts(
+      result,
+      items.length,
+      type === "delay" ? items : toItems(result.output)
+    );
+  }
+
+  /**
+   * `output` replaces the node's own output unless `rawOutput` is given,
+   * which the runner needs to pick branches (e.g. Split in Batches).
+   */
+  private withItemCounts(
+    result: NodeExecutionResult,
+    inputCount: number,
+    output: WorkflowItem[],
+    rawOutput?: unknown
+  ): NodeExecutionResult {
+    if (!result.success) {
+      return result;
+    }
+    return {
+      ...result,
+      output: rawOutput ?? output,
+      itemCounts: { input: inputCount, output: output.length },
+    };
+  }
+
+  private async executeAttempt(context: NodeExecutionContext): Promise<NodeExecutionResult> {
     const { config } = context;
     const definition = nodeDefinitions[config.type];
 
@@ -154,6 +465,7 @@ export class WorkflowExecutor {
       return {
         success: false,
         error: getErrorMessage(error, "Execution failed"),
+        statusCode: error instanceof ExecutionError ? error.statusCode : undefined,
       };
     }
   }
@@ -192,11 +504,14 @@ export class WorkflowExecutor {
         return await this.executeHttpRequest(config, context);
 
       case "dataTransform":
-        return this.executeDataTransform(config, context);
+        return await this.executeDataTransform(config, context);
 
       case "sendEmail":
         return this.executeSendEmail(config, context);
 
+      case "executeWorkflow":
+        return await this.executeSubWorkflow(config, context);
+
       default:
         return {
           success: false,
@@ -215,16 +530,20 @@ export class WorkflowExecutor {
         url,
         headers = "{}",
         body = "{}",
+        credentialId,
       } = config as {
         method?: string;
         url?: unknown;
         headers?: unknown;
         body?: unknown;
+        credentialId?: string;
       };
 
       const templateContext: TemplateContext = {
         input: context.input,
         previousNodes: context.previousNodes,
+        vars: context.vars,
+        item: context.item,
       };
 
       const processedUrl = replaceTemplateVariables(url, templateContext);
@@ -238,7 +557,7 @@ export class WorkflowExecutor {
         };
       }
 
-      const response = await fetch("/api/http-proxy", {
+      const response = await fetch(this.apiUrl("/api/http-proxy"), {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -248,7 +567,9 @@ export class WorkflowExecutor {
           method,
           headers: processedHeaders,
           body: method !== "GET" ? processedBody : undefined,
+          credentialId: credentialId || undefined,
         }),
+        signal: context.signal,
       });
 
       const result = await response.json();
@@ -257,6 +578,7 @@ export class WorkflowExecutor {
         return {
           success: false,
           error: result.error || "HTTP request failed",
+          statusCode: response.status,
         };
       }
 
@@ -272,18 +594,58 @@ export class WorkflowExecutor {
     }
   }
 
-  private executeDataTransform(
+  /**
+   * Runs the transformation as a sandboxed expression, or as JavaScript in an
+   * isolated server-side worker for `javascript` mode (also the mode of nodes
+   * created before expressions existed, which have no `mode` in their config).
+   */
+  private async executeDataTransform(
     config: Record<string, unknown>,
     context: NodeExecutionContext
-  ): NodeExecutionResult {
+  ): Promise<NodeExecutionResult> {
     try {
-      const { code } = config as { code: string };
-      const transformFunction = new Function("input", "previousNodes", code);
-      const output = transformFunction(context.input, context.previousNodes);
+      const { code, mode = "javascript" } = config as { code: string; mode?: string };
+
+      if (mode === "expression") {
+        return {
+          success: true,
+          output: evaluateTemplateExpression(code, {
+            input: context.input,
+            previousNodes: context.previousNodes,
+            vars: context.vars,
+            item: context.item,
+          }),
+        };
+      }
+
+      const response = await fetch(this.apiUrl("/api/transform"), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          code,
+          input: context.input,
+          previousNodes: context.previousNodes,
+          item: context.item,
+          vars: context.vars ?? {},
+        }),
+        signal: context.signal,
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        return {
+          success: false,
+          error: result.error || "Data transformation failed",
+          statusCode: response.status,
+          logs: result.logs,
+        };
+      }
 
       return {
         success: true,
-        output,
+        output: result.output,
+        logs: result.logs,
       };
     } catch (error: unknown) {
       return {
@@ -300,6 +662,8 @@ export class WorkflowExecutor {
     const templateContext: TemplateContext = {
       input: context.input,
       previousNodes: context.previousNodes,
+      vars: context.vars,
+      item: context.item,
     };
 
     const { to = "", subject = "", body = "" } = config as {
@@ -325,6 +689,47 @@ export class WorkflowExecutor {
     };
   }
 
+  private async executeSubWorkflow(
+    config: Record<string, unknown>,
+    context: NodeExecutionContext
+  ): Promise<NodeExecutionResult> {
+    const workflowId = typeof config.workflowId === "string" ? config.workflowId.trim() : "";
+
+    if (!workflowId) {
+      return {
+        success: false,
+        error: "Select a workflow to execute",
+      };
+    }
+
+    if (!context.runSubWorkflow) {
+      return {
+        success: false,
+        error: "Sub-workflows can't be executed here",
+      };
+    }
+
+    const result = await context.runSubWorkflow(workflowId, context.input, context.signal);
+
+    if (result.status !== "success") {
+      const reason = result.error ?? "Unknown error";
+      // Errors bubbling up from nested sub-workflows are already prefixed.
+      return {
+        success: false,
+        error: reason.startsWith("Sub-workflow")
+          ? reason
+          : `Sub-workflow ${result.status === "cancelled" ? "was cancelled" : "failed"}: ${reason}`,
+        subExecutionId: result.executionId,
+      };
+    }
+
+    return {
+      success: true,
+      output: result.output,
+      subExecutionId: result.executionId,
+    };
+  }
+
   private async executeLogicNode(
     config: Record<string, unknown>,
     context: NodeExecutionContext
@@ -339,6 +744,12 @@ export class WorkflowExecutor {
       case "delay":
         return await this.executeDelay(config, context);
 
+      case "merge":
+        return this.executeMerge(config, context);
+
+      case "splitInBatches":
+        return this.executeSplitInBatches(config, context);
+
       default:
         return {
           success: false,
@@ -347,20 +758,50 @@ export class WorkflowExecutor {
     }
   }
 
+  /**
+   * Rule mode combines the node's condition rules; nodes without a
+   * `conditionType` predate rules and evaluate `condition` as an expression.
+   */
   private executeIfElse(
     config: Record<string, unknown>,
     context: NodeExecutionContext
   ): NodeExecutionResult {
     try {
-      const { condition, operator } = config as { condition: string; operator: string };
+      const templateContext: TemplateContext = {
+        input: context.input,
+        previousNodes: context.previousNodes,
+        vars: context.vars,
+        item: context.item,
+      };
 
-      let result = false;
+      if (config.conditionType === "rules") {
+        const combinator = getConditionCombinator(config);
+        const evaluation = evaluateConditionRules(
+          parseConditionRules(config),
+          combinator,
+          templateContext
+        );
 
-      if (operator === "javascript") {
-        const evaluateFunction = new Function("input", "previousNodes", `return ${condition}`);
-        result = Boolean(evaluateFunction(context.input, context.previousNodes));
+        return {
+          success: true,
+          output: {
+            condition: evaluation.result,
+            branch: evaluation.result ? "true" : "false",
+            combinator,
+            matchedRules: evaluation.rules
+              .filter((rule) => rule.matched)
+              .map((rule) => rule.index),
+            rules: evaluation.rules,
+            input: context.input,
+          },
+        };
       }
 
+      const { condition } = config as { condition: string };
+
+      // Conditions are evaluated in the expression sandbox, never as raw JavaScript
+      const result = Boolean(evaluateTemplateExpression(condition, templateContext));
+
       return {
         success: true,
         output: {
@@ -386,50 +827,45 @@ export class WorkflowExecutor {
         ? config.property.trim()
         : "input";
 
-    const cases = parseSwitchCases(config as Record<string, unknown>);
+    const cases = parseSwitchCases(config);
+    const outputMode = getSwitchOutputMode(config);
 
     try {
-      const propertyValue = (() => {
-        if (!propertyPath || propertyPath === "input") {
-          return context.input;
-        }
-
-        if (propertyPath.startsWith("input.")) {
-          return resolvePath(context.input, propertyPath.slice(6));
+      const templateContext = {
+        input: context.input,
+        previousNodes: context.previousNodes,
+        vars: context.vars,
+        item: context.item,
+      };
+      const propertyValue = resolveContextPath(propertyPath, templateContext);
+
+      const matched: { id: string; label: string }[] = [];
+      for (const [index, switchCase] of cases.entries()) {
+        let isMatch: boolean;
+        try {
+          isMatch = matchSwitchCase(switchCase, propertyValue, templateContext);
+        } catch (error) {
+          throw new Error(
+            `Case "${getSwitchCaseLabel(switchCase, index)}": ${getErrorMessage(error, "match failed")}`
+          );
         }
-
-        const [nodeId, ...rest] = propertyPath.split(".");
-        if (nodeId && context.previousNodes[nodeId] !== undefined) {
-          const base = context.previousNodes[nodeId];
-          if (rest.length === 0) {
-            return base;
-          }
-          return resolvePath(base, rest.join("."));
+        if (isMatch) {
+          matched.push({ id: switchCase.id, label: getSwitchCaseLabel(switchCase, index) });
+          if (outputMode === "first") break;
         }
-
-        return resolvePath(context.input, propertyPath);
-      })();
-
-      const stringValue =
-        propertyValue !== undefined && propertyValue !== null
-          ? String(propertyValue)
-          : null;
-
-      let matchedIndex = -1;
-
-      if (stringValue !== null) {
-        matchedIndex = cases.findIndex((caseValue) => caseValue === stringValue);
       }
 
-      const branch = matchedIndex >= 0 ? `case_${matchedIndex}` : "default";
-
       return {
         success: true,
         output: {
-          branch,
-          matchedCase: matchedIndex >= 0 ? cases[matchedIndex] : null,
+          branch: matched[0]?.id ?? "default",
+          ...(outputMode === "all" && {
+            branches: matched.length > 0 ? matched.map((match) => match.id) : ["default"],
+          }),
+          matchedCase: matched[0]?.label ?? null,
+          matchedCases: matched.map((match) => match.label),
           value: propertyValue,
-          cases,
+          cases: cases.map((switchCase, index) => getSwitchCaseLabel(switchCase, index)),
           input: context.input,
         },
       };
@@ -441,14 +877,190 @@ export class WorkflowExecutor {
     }
   }
 
+  private executeMerge(
+    config: Record<string, unknown>,
+    context: NodeExecutionContext
+  ): NodeExecutionResult {
+    const inputs = Array.isArray(context.input) ? context.input : [context.input];
+    const branches = inputs.filter((value) => value !== undefined);
+    const mode = typeof config.mode === "string" ? config.mode : "append";
+
+    switch (mode) {
+      case "append":
+        return {
+          success: true,
+          output: branches.flatMap((value) => toArray(value)),
+        };
+
+      case "mergeByKey": {
+        const key =
+          typeof config.mergeKey === "string" && config.mergeKey.trim().length > 0
+            ? config.mergeKey.trim()
+            : "id";
+        const merged = new Map<string, Record<string, unknown>>();
+        const unmatched: unknown[] = [];
+
+        branches.forEach((value) => {
+          toArray(value).forEach((item) => {
+            const keyValue = isRecord(item) ? resolvePath(item, key) : undefined;
+            if (!isRecord(item) || keyValue === undefined || keyValue === null) {
+              unmatched.push(item);
+              return;
+            }
+            const mapKey = stringifyValue(keyValue);
+            merged.set(mapKey, { ...(merged.get(mapKey) ?? {}), ...item });
+          });
+        });
+
+        return {
+          success: true,
+          output: [...merged.values(), ...unmatched],
+        };
+      }
+
+      case "pickBranch": {
+        const index = parseInt(String(config.pickBranch ?? "1"), 10) - 1;
+        if (!Number.isInteger(index) || index < 0 || index >= inputs.length) {
+          return {
+            success: false,
+            error: `Input ${config.pickBranch} does not exist on this merge node`,
+          };
+        }
+        return {
+          success: true,
+          output: inputs[index] ?? null,
+        };
+      }
+
+      case "zip": {
+        const lists = inputs.map((value) => (value === undefined ? [] : toArray(value)));
+        const length = Math.max(0, ...lists.map((list) => list.length));
+        const output = Array.from({ length }, (_, position) => {
+          const entries = lists.map((list) => list[position]);
+          return entries.every((entry) => entry === undefined || isRecord(entry))
+            ? Object.assign({}, ...entries.filter(isRecord))
+            : entries;
+        });
+
+        return {
+          success: true,
+          output,
+        };
+      }
+
+      default:
+        return {
+          success: false,
+          error: `Unknown merge mode: ${mode}`,
+        };
+    }
+  }
+
+  private executeSplitInBatches(
+    config: Record<string, unknown>,
+    context: NodeExecutionContext
+  ): NodeExecutionResult {
+    const rawPath = typeof config.arrayPath === "string" ? config.arrayPath.trim() : "";
+    const path = rawPath === "input" ? "" : rawPath.replace(/^input\./, "");
+    const source = path ? resolvePath(context.input, path) : context.input;
+
+    if (source === undefined || source === null) {
+      return {
+        success: false,
+        error: `No array found at ${rawPath || "input"}`,
+      };
+    }
+
+    const batches = splitIntoBatches(toArray(source), getBatchSize(config));
+    const { index, results } = context.iteration ?? { index: 0, results: [] };
+
+    if (index < batches.length) {
+      return {
+        success: true,
+        output: {
+          branch: "loop",
+          batch: batches[index],
+          batchIndex: index,
+          totalBatches: batches.length,
+        },
+      };
+    }
+
+    return {
+      success: true,
+      output: {
+        branch: "done",
+        results,
+        totalBatches: batches.length,
+      },
+    };
+  }
+
+  /**
+   * Short waits block; longer ones, and waits for the resume webhook, suspend
+   * the run when the runner can persist it (`canWait`).
+   */
   private async executeDelay(
     config: Record<string, unknown>,
     context: NodeExecutionContext
   ): Promise<NodeExecutionResult> {
-    const { duration, unit } = config as { duration: string; unit: string };
-    const ms = unit === "seconds" ? parseInt(duration, 10) * 1000 : parseInt(duration, 10);
+    const startedAt = Date.now();
+    let target: DelayTarget;
+    try {
+      target = getDelayTarget(
+        config,
+        {
+          input: context.input,
+          previousNodes: context.previousNodes,
+          vars: context.vars,
+          item: context.item,
+        },
+        startedAt
+      );
+    } catch (error) {
+      return { success: false, error: getErrorMessage(error, "Invalid delay") };
+    }
+
+    if (target.mode === "webhook") {
+      if (!context.canWait) {
+        return {
+          success: false,
+          error: "Waiting for a webhook is only possible in runs that can be resumed",
+        };
+      }
+      const webhookToken = createWaitToken();
+      return {
+        success: true,
+        output: {
+          waitingForWebhook: true,
+          resumeUrl: `${
+            this.options.baseUrl ?? (typeof window !== "undefined" ? window.location.origin : "")
+          }${WAITING_EXECUTIONS_API}/resume/${webhookToken}`,
+          input: context.input,
+        },
+        wait: { webhookToken },
+      };
+    }
+
+    const ms = target.resumeAt - startedAt;
+    if (context.canWait && ms > IN_PROCESS_WAIT_LIMIT_MS) {
+      return {
+        success: true,
+        output: {
+          waitingUntil: new Date(target.resumeAt).toISOString(),
+          input: context.input,
+        },
+        wait: { resumeAt: target.resumeAt },
+      };
+    }
+    if (ms > MAX_BLOCKING_WAIT_MS) {
+      return {
+        success: false,
+        error: "Waits longer than 24 days are only possible in runs that can be resumed",
+      };
+    }
 
-    await new Promise((resolve) => setTimeout(resolve, ms));
+    await sleep(ms, context.signal);
 
     return {
       success: true,
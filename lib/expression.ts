@@ -0,0 +1,781 @@
+/**
+ * A small, sandboxed expression language used by `{{ }}` templates and
+ * conditions. Expressions are parsed into a tree and interpreted here, so
+ * they can only reach the values passed in their scope: there is no access
+ * to globals, prototypes or constructors, and only whitelisted methods can be
+ * called on strings, numbers and arrays.
+ *
+ * Supported syntax: literals, array/object literals (with spread), member
+ * access (`a.b`, `a?.b`, `a["b"]`), calls, arrow functions (`x => x.id`),
+ * `! - + typeof`, arithmetic, comparisons, `&& || ??` and `a ? b : c`.
+ */
+
+export class ExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ExpressionError";
+  }
+}
+
+export type ExpressionScope = Record<string, unknown>;
+
+type Token =
+  | { type: "number"; value: number; pos: number }
+  | { type: "string"; value: string; pos: number }
+  | { type: "identifier"; value: string; pos: number }
+  | { type: "punctuator"; value: string; pos: number }
+  | { type: "end"; value: ""; pos: number };
+
+type ExpressionNode =
+  | { type: "literal"; value: unknown }
+  | { type: "identifier"; name: string }
+  | { type: "array"; elements: { spread: boolean; value: ExpressionNode }[] }
+  | {
+      type: "object";
+      properties: ({ spread: true; value: ExpressionNode } | { spread: false; key: string; value: ExpressionNode })[];
+    }
+  | { type: "member"; object: ExpressionNode; property: ExpressionNode }
+  | { type: "call"; callee: ExpressionNode; args: ExpressionNode[] }
+  | { type: "unary"; operator: string; argument: ExpressionNode }
+  | { type: "binary"; operator: string; left: ExpressionNode; right: ExpressionNode }
+  | { type: "logical"; operator: string; left: ExpressionNode; right: ExpressionNode }
+  | { type: "conditional"; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode }
+  | { type: "arrow"; params: string[]; body: ExpressionNode };
+
+// Longest punctuators first so `===` wins over `==` and `=`.
+const PUNCTUATORS = [
+  "===", "!==", "...", "==", "!=", "<=", ">=", "&&", "||", "??", "?.", "=>",
+  "+", "-", "*", "/", "%", "<", ">", "!", "?", ":", ".", ",", "(", ")", "[", "]", "{", "}",
+];
+
+const KEYWORD_LITERALS: Record<string, unknown> = {
+  true: true,
+  false: false,
+  null: null,
+  undefined: undefined,
+};
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  "??": 1,
+  "||": 2,
+  "&&": 3,
+  "==": 4,
+  "!=": 4,
+  "===": 4,
+  "!==": 4,
+  "<": 5,
+  ">": 5,
+  "<=": 5,
+  ">=": 5,
+  "+": 6,
+  "-": 6,
+  "*": 7,
+  "/": 7,
+  "%": 7,
+};
+
+const ESCAPES: Record<string, string> = { n: "\n", t: "\t", r: "\r", b: "\b", f: "\f", v: "\v", "0": "\0" };
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  while (pos < source.length) {
+    const char = source[pos];
+
+    if (/\s/.test(char)) {
+      pos++;
+      continue;
+    }
+
+    if (/[0-9]/.test(char) || (char === "." && /[0-9]/.test(source[pos + 1] ?? ""))) {
+      const match = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(source.slice(pos))!;
+      tokens.push({ type: "number", value: Number(match[0]), pos });
+      pos += match[0].length;
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(char)) {
+      const match = /^[A-Za-z0-9_$]+/.exec(source.slice(pos))!;
+      tokens.push({ type: "identifier", value: match[0], pos });
+      pos += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const start = pos;
+      let value = "";
+      pos++;
+      while (pos < source.length && source[pos] !== char) {
+        if (source[pos] === "\\") {
+          const next = source[pos + 1];
+          if (next === "u" && /^[0-9a-fA-F]{4}$/.test(source.slice(pos + 2, pos + 6))) {
+            value += String.fromCharCode(parseInt(source.slice(pos + 2, pos + 6), 16));
+            pos += 6;
+            continue;
+          }
+          value += ESCAPES[next] ?? next ?? "";
+          pos += 2;
+          continue;
+        }
+        value += source[pos++];
+      }
+      if (pos >= source.length) {
+        throw new ExpressionError(`Unterminated string starting at position ${start}`);
+      }
+      pos++;
+      tokens.push({ type: "string", value, pos: start });
+      continue;
+    }
+
+    const punctuator = PUNCTUATORS.find((candidate) => source.startsWith(candidate, pos));
+    // `a?.5:1` is a conditional, not optional chaining
+    if (punctuator && !(punctuator === "?." && /[0-9]/.test(source[pos + 2] ?? ""))) {
+      tokens.push({ type: "punctuator", value: punctuator, pos });
+      pos += punctuator.length;
+      continue;
+    }
+    if (punctuator === "?.") {
+      tokens.push({ type: "punctuator", value: "?", pos });
+      pos++;
+      continue;
+    }
+
+    throw new ExpressionError(`Unexpected character "${char}" at position ${pos}`);
+  }
+
+  tokens.push({ type: "end", value: "", pos });
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    const node = this.parseExpression();
+    if (this.peek().type !== "end") {
+      this.unexpected();
+    }
+    return node;
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    this.index++;
+    return token;
+  }
+
+  private isPunctuator(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.type === "punctuator" && token.value === value;
+  }
+
+  private expect(value: string) {
+    if (!this.isPunctuator(value)) {
+      this.unexpected(`Expected "${value}"`);
+    }
+    this.index++;
+  }
+
+  private unexpected(expected?: string): never {
+    const token = this.peek();
+    const found =
+      token.type === "end" ? "end of expression" : `"${token.value}" at position ${token.pos}`;
+    throw new ExpressionError(expected ? `${expected} but found ${found}` : `Unexpected ${found}`);
+  }
+
+  private parseExpression(): ExpressionNode {
+    const arrow = this.tryParseArrow();
+    if (arrow) {
+      return arrow;
+    }
+
+    const test = this.parseBinary(1);
+    if (!this.isPunctuator("?")) {
+      return test;
+    }
+
+    this.next();
+    const consequent = this.parseExpression();
+    this.expect(":");
+    const alternate = this.parseExpression();
+    return { type: "conditional", test, consequent, alternate };
+  }
+
+  private tryParseArrow(): ExpressionNode | null {
+    const token = this.peek();
+
+    if (token.type === "identifier" && this.isPunctuator("=>", 1)) {
+      this.index += 2;
+      return { type: "arrow", params: [token.value], body: this.parseExpression() };
+    }
+
+    if (!this.isPunctuator("(")) {
+      return null;
+    }
+
+    // `(a, b) =>` — only identifiers and commas may appear before `)`
+    const params: string[] = [];
+    let offset = 1;
+    while (!this.isPunctuator(")", offset)) {
+      const param = this.peek(offset);
+      if (param.type !== "identifier") {
+        return null;
+      }
+      params.push(param.value);
+      offset++;
+      if (this.isPunctuator(",", offset)) {
+        offset++;
+      } else if (!this.isPunctuator(")", offset)) {
+        return null;
+      }
+    }
+    if (!this.isPunctuator("=>", offset + 1)) {
+      return null;
+    }
+
+    this.index += offset + 2;
+    return { type: "arrow", params, body: this.parseExpression() };
+  }
+
+  private parseBinary(minPrecedence: number): ExpressionNode {
+    let left = this.parseUnary();
+
+    for (;;) {
+      const token = this.peek();
+      const precedence = token.type === "punctuator" ? BINARY_PRECEDENCE[token.value] : undefined;
+      if (precedence === undefined || precedence < minPrecedence) {
+        return left;
+      }
+
+      this.next();
+      const right = this.parseBinary(precedence + 1);
+      const operator = String(token.value);
+      left =
+        operator === "&&" || operator === "||" || operator === "??"
+          ? { type: "logical", operator, left, right }
+          : { type: "binary", operator, left, right };
+    }
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.peek();
+    if (
+      (token.type === "punctuator" && ["!", "-", "+"].includes(token.value)) ||
+      (token.type === "identifier" && token.value === "typeof")
+    ) {
+      this.next();
+      return { type: "unary", operator: token.value, argument: this.parseUnary() };
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): ExpressionNode {
+    let node = this.parsePrimary();
+
+    for (;;) {
+      if (this.isPunctuator(".") || this.isPunctuator("?.")) {
+        this.next();
+        if (this.isPunctuator("[") || this.isPunctuator("(")) {
+          continue;
+        }
+        const property = this.next();
+        if (property.type !== "identifier") {
+          this.index--;
+          this.unexpected("Expected a property name");
+        }
+        node = { type: "member", object: node, property: { type: "literal", value: property.value } };
+      } else if (this.isPunctuator("[")) {
+        this.next();
+        const property = this.parseExpression();
+        this.expect("]");
+        node = { type: "member", object: node, property };
+      } else if (this.isPunctuator("(")) {
+        this.next();
+        const args: ExpressionNode[] = [];
+        while (!this.isPunctuator(")")) {
+          args.push(this.parseExpression());
+          if (!this.isPunctuator(")")) {
+            this.expect(",");
+          }
+        }
+        this.next();
+        node = { type: "call", callee: node, args };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case "number":
+      case "string":
+        return { type: "literal", value: token.value };
+
+      case "identifier":
+        if (hasOwn(KEYWORD_LITERALS, token.value)) {
+          return { type: "literal", value: KEYWORD_LITERALS[token.value] };
+        }
+        return { type: "identifier", name: token.value };
+
+      case "punctuator":
+        if (token.value === "(") {
+          const node = this.parseExpression();
+          this.expect(")");
+          return node;
+        }
+        if (token.value === "[") {
+          return this.parseArray();
+        }
+        if (token.value === "{") {
+          return this.parseObject();
+        }
+        break;
+    }
+
+    this.index--;
+    return this.unexpected();
+  }
+
+  private parseArray(): ExpressionNode {
+    const elements: { spread: boolean; value: ExpressionNode }[] = [];
+    while (!this.isPunctuator("]")) {
+      const spread = this.isPunctuator("...");
+      if (spread) this.next();
+      elements.push({ spread, value: this.parseExpression() });
+      if (!this.isPunctuator("]")) {
+        this.expect(",");
+      }
+    }
+    this.next();
+    return { type: "array", elements };
+  }
+
+  private parseObject(): ExpressionNode {
+    const properties: Extract<ExpressionNode, { type: "object" }>["properties"] = [];
+    while (!this.isPunctuator("}")) {
+      if (this.isPunctuator("...")) {
+        this.next();
+        properties.push({ spread: true, value: this.parseExpression() });
+      } else {
+        const key = this.next();
+        if (key.type !== "identifier" && key.type !== "string" && key.type !== "number") {
+          this.index--;
+          this.unexpected("Expected a property name");
+        }
+        const name = String(key.value);
+        if (this.isPunctuator(":")) {
+          this.next();
+          properties.push({ spread: false, key: name, value: this.parseExpression() });
+        } else if (key.type === "identifier") {
+          properties.push({ spread: false, key: name, value: { type: "identifier", name } });
+        } else {
+          this.unexpected('Expected ":"');
+        }
+      }
+      if (!this.isPunctuator("}")) {
+        this.expect(",");
+      }
+    }
+    this.next();
+    return { type: "object", properties };
+  }
+}
+
+const BLOCKED_PROPERTIES = new Set([
+  "__proto__",
+  "prototype",
+  "constructor",
+  "__defineGetter__",
+  "__defineSetter__",
+  "__lookupGetter__",
+  "__lookupSetter__",
+]);
+
+const STRING_METHODS = new Set([
+  "at", "charAt", "concat", "endsWith", "includes", "indexOf", "lastIndexOf", "localeCompare",
+  "normalize", "padEnd", "padStart", "replace", "replaceAll", "slice", "split", "startsWith",
+  "substring", "toLowerCase", "toUpperCase", "trim", "trimEnd", "trimStart",
+]);
+
+const ARRAY_METHODS = new Set([
+  "at", "concat", "every", "filter", "find", "findIndex", "findLast", "flat", "flatMap",
+  "includes", "indexOf", "join", "lastIndexOf", "map", "reduce", "some", "slice",
+]);
+
+const NUMBER_METHODS = new Set(["toFixed", "toPrecision", "toString"]);
+
+const MAX_STRING_LENGTH = 1_000_000;
+const MAX_ARRAY_LENGTH = 1_000_000;
+
+const hasOwn = (target: object, key: PropertyKey) =>
+  Object.prototype.hasOwnProperty.call(target, key);
+
+const getMember = (target: unknown, key: unknown): unknown => {
+  const name = typeof key === "number" ? String(key) : key;
+  if (typeof name !== "string") {
+    throw new ExpressionError("Property names must be strings or numbers");
+  }
+  if (BLOCKED_PROPERTIES.has(name)) {
+    throw new ExpressionError(`Access to "${name}" is not allowed`);
+  }
+
+  if (target === undefined || target === null || typeof target === "function") {
+    return undefined;
+  }
+  if (typeof target === "string" || Array.isArray(target)) {
+    if (name === "length") {
+      return target.length;
+    }
+    return /^\d+$/.test(name) ? target[Number(name)] : undefined;
+  }
+  if (typeof target === "object") {
+    return hasOwn(target, name) ? (target as Record<string, unknown>)[name] : undefined;
+  }
+  return undefined;
+};
+
+const typeName = (value: unknown) =>
+  value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+
+/**
+ * An upper bound of the length of a string method's result, checked before
+ * the method runs so that huge strings are never allocated.
+ */
+const getMaxStringResultLength = (target: string, name: string, args: unknown[]): number => {
+  switch (name) {
+    case "padStart":
+    case "padEnd":
+      return Math.max(target.length, Number(args[0]) || 0);
+    case "concat":
+      return args.reduce<number>((length, arg) => length + String(arg).length, target.length);
+    case "replace":
+    case "replaceAll": {
+      // Replacement functions return strings of their own; the result is checked afterwards
+      if (typeof args[1] !== "string") return target.length;
+      const pattern = String(args[0]);
+      const matches =
+        name === "replace" ? 1 : pattern === "" ? target.length + 1 : target.split(pattern).length - 1;
+      // "$&", "$`" and "$'" insert parts of the target
+      const perMatch = args[1].includes("$") ? args[1].length * Math.max(target.length, 1) : args[1].length;
+      return target.length + matches * perMatch;
+    }
+    default:
+      return target.length;
+  }
+};
+
+/** Length of `Array.prototype.join`'s result, without building it. */
+const getJoinedLength = (values: unknown[], separator: string): number =>
+  values.reduce<number>(
+    (length, value, index) =>
+      length +
+      (index > 0 ? separator.length : 0) +
+      (value === undefined || value === null
+        ? 0
+        : Array.isArray(value)
+          ? getJoinedLength(value, ",")
+          : String(value).length),
+    0
+  );
+
+/** Number of elements `flat(depth)` produces, without building them. */
+const getFlatLength = (values: unknown[], depth: number): number =>
+  values.reduce<number>(
+    (length, value) =>
+      length + (Array.isArray(value) && depth >= 1 ? getFlatLength(value, depth - 1) : 1),
+    0
+  );
+
+const checkResultSize = (name: string, result: unknown) => {
+  if (typeof result === "string" && result.length > MAX_STRING_LENGTH) {
+    throw new ExpressionError(`String result of ${name}() is too long`);
+  }
+  if (Array.isArray(result) && result.length > MAX_ARRAY_LENGTH) {
+    throw new ExpressionError(`Array result of ${name}() is too long`);
+  }
+  return result;
+};
+
+/**
+ * Runs an array method, checking the size of what `join`, `concat`, `flat`
+ * and `flatMap` would build before building it.
+ */
+const callArrayMethod = (target: unknown[], name: string, args: unknown[]): unknown => {
+  const call = (values: unknown[], method: string, methodArgs: unknown[]) =>
+    (Array.prototype as unknown as Record<string, (...a: unknown[]) => unknown>)[method].apply(
+      values,
+      methodArgs
+    );
+
+  switch (name) {
+    case "join": {
+      const separator = args[0] === undefined ? "," : String(args[0]);
+      if (getJoinedLength(target, separator) > MAX_STRING_LENGTH) {
+        throw new ExpressionError("String result of join() is too long");
+      }
+      break;
+    }
+    case "concat": {
+      const length = args.reduce<number>(
+        (total, arg) => total + (Array.isArray(arg) ? arg.length : 1),
+        target.length
+      );
+      if (length > MAX_ARRAY_LENGTH) {
+        throw new ExpressionError("Array result of concat() is too long");
+      }
+      break;
+    }
+    case "flat": {
+      const depth = args[0] === undefined ? 1 : Number(args[0]) || 0;
+      if (getFlatLength(target, depth) > MAX_ARRAY_LENGTH) {
+        throw new ExpressionError("Array result of flat() is too long");
+      }
+      break;
+    }
+    case "flatMap": {
+      // The callback's results are only known once it ran; they are
+      // flattened after checking how many elements that makes
+      const mapped = call(target, "map", args) as unknown[];
+      if (getFlatLength(mapped, 1) > MAX_ARRAY_LENGTH) {
+        throw new ExpressionError("Array result of flatMap() is too long");
+      }
+      return mapped.flat();
+    }
+  }
+  return checkResultSize(name, call(target, name, args));
+};
+
+const callMethod = (target: unknown, name: string, args: unknown[]): unknown => {
+  if (typeof target === "string" && STRING_METHODS.has(name)) {
+    if (getMaxStringResultLength(target, name, args) > MAX_STRING_LENGTH) {
+      throw new ExpressionError(`String result of ${name}() is too long`);
+    }
+    return checkResultSize(
+      name,
+      (String.prototype as unknown as Record<string, (...a: unknown[]) => unknown>)[name].apply(target, args)
+    );
+  }
+  if (Array.isArray(target)) {
+    // Sorting and reversing work on copies so inputs are never mutated
+    if (name === "sort") {
+      return [...target].sort(args[0] as ((a: unknown, b: unknown) => number) | undefined);
+    }
+    if (name === "reverse") {
+      return [...target].reverse();
+    }
+    if (ARRAY_METHODS.has(name)) {
+      return callArrayMethod(target, name, args);
+    }
+  }
+  if (typeof target === "number" && NUMBER_METHODS.has(name)) {
+    return (Number.prototype as unknown as Record<string, (...a: unknown[]) => unknown>)[name].apply(target, args);
+  }
+  throw new ExpressionError(`${typeName(target)}.${name} is not a function`);
+};
+
+class Evaluator {
+  constructor(
+    private readonly scope: ExpressionScope,
+    private readonly fallback: (name: string) => { found: boolean; value?: unknown }
+  ) {}
+
+  evaluate(node: ExpressionNode, locals: Record<string, unknown>): unknown {
+    switch (node.type) {
+      case "literal":
+        return node.value;
+
+      case "identifier":
+        return this.lookup(node.name, locals);
+
+      case "array":
+        return node.elements.flatMap(({ spread, value }) => {
+          const evaluated = this.evaluate(value, locals);
+          if (!spread) return [evaluated];
+          if (typeof evaluated === "string" || Array.isArray(evaluated)) return [...evaluated];
+          throw new ExpressionError(`Cannot spread ${typeName(evaluated)} into an array`);
+        });
+
+      case "object": {
+        const result: Record<string, unknown> = {};
+        for (const property of node.properties) {
+          const value = this.evaluate(property.value, locals);
+          if (property.spread) {
+            if (value !== null && typeof value === "object") {
+              for (const key of Object.keys(value)) {
+                if (!BLOCKED_PROPERTIES.has(key)) result[key] = (value as Record<string, unknown>)[key];
+              }
+            }
+          } else if (BLOCKED_PROPERTIES.has(property.key)) {
+            throw new ExpressionError(`Property "${property.key}" is not allowed`);
+          } else {
+            result[property.key] = value;
+          }
+        }
+        return result;
+      }
+
+      case "member":
+        return getMember(this.evaluate(node.object, locals), this.evaluate(node.property, locals));
+
+      case "call": {
+        const args = node.args.map((arg) => this.evaluate(arg, locals));
+        if (node.callee.type === "member") {
+          const target = this.evaluate(node.callee.object, locals);
+          const name = this.evaluate(node.callee.property, locals);
+          const own = getMember(target, name);
+          if (typeof own === "function") {
+            return own(...args);
+          }
+          return callMethod(target, String(name), args);
+        }
+        const callee = this.evaluate(node.callee, locals);
+        if (typeof callee !== "function") {
+          const name = node.callee.type === "identifier" ? node.callee.name : "expression";
+          throw new ExpressionError(`${name} is not a function`);
+        }
+        return callee(...args);
+      }
+
+      case "unary": {
+        const value = this.evaluate(node.argument, locals);
+        switch (node.operator) {
+          case "!":
+            return !value;
+          case "-":
+            return -(value as number);
+          case "+":
+            return +(value as number);
+          default:
+            return typeof value;
+        }
+      }
+
+      case "binary":
+        return this.binary(node.operator, this.evaluate(node.left, locals), this.evaluate(node.right, locals));
+
+      case "logical": {
+        const left = this.evaluate(node.left, locals);
+        if (node.operator === "&&") return left ? this.evaluate(node.right, locals) : left;
+        if (node.operator === "||") return left ? left : this.evaluate(node.right, locals);
+        return left ?? this.evaluate(node.right, locals);
+      }
+
+      case "conditional":
+        return this.evaluate(node.test, locals)
+          ? this.evaluate(node.consequent, locals)
+          : this.evaluate(node.alternate, locals);
+
+      case "arrow":
+        return (...args: unknown[]) => {
+          const scoped: Record<string, unknown> = Object.create(null);
+          Object.assign(scoped, locals);
+          node.params.forEach((param, index) => {
+            scoped[param] = args[index];
+          });
+          return this.evaluate(node.body, scoped);
+        };
+    }
+  }
+
+  private lookup(name: string, locals: Record<string, unknown>): unknown {
+    if (name in locals) {
+      return locals[name];
+    }
+    if (hasOwn(this.scope, name)) {
+      return this.scope[name];
+    }
+    const fallback = this.fallback(name);
+    if (fallback.found) {
+      return fallback.value;
+    }
+    throw new ExpressionError(`${name} is not defined`);
+  }
+
+  private binary(operator: string, left: unknown, right: unknown): unknown {
+    const a = left as number;
+    const b = right as number;
+    switch (operator) {
+      case "+": {
+        const result: unknown = (left as string) + (right as string);
+        if (typeof result === "string" && result.length > MAX_STRING_LENGTH) {
+          throw new ExpressionError("String result is too long");
+        }
+        return result;
+      }
+      case "-":
+        return a - b;
+      case "*":
+        return a * b;
+      case "/":
+        return a / b;
+      case "%":
+        return a % b;
+      case "<":
+        return a < b;
+      case ">":
+        return a > b;
+      case "<=":
+        return a <= b;
+      case ">=":
+        return a >= b;
+      case "==":
+        return left == right;
+      case "!=":
+        return left != right;
+      case "===":
+        return left === right;
+      case "!==":
+        return left !== right;
+      default:
+        throw new ExpressionError(`Unknown operator "${operator}"`);
+    }
+  }
+}
+
+const parseCache = new Map<string, ExpressionNode>();
+const MAX_CACHED_EXPRESSIONS = 500;
+
+const parse = (source: string): ExpressionNode => {
+  const cached = parseCache.get(source);
+  if (cached) {
+    return cached;
+  }
+  const node = new Parser(tokenize(source)).parse();
+  if (parseCache.size >= MAX_CACHED_EXPRESSIONS) {
+    parseCache.clear();
+  }
+  parseCache.set(source, node);
+  return node;
+};
+
+/**
+ * Throws an ExpressionError when `source` is not a valid expression.
+ */
+export const validateExpression = (source: string): void => {
+  parse(source);
+};
+
+/**
+ * Evaluates `source` against `scope`. Identifiers that are not in the scope
+ * are passed to `fallback` (used to resolve node ids) before failing.
+ */
+export function evaluateExpression(
+  source: string,
+  scope: ExpressionScope,
+  fallback: (name: string) => { found: boolean; value?: unknown } = () => ({ found: false })
+): unknown {
+  if (!source.trim()) {
+    throw new ExpressionError("Expression is empty");
+  }
+  return new Evaluator(scope, fallback).evaluate(parse(source), Object.create(null));
+}
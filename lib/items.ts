@@ -0,0 +1,43 @@
+import type { JsonValue, RoutedItems, WorkflowItem } from "./types";
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+export const isWorkflowItem = (value: unknown): value is WorkflowItem =>
+  isPlainObject(value) && isPlainObject(value.json);
+
+/**
+ * Normalizes any node output to a list of items. Arrays become one item per
+ * element, other values a single item; values that are not objects are
+ * wrapped as `{ value }`. Existing items are kept as they are.
+ */
+export const toItems = (value: unknown): WorkflowItem[] => {
+  if (value === undefined || value === null) {
+    return [];
+  }
+
+  return (Array.isArray(value) ? value : [value]).map((entry) => {
+    if (isWorkflowItem(entry)) {
+      return entry;
+    }
+    return {
+      json: isPlainObject(entry)
+        ? (entry as { [key: string]: JsonValue })
+        : { value: (entry ?? null) as JsonValue },
+    };
+  });
+};
+
+export const isRoutedItems = (value: unknown): value is RoutedItems =>
+  isPlainObject(value) && isPlainObject(value.routes);
+
+export const countItems = (value: unknown): number =>
+  isRoutedItems(value)
+    ? Object.values(value.routes).reduce((total, items) => total + items.length, 0)
+    : toItems(value).length;
+
+export const pairWithInput = (items: WorkflowItem[], inputIndex?: number): WorkflowItem[] =>
+  items.map((item, index) => ({
+    ...item,
+    pairedItem: inputIndex === undefined ? { item: index } : { item: index, input: inputIndex },
+  }));
@@ -10,6 +10,9 @@ import {
     Mail,
     GitBranch,
     Timer,
+    Merge,
+    Repeat,
+    Workflow,
   } from "lucide-react";
   
   export interface NodeDefinition {
@@ -26,13 +29,81 @@ import {
   export interface ConfigField {
     name: string;
     label: string;
-    type: "text" | "textarea" | "select" | "number";
+    type:
+      | "text"
+      | "textarea"
+      | "select"
+      | "number"
+      | "workflow"
+      | "credential"
+      | "conditions"
+      | "switchCases";
     placeholder?: string;
     options?: { value: string; label: string }[];
     required?: boolean;
     defaultValue?: any;
   }
   
+  /**
+   * Settings available on every node, stored in `NodeData.settings`.
+   */
+  export const nodeSettingsFields: ConfigField[] = [
+    {
+      name: "maxAttempts",
+      label: "Max Attempts",
+      type: "number",
+      placeholder: "1",
+      defaultValue: "1",
+    },
+    {
+      name: "backoff",
+      label: "Retry Backoff",
+      type: "select",
+      options: [
+        { value: "fixed", label: "Fixed" },
+        { value: "exponential", label: "Exponential" },
+        { value: "jitter", label: "Exponential with Jitter" },
+      ],
+      defaultValue: "exponential",
+    },
+    {
+      name: "retryDelay",
+      label: "Retry Delay (ms)",
+      type: "number",
+      placeholder: "1000",
+      defaultValue: "1000",
+    },
+    {
+      name: "retryOn",
+      label: "Retry On",
+      type: "select",
+      options: [
+        { value: "transient", label: "Network, timeout, 429 and 5xx errors" },
+        { value: "rateLimit", label: "Rate limits (429) only" },
+        { value: "all", label: "Any error" },
+      ],
+      defaultValue: "transient",
+    },
+    {
+      name: "timeout",
+      label: "Timeout per Attempt (ms, 0 = none)",
+      type: "number",
+      placeholder: "0",
+      defaultValue: "0",
+    },
+    {
+      name: "onError",
+      label: "On Error",
+      type: "select",
+      options: [
+        { value: "stop", label: "Stop workflow" },
+        { value: "continue", label: "Continue with empty output" },
+        { value: "errorOutput", label: "Route to error output" },
+      ],
+      defaultValue: "stop",
+    },
+  ];
+
   export const nodeDefinitions: Record<string, NodeDefinition> = {
     webhook: {
       type: "webhook",
@@ -44,6 +115,7 @@ import {
       defaultConfig: {
         method: "POST",
         path: "/webhook",
+        responseMode: "immediately",
       },
       configFields: [
         {
@@ -54,6 +126,8 @@ import {
             { value: "GET", label: "GET" },
             { value: "POST", label: "POST" },
             { value: "PUT", label: "PUT" },
+            { value: "PATCH", label: "PATCH" },
+            { value: "DELETE", label: "DELETE" },
           ],
           defaultValue: "POST",
         },
@@ -61,9 +135,19 @@ import {
           name: "path",
           label: "Webhook Path",
           type: "text",
-          placeholder: "/webhook",
+          placeholder: "/orders/:id",
           defaultValue: "/webhook",
         },
+        {
+          name: "responseMode",
+          label: "Respond",
+          type: "select",
+          options: [
+            { value: "immediately", label: "Immediately" },
+            { value: "lastNode", label: "With the last node's output" },
+          ],
+          defaultValue: "immediately",
+        },
       ],
     },
   
@@ -75,10 +159,23 @@ import {
       icon: Clock,
       color: "bg-purple-500",
       defaultConfig: {
+        mode: "interval",
         interval: "5",
         unit: "minutes",
+        cron: "",
+        timezone: "",
       },
       configFields: [
+        {
+          name: "mode",
+          label: "Schedule",
+          type: "select",
+          options: [
+            { value: "interval", label: "Every interval" },
+            { value: "cron", label: "Cron expression" },
+          ],
+          defaultValue: "interval",
+        },
         {
           name: "interval",
           label: "Interval",
@@ -97,6 +194,18 @@ import {
           ],
           defaultValue: "minutes",
         },
+        {
+          name: "cron",
+          label: "Cron Expression",
+          type: "text",
+          placeholder: "0 9 * * 1-5 (minute hour day month weekday)",
+        },
+        {
+          name: "timezone",
+          label: "Time Zone",
+          type: "text",
+          placeholder: "Europe/Berlin (empty for server time)",
+        },
       ],
     },
   
@@ -252,6 +361,7 @@ import {
         url: "https://api.example.com",
         headers: "{}",
         body: "{}",
+        credentialId: "",
       },
       configFields: [
         {
@@ -273,6 +383,12 @@ import {
           placeholder: "https://api.example.com",
           required: true,
         },
+        {
+          name: "credentialId",
+          label: "Credential",
+          type: "credential",
+          defaultValue: "",
+        },
         {
           name: "headers",
           label: "Headers (JSON)",
@@ -293,19 +409,31 @@ import {
     dataTransform: {
       type: "dataTransform",
       label: "Data Transform",
-      description: "Transform data using JavaScript",
+      description: "Transform data with an expression or JavaScript",
       category: "action",
       icon: Code,
       color: "bg-yellow-500",
       defaultConfig: {
-        code: "return { ...input, transformed: true };",
+        mode: "expression",
+        code: "{ ...input, transformed: true }",
       },
       configFields: [
+        {
+          name: "mode",
+          label: "Mode",
+          type: "select",
+          options: [
+            { value: "expression", label: "Expression (sandboxed)" },
+            { value: "javascript", label: "JavaScript (isolated worker)" },
+          ],
+          // Nodes saved before expressions existed have no mode and run JavaScript
+          defaultValue: "javascript",
+        },
         {
           name: "code",
-          label: "Transformation Code",
+          label: "Transformation",
           type: "textarea",
-          placeholder: "return { ...input, transformed: true };",
+          placeholder: "{ ...input, total: sum(input.items.map(i => i.price)) }",
           required: true,
         },
       ],
@@ -356,27 +484,19 @@ import {
       icon: GitBranch,
       color: "bg-indigo-500",
       defaultConfig: {
+        conditionType: "rules",
+        combinator: "and",
+        rules: JSON.stringify([
+          { id: "rule_1", left: "input.value", type: "number", operator: "gt", right: "10" },
+        ]),
         condition: "input.value > 10",
-        operator: "javascript",
       },
       configFields: [
         {
-          name: "condition",
-          label: "Condition",
-          type: "text",
-          placeholder: "input.value > 10",
-          required: true,
-        },
-        {
-          name: "operator",
-          label: "Operator",
-          type: "select",
-          options: [
-            { value: "javascript", label: "JavaScript Expression" },
-            { value: "equals", label: "Equals" },
-            { value: "contains", label: "Contains" },
-          ],
-          defaultValue: "javascript",
+          // Edits conditionType, combinator, rules and condition together
+          name: "rules",
+          label: "Conditions",
+          type: "conditions",
         },
       ],
     },
@@ -384,21 +504,32 @@ import {
     delay: {
       type: "delay",
       label: "Delay",
-      description: "Wait for specified time",
+      description: "Wait for a duration, a date or a webhook call",
       category: "logic",
       icon: Timer,
       color: "bg-gray-500",
       defaultConfig: {
+        mode: "duration",
         duration: "1000",
         unit: "milliseconds",
       },
       configFields: [
+        {
+          name: "mode",
+          label: "Wait",
+          type: "select",
+          options: [
+            { value: "duration", label: "For a duration" },
+            { value: "until", label: "Until a date and time" },
+            { value: "webhook", label: "Until the resume webhook is called" },
+          ],
+          defaultValue: "duration",
+        },
         {
           name: "duration",
           label: "Duration",
           type: "number",
           placeholder: "1000",
-          required: true,
         },
         {
           name: "unit",
@@ -407,12 +538,28 @@ import {
           options: [
             { value: "milliseconds", label: "Milliseconds" },
             { value: "seconds", label: "Seconds" },
+            { value: "minutes", label: "Minutes" },
+            { value: "hours", label: "Hours" },
+            { value: "days", label: "Days" },
           ],
           defaultValue: "milliseconds",
         },
+        {
+          name: "until",
+          label: "Until (date and time)",
+          type: "text",
+          placeholder: "2025-01-31 09:00 or {{input.sendAt}}",
+        },
+        {
+          name: "timezone",
+          label: "Time Zone",
+          type: "text",
+          placeholder: "Europe/Berlin (empty for local time)",
+        },
       ],
     },
 
+
     switch: {
       type: "switch",
       label: "Switch",
@@ -422,7 +569,12 @@ import {
       color: "bg-teal-500",
       defaultConfig: {
         property: "input.status",
-        cases: "success\npending\nfailed",
+        outputMode: "first",
+        switchCases: JSON.stringify([
+          { id: "case_success", mode: "exact", value: "success" },
+          { id: "case_pending", mode: "exact", value: "pending" },
+          { id: "case_failed", mode: "exact", value: "failed" },
+        ]),
       },
       configFields: [
         {
@@ -433,12 +585,119 @@ import {
           required: true,
         },
         {
-          name: "cases",
-          label: "Cases (one per line)",
-          type: "textarea",
-          placeholder: "success\npending\nfailed",
+          name: "outputMode",
+          label: "Output",
+          type: "select",
+          options: [
+            { value: "first", label: "First matching case" },
+            { value: "all", label: "Every matching case" },
+          ],
+          defaultValue: "first",
+        },
+        {
+          name: "switchCases",
+          label: "Cases",
+          type: "switchCases",
+        },
+      ],
+    },
+
+    merge: {
+      type: "merge",
+      label: "Merge",
+      description: "Wait for all inputs and combine them",
+      category: "logic",
+      icon: Merge,
+      color: "bg-cyan-600",
+      defaultConfig: {
+        inputs: "2",
+        mode: "append",
+        mergeKey: "id",
+        pickBranch: "1",
+      },
+      configFields: [
+        {
+          name: "inputs",
+          label: "Number of Inputs",
+          type: "number",
+          placeholder: "2",
+          defaultValue: "2",
+        },
+        {
+          name: "mode",
+          label: "Mode",
+          type: "select",
+          options: [
+            { value: "append", label: "Append" },
+            { value: "mergeByKey", label: "Merge by Key" },
+            { value: "pickBranch", label: "Pick Branch" },
+            { value: "zip", label: "Zip (combine by position)" },
+          ],
+          defaultValue: "append",
+        },
+        {
+          name: "mergeKey",
+          label: "Key Field (Merge by Key)",
+          type: "text",
+          placeholder: "id",
+          defaultValue: "id",
+        },
+        {
+          name: "pickBranch",
+          label: "Input to Pick (Pick Branch)",
+          type: "number",
+          placeholder: "1",
+          defaultValue: "1",
+        },
+      ],
+    },
+
+    splitInBatches: {
+      type: "splitInBatches",
+      label: "Split in Batches",
+      description: "Loop over an array in batches",
+      category: "logic",
+      icon: Repeat,
+      color: "bg-amber-500",
+      defaultConfig: {
+        batchSize: "10",
+        arrayPath: "",
+      },
+      configFields: [
+        {
+          name: "batchSize",
+          label: "Batch Size",
+          type: "number",
+          placeholder: "10",
+          defaultValue: "10",
+          required: true,
+        },
+        {
+          name: "arrayPath",
+          label: "Array Path (optional)",
+          type: "text",
+          placeholder: "input.data",
+        },
+      ],
+    },
+
+    executeWorkflow: {
+      type: "executeWorkflow",
+      label: "Execute Workflow",
+      description: "Run a saved workflow and return its output",
+      category: "action",
+      icon: Workflow,
+      color: "bg-indigo-500",
+      defaultConfig: {
+        workflowId: "",
+      },
+      configFields: [
+        {
+          name: "workflowId",
+          label: "Workflow",
+          type: "workflow",
           required: true,
         },
       ],
     },
-  };
\ No newline at end of file
+  };
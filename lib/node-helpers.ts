@@ -1,4 +1,5 @@
-import { NodeType } from "./types";
+import { NodeSettings, NodeType } from "./types";
+import { getSwitchCaseLabel, parseSwitchCases } from "./switch-cases";
 
 export interface NodeOutputHandle {
   id: string;
@@ -7,16 +8,54 @@ export interface NodeOutputHandle {
   value?: string;
 }
 
-export const parseSwitchCases = (config?: Record<string, unknown>): string[] => {
-  const rawCases = typeof config?.cases === "string" ? config?.cases : "";
+export interface NodeInputHandle {
+  id: string;
+  label: string;
+}
+
+export const MIN_MERGE_INPUTS = 2;
+export const MAX_MERGE_INPUTS = 10;
+
+export const getMergeInputCount = (config?: Record<string, unknown>): number => {
+  const parsed = parseInt(String(config?.inputs ?? MIN_MERGE_INPUTS), 10);
+  if (!Number.isFinite(parsed)) {
+    return MIN_MERGE_INPUTS;
+  }
+  return Math.min(Math.max(parsed, MIN_MERGE_INPUTS), MAX_MERGE_INPUTS);
+};
 
-  return rawCases
-    .split("\n")
-    .map((value) => value.trim())
-    .filter((value, index, all) => value.length > 0 && all.indexOf(value) === index);
+export const getBatchSize = (config?: Record<string, unknown>): number => {
+  const parsed = parseInt(String(config?.batchSize ?? 1), 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 1;
 };
 
-export const getNodeOutputHandles = (
+export const splitIntoBatches = <T>(items: T[], size: number): T[][] => {
+  const batches: T[][] = [];
+  for (let start = 0; start < items.length; start += size) {
+    batches.push(items.slice(start, start + size));
+  }
+  return batches;
+};
+
+/**
+ * Branches a node's output selects: every entry of `branches` when a Switch
+ * fires all matching cases, otherwise the single `branch`.
+ */
+export const getOutputBranches = (output: unknown): string[] => {
+  if (typeof output !== "object" || output === null) {
+    return [];
+  }
+  const { branch, branches } = output as { branch?: unknown; branches?: unknown };
+  if (Array.isArray(branches) && branches.length > 0) {
+    return branches.map(String);
+  }
+  return branch ? [String(branch)] : [];
+};
+
+export const MAIN_OUTPUT_HANDLE = "main";
+export const ERROR_OUTPUT_HANDLE = "error";
+
+const getBranchOutputHandles = (
   type: NodeType,
   config?: Record<string, unknown>
 ): NodeOutputHandle[] | null => {
@@ -27,14 +66,17 @@ export const getNodeOutputHandles = (
         { id: "false", label: "False", edgeLabel: "False" },
       ];
 
+    case "splitInBatches":
+      return [
+        { id: "loop", label: "Loop", edgeLabel: "Loop" },
+        { id: "done", label: "Done", edgeLabel: "Done" },
+      ];
+
     case "switch":
-      const cases = parseSwitchCases(config);
-      const caseHandles = cases.map((value, index) => ({
-        id: `case_${index}`,
-        label: value,
-        edgeLabel: `Case: ${value}`,
-        value,
-      }));
+      const caseHandles = parseSwitchCases(config).map((switchCase, index) => {
+        const label = getSwitchCaseLabel(switchCase, index);
+        return { id: switchCase.id, label, edgeLabel: `Case: ${label}`, value: switchCase.value };
+      });
 
       return [
         ...caseHandles,
@@ -46,3 +88,35 @@ export const getNodeOutputHandles = (
   }
 };
 
+export const getNodeOutputHandles = (
+  type: NodeType,
+  config?: Record<string, unknown>,
+  settings?: NodeSettings
+): NodeOutputHandle[] | null => {
+  const handles = getBranchOutputHandles(type, config);
+
+  if (settings?.onError !== "errorOutput") {
+    return handles;
+  }
+
+  return [
+    ...(handles ?? [{ id: MAIN_OUTPUT_HANDLE, label: "Success", edgeLabel: "Success" }]),
+    { id: ERROR_OUTPUT_HANDLE, label: "Error", edgeLabel: "Error" },
+  ];
+};
+
+export const getNodeInputHandles = (
+  type: NodeType,
+  config?: Record<string, unknown>
+): NodeInputHandle[] | null => {
+  switch (type) {
+    case "merge":
+      return Array.from({ length: getMergeInputCount(config) }, (_, index) => ({
+        id: `input_${index}`,
+        label: `Input ${index + 1}`,
+      }));
+
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,131 @@
+import type { SavedWorkflow } from "./types";
+
+/**
+ * Saved workflows live on the server (see lib/server/storage). Workflows an
+ * earlier version saved in this browser's localStorage are uploaded once,
+ * the first time the list is loaded. Ones the server rejects are set aside
+ * under `REJECTED_STORAGE_KEY` instead of blocking the others.
+ */
+
+export const WORKFLOWS_API = "/api/workflows";
+const LEGACY_STORAGE_KEY = "n8n-workflows";
+const REJECTED_STORAGE_KEY = "n8n-workflows-rejected";
+
+export type SavedWorkflowInput = Omit<SavedWorkflow, "id" | "timestamp">;
+
+let migration: Promise<void> | null = null;
+
+async function migrateLocalWorkflows() {
+  const stored = typeof window === "undefined" ? null : localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!stored) return;
+
+  const pending = JSON.parse(stored) as SavedWorkflow[];
+  const rejected: SavedWorkflow[] = [];
+  try {
+    while (pending.length > 0) {
+      const workflow = pending[0];
+      const response = await fetch(WORKFLOWS_API, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(workflow),
+      });
+      // 409: uploaded before, e.g. from another tab
+      if (!response.ok && response.status !== 409) {
+        const result = await response.json().catch(() => ({}));
+        const message = result.error || `Failed to upload workflow "${workflow.name}"`;
+        // Server errors may go away; the workflow is tried again next time
+        if (response.status >= 500) {
+          throw new Error(message);
+        }
+        console.warn(`Saved workflow "${workflow.name}" couldn't be moved to the server: ${message}`);
+        rejected.push(workflow);
+      }
+      pending.shift();
+    }
+  } finally {
+    if (pending.length > 0) {
+      localStorage.setItem(LEGACY_STORAGE_KEY, JSON.stringify(pending));
+    } else {
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+    }
+    if (rejected.length > 0) {
+      const previous = JSON.parse(localStorage.getItem(REJECTED_STORAGE_KEY) ?? "[]");
+      localStorage.setItem(REJECTED_STORAGE_KEY, JSON.stringify([...previous, ...rejected]));
+    }
+  }
+}
+
+const migrateOnce = () => {
+  migration ??= migrateLocalWorkflows().catch((error) => {
+    migration = null;
+    console.error("Failed to move saved workflows to the server:", error);
+  });
+  return migration;
+};
+
+export async function fetchSavedWorkflows(): Promise<SavedWorkflow[]> {
+  await migrateOnce();
+  const response = await fetch(WORKFLOWS_API);
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || "Failed to load saved workflows");
+  }
+  return result.workflows as SavedWorkflow[];
+}
+
+/** Returns a saved workflow, or null if it doesn't exist. */
+export async function fetchSavedWorkflow(id: string): Promise<SavedWorkflow | null> {
+  await migrateOnce();
+  const response = await fetch(`${WORKFLOWS_API}/${encodeURIComponent(id)}`);
+  if (response.status === 404) {
+    return null;
+  }
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || "Failed to load the workflow");
+  }
+  return result.workflow as SavedWorkflow;
+}
+
+export async function createSavedWorkflow(input: SavedWorkflowInput): Promise<SavedWorkflow> {
+  const response = await fetch(WORKFLOWS_API, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || "Failed to save the workflow");
+  }
+  return result.workflow as SavedWorkflow;
+}
+
+/** Replaces a saved workflow; returns null if it no longer exists. */
+export async function updateSavedWorkflow(
+  id: string,
+  input: SavedWorkflowInput
+): Promise<SavedWorkflow | null> {
+  const response = await fetch(`${WORKFLOWS_API}/${encodeURIComponent(id)}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  });
+  if (response.status === 404) {
+    return null;
+  }
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || "Failed to save the workflow");
+  }
+  return result.workflow as SavedWorkflow;
+}
+
+export async function removeSavedWorkflow(id: string): Promise<void> {
+  const response = await fetch(`${WORKFLOWS_API}/${encodeURIComponent(id)}`, {
+    method: "DELETE",
+  });
+  if (!response.ok) {
+    const result = await response.json();
+    throw new Error(result.error || "Failed to delete the workflow");
+  }
+}
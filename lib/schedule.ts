@@ -0,0 +1,231 @@
+import type { ScheduleMode, WorkflowNode } from "./types";
+import { getTimeZoneOffset, wallClockToTimestamp } from "./delay";
+
+/**
+ * Schedule triggers of active workflows are fired by the server. Cron
+ * expressions use the usual five fields (minute, hour, day of month, month,
+ * day of week) and are read in the node's time zone, or the server's.
+ */
+
+export const scheduleUnits: Record<string, number> = {
+  minutes: 60_000,
+  hours: 3_600_000,
+  days: 86_400_000,
+};
+
+/** Output of a Schedule Trigger fired by the server. */
+export interface ScheduleTriggerOutput {
+  /** When the run was due, as an ISO timestamp. */
+  scheduledAt: string;
+  /** When it actually started. */
+  firedAt: string;
+  cron?: string;
+  interval?: string;
+  timezone?: string;
+}
+
+interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Cron matches either day field when both are restricted. */
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const cronMacros: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+const monthNames = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const dayNames = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+const cronFields = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12, names: monthNames },
+  { name: "day of week", min: 0, max: 7, names: dayNames },
+];
+
+/** Cron searches give up after this long, e.g. for `0 0 30 2 *`. */
+const MAX_CRON_SEARCH_MS = 5 * 366 * 86_400_000;
+
+const parseCronField = (
+  source: string,
+  { name, min, max, names }: (typeof cronFields)[number]
+): Set<number> => {
+  const values = new Set<number>();
+  const toNumber = (text: string) => {
+    const index = names?.indexOf(text.toLowerCase()) ?? -1;
+    const value = index >= 0 ? index + min : /^\d+$/.test(text) ? Number(text) : NaN;
+    if (Number.isNaN(value) || value < min || value > max) {
+      throw new Error(`Invalid ${name} "${text}" in cron expression`);
+    }
+    return value;
+  };
+
+  for (const part of source.split(",")) {
+    const [range, stepText, ...rest] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (rest.length > 0 || !Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid ${name} "${part}" in cron expression`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      [start, end] = [min, max];
+    } else if (range.includes("-")) {
+      const [from, to] = range.split("-");
+      [start, end] = [toNumber(from), toNumber(to)];
+      if (start > end) {
+        throw new Error(`Invalid ${name} range "${range}" in cron expression`);
+      }
+    } else {
+      start = toNumber(range);
+      end = stepText === undefined ? start : max;
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+};
+
+/** Parses a five-field cron expression or a macro such as `@daily`. */
+export const parseCronExpression = (expression: string): CronSchedule => {
+  const source = expression.trim();
+  const fields = (cronMacros[source.toLowerCase()] ?? source).split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression "${source}" must have 5 fields`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+    parseCronField(field, cronFields[index])
+  );
+  // Both 0 and 7 mean Sunday
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2].startsWith("*"),
+    anyDayOfWeek: fields[4].startsWith("*"),
+  };
+};
+
+const matchesCronDay = (cron: CronSchedule, date: Date): boolean => {
+  const dayOfMonth = cron.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = cron.daysOfWeek.has(date.getUTCDay());
+  if (cron.anyDayOfMonth || cron.anyDayOfWeek) {
+    return dayOfMonth && dayOfWeek;
+  }
+  return dayOfMonth || dayOfWeek;
+};
+
+/**
+ * The first time after `after` matching `expression` in `timeZone`. The
+ * search runs over wall-clock time, so runs stay at the same local time
+ * across DST changes.
+ */
+export const getNextCronTime = (expression: string, after: number, timeZone?: string): number => {
+  const cron = parseCronExpression(expression);
+  const start = Math.floor((after + getTimeZoneOffset(after, timeZone)) / 60_000) * 60_000 + 60_000;
+  let wallClock = start;
+
+  while (wallClock - start < MAX_CRON_SEARCH_MS) {
+    const date = new Date(wallClock);
+    const [year, month, day, hour] = [
+      date.getUTCFullYear(),
+      date.getUTCMonth(),
+      date.getUTCDate(),
+      date.getUTCHours(),
+    ];
+    if (!cron.months.has(month + 1)) {
+      wallClock = Date.UTC(year, month + 1, 1);
+    } else if (!matchesCronDay(cron, date)) {
+      wallClock = Date.UTC(year, month, day + 1);
+    } else if (!cron.hours.has(hour)) {
+      wallClock = Date.UTC(year, month, day, hour + 1);
+    } else if (!cron.minutes.has(date.getUTCMinutes())) {
+      wallClock += 60_000;
+    } else {
+      const timestamp = wallClockToTimestamp(wallClock, timeZone);
+      // Wall-clock times repeated when clocks go back only run once
+      if (timestamp > after) {
+        return timestamp;
+      }
+      wallClock += 60_000;
+    }
+  }
+  throw new Error(`Cron expression "${expression.trim()}" never matches`);
+};
+
+export const getScheduleMode = (config?: Record<string, unknown>): ScheduleMode =>
+  config?.mode === "cron" ? "cron" : "interval";
+
+const getIntervalMs = (config: Record<string, unknown>): number => {
+  const interval = Number(config.interval);
+  const unit = String(config.unit ?? "minutes");
+  if (!Number.isFinite(interval) || interval <= 0) {
+    throw new Error(`Invalid interval "${String(config.interval ?? "")}"`);
+  }
+  if (!(unit in scheduleUnits)) {
+    throw new Error(`Unknown interval unit "${unit}"`);
+  }
+  return interval * scheduleUnits[unit];
+};
+
+/**
+ * The first run of a schedule trigger after `after`. Interval schedules
+ * count from `anchor`, e.g. the time the workflow was activated.
+ */
+export const getNextScheduledTime = (
+  config: Record<string, unknown> = {},
+  after: number,
+  anchor = after
+): number => {
+  if (getScheduleMode(config) === "cron") {
+    return getNextCronTime(String(config.cron ?? ""), after, String(config.timezone ?? ""));
+  }
+  const interval = getIntervalMs(config);
+  return anchor + (Math.floor(Math.max(after - anchor, 0) / interval) + 1) * interval;
+};
+
+/** Returns a description of the first problem with a Schedule Trigger's config, or null. */
+export const getScheduleConfigProblem = (config: Record<string, unknown> = {}): string | null => {
+  try {
+    if (getScheduleMode(config) === "cron" && !String(config.cron ?? "").trim()) {
+      return "needs a cron expression";
+    }
+    getNextScheduledTime(config, Date.now());
+    return null;
+  } catch (error) {
+    return `has an invalid schedule: ${error instanceof Error ? error.message : "unknown error"}`;
+  }
+};
+
+/** Readable summary of a schedule, e.g. "every 5 minutes". */
+export const describeSchedule = (config: Record<string, unknown> = {}): string => {
+  const timeZone = String(config.timezone ?? "").trim();
+  if (getScheduleMode(config) === "cron") {
+    return `cron "${String(config.cron ?? "").trim()}"${timeZone ? ` (${timeZone})` : ""}`;
+  }
+  return `every ${String(config.interval ?? "")} ${String(config.unit ?? "minutes")}`;
+};
+
+export const getScheduleNodes = (nodes: WorkflowNode[]): WorkflowNode[] =>
+  nodes.filter((node) => node.data.type === "schedule");
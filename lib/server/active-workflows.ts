@@ -0,0 +1,192 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+import {
+  collectSubWorkflows,
+  type ActivateWorkflowInput,
+  type ActiveWorkflow,
+  type ActiveWorkflowSummary,
+} from "../active-workflows";
+import {
+  getWebhookMethod,
+  getWebhookNodes,
+  getWebhookRoute,
+  matchWebhookPath,
+  normalizeWebhookPath,
+} from "../webhooks";
+import { describeSchedule, getScheduleConfigProblem, getScheduleNodes } from "../schedule";
+import type { WorkflowNode, WorkflowVariables } from "../types";
+import { describeBlockingIssues, hasBlockingIssues, validateWorkflow } from "../workflow-validation";
+import { getStorage } from "./storage";
+
+/**
+ * Server-side store of active workflows, kept in a JSON file
+ * (`ACTIVE_WORKFLOWS_FILE`, default `.data/active-workflows.json`). Their
+ * webhook triggers are served by `app/api/webhook/[...path]` and their
+ * schedule triggers fired by the scheduler in `./schedules`.
+ */
+
+export class ActiveWorkflowError extends Error {
+  constructor(message: string, public readonly status = 400) {
+    super(message);
+    this.name = "ActiveWorkflowError";
+  }
+}
+
+const getActiveWorkflowsFile = () =>
+  process.env.ACTIVE_WORKFLOWS_FILE || path.join(process.cwd(), ".data", "active-workflows.json");
+
+async function readActiveWorkflows(): Promise<ActiveWorkflow[]> {
+  try {
+    return JSON.parse(await readFile(getActiveWorkflowsFile(), "utf8")) as ActiveWorkflow[];
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+}
+
+// Writes go through a queue and a temp file so concurrent requests can't
+// interleave and a crash never leaves a half-written file behind.
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+function updateActiveWorkflows<T>(
+  update: (workflows: ActiveWorkflow[]) => { workflows: ActiveWorkflow[]; result: T }
+): Promise<T> {
+  const run = writeQueue.then(async () => {
+    const { workflows, result } = update(await readActiveWorkflows());
+    const file = getActiveWorkflowsFile();
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(`${file}.tmp`, JSON.stringify(workflows), { mode: 0o600 });
+    await rename(`${file}.tmp`, file);
+    return result;
+  });
+  writeQueue = run.catch(() => undefined);
+  return run;
+}
+
+const toSummary = ({ workflow, activatedAt }: ActiveWorkflow): ActiveWorkflowSummary => ({
+  id: workflow.id,
+  name: workflow.name,
+  activatedAt,
+  webhooks: getWebhookNodes(workflow.nodes).map(
+    (node) => `${getWebhookMethod(node.data.config)} ${normalizeWebhookPath(node.data.config?.path)}`
+  ),
+  schedules: getScheduleNodes(workflow.nodes).map((node) => describeSchedule(node.data.config)),
+});
+
+export async function getActiveWorkflows(): Promise<ActiveWorkflow[]> {
+  return readActiveWorkflows();
+}
+
+export async function listActiveWorkflows(): Promise<ActiveWorkflowSummary[]> {
+  return (await readActiveWorkflows()).map(toSummary);
+}
+
+export async function getActiveWorkflow(id: string): Promise<ActiveWorkflow | null> {
+  return (await readActiveWorkflows()).find((active) => active.workflow.id === id) ?? null;
+}
+
+/**
+ * Activates `input.workflow`, replacing the previous snapshot if it was
+ * already active. Workflows the editor wouldn't run can't be activated, and
+ * two active webhooks can't listen on the same route.
+ */
+export async function activateWorkflow(input: ActivateWorkflowInput): Promise<ActiveWorkflowSummary> {
+  const issues = validateWorkflow(input.workflow.nodes, input.workflow.edges);
+  if (hasBlockingIssues(issues)) {
+    throw new ActiveWorkflowError(describeBlockingIssues(issues));
+  }
+  const webhooks = getWebhookNodes(input.workflow.nodes);
+  const schedules = getScheduleNodes(input.workflow.nodes);
+  if (webhooks.length === 0 && schedules.length === 0) {
+    throw new ActiveWorkflowError("The workflow has no webhook or schedule trigger");
+  }
+  for (const node of schedules) {
+    const problem = getScheduleConfigProblem(node.data.config);
+    if (problem) {
+      throw new ActiveWorkflowError(`"${node.data.label}" ${problem}`);
+    }
+  }
+  const routes = webhooks.map(getWebhookRoute);
+  const duplicate = routes.find((route, index) => routes.indexOf(route) !== index);
+  if (duplicate) {
+    throw new ActiveWorkflowError(`More than one webhook listens on ${duplicate}`);
+  }
+
+  const active: ActiveWorkflow = { ...input, activatedAt: Date.now() };
+  return updateActiveWorkflows((workflows) => {
+    const others = workflows.filter((candidate) => candidate.workflow.id !== input.workflow.id);
+    for (const other of others) {
+      const conflict = getWebhookNodes(other.workflow.nodes)
+        .map(getWebhookRoute)
+        .find((route) => routes.includes(route));
+      if (conflict) {
+        throw new ActiveWorkflowError(
+          `Active workflow "${other.workflow.name}" already listens on ${conflict}`,
+          409
+        );
+      }
+    }
+    return { workflows: [...others, active], result: toSummary(active) };
+  });
+}
+
+/**
+ * Activates the stored workflow `id`, along with snapshots of the stored
+ * workflows its Execute Workflow nodes run.
+ */
+export async function activateStoredWorkflow(
+  id: string,
+  globalVariables?: WorkflowVariables
+): Promise<ActiveWorkflowSummary> {
+  const storage = getStorage();
+  const workflow = await storage.getWorkflow(id);
+  if (!workflow) {
+    throw new ActiveWorkflowError("Workflow not found", 404);
+  }
+  return activateWorkflow({
+    workflow,
+    subWorkflows: collectSubWorkflows(workflow, await storage.listWorkflows()),
+    globalVariables,
+  });
+}
+
+export async function deactivateWorkflow(id: string): Promise<void> {
+  await updateActiveWorkflows((workflows) => {
+    if (!workflows.some((candidate) => candidate.workflow.id === id)) {
+      throw new ActiveWorkflowError("Workflow is not active", 404);
+    }
+    return {
+      workflows: workflows.filter((candidate) => candidate.workflow.id !== id),
+      result: undefined,
+    };
+  });
+}
+
+export interface WebhookTarget {
+  active: ActiveWorkflow;
+  node: WorkflowNode;
+  params: Record<string, string>;
+}
+
+/**
+ * The active webhook node listening on `method` and `path`, if any. Paths
+ * with fewer `:param` segments win, so `/orders/new` beats `/orders/:id`.
+ */
+export async function findWebhookTarget(
+  method: string,
+  path: string
+): Promise<WebhookTarget | null> {
+  let best: WebhookTarget | null = null;
+  for (const active of await readActiveWorkflows()) {
+    for (const node of getWebhookNodes(active.workflow.nodes)) {
+      if (getWebhookMethod(node.data.config) !== method.toUpperCase()) continue;
+      const params = matchWebhookPath(String(node.data.config?.path ?? ""), path);
+      if (params && (!best || Object.keys(params).length < Object.keys(best.params).length)) {
+        best = { active, node, params };
+      }
+    }
+  }
+  return best;
+}
@@ -0,0 +1,340 @@
+import { createCipheriv, createDecipheriv, randomBytes, randomUUID } from "crypto";
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+import {
+  credentialTypes,
+  isUrlAllowed,
+  normalizeAllowedUrl,
+  type CredentialData,
+  type CredentialInput,
+  type CredentialSummary,
+} from "../credentials";
+
+/**
+ * Server-only credential store. Secrets are encrypted with AES-256-GCM using
+ * the key in `CREDENTIALS_ENCRYPTION_KEY` (32 bytes, hex or base64) and kept
+ * in a JSON file (`CREDENTIALS_FILE`, default `.data/credentials.json`).
+ * A credential is only added to requests to its allowed URLs, so a workflow
+ * can't send it to a host that echoes it back.
+ */
+
+interface StoredCredential extends CredentialSummary {
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+export class CredentialError extends Error {
+  constructor(message: string, public readonly status = 400) {
+    super(message);
+    this.name = "CredentialError";
+  }
+}
+
+const ALGORITHM = "aes-256-gcm";
+
+const getCredentialsFile = () =>
+  process.env.CREDENTIALS_FILE || path.join(process.cwd(), ".data", "credentials.json");
+
+const getEncryptionKey = (): Buffer => {
+  const raw = process.env.CREDENTIALS_ENCRYPTION_KEY?.trim();
+  if (!raw) {
+    throw new CredentialError(
+      "CREDENTIALS_ENCRYPTION_KEY is not configured. Generate one with `openssl rand -hex 32` and add it to .env",
+      500
+    );
+  }
+
+  const key = /^[0-9a-f]{64}$/i.test(raw) ? Buffer.from(raw, "hex") : Buffer.from(raw, "base64");
+  if (key.length !== 32) {
+    throw new CredentialError(
+      "CREDENTIALS_ENCRYPTION_KEY must be 32 bytes, encoded as hex or base64",
+      500
+    );
+  }
+  return key;
+};
+
+const encrypt = (data: CredentialData) => {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, getEncryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(JSON.stringify(data), "utf8"), cipher.final()]);
+  return {
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: encrypted.toString("base64"),
+  };
+};
+
+const decrypt = (credential: StoredCredential): CredentialData => {
+  try {
+    const decipher = createDecipheriv(
+      ALGORITHM,
+      getEncryptionKey(),
+      Buffer.from(credential.iv, "base64")
+    );
+    decipher.setAuthTag(Buffer.from(credential.tag, "base64"));
+    const decrypted = Buffer.concat([
+      decipher.update(Buffer.from(credential.data, "base64")),
+      decipher.final(),
+    ]);
+    return JSON.parse(decrypted.toString("utf8")) as CredentialData;
+  } catch (error) {
+    if (error instanceof CredentialError) throw error;
+    throw new CredentialError(
+      `Credential "${credential.name}" could not be decrypted. Was the encryption key changed?`,
+      500
+    );
+  }
+};
+
+const toSummary = ({
+  id,
+  name,
+  type,
+  allowedUrls,
+  createdAt,
+  updatedAt,
+}: StoredCredential): CredentialSummary => ({
+  id,
+  name,
+  type,
+  // Credentials stored before allowed URLs existed have none
+  allowedUrls: allowedUrls ?? [],
+  createdAt,
+  updatedAt,
+});
+
+async function readCredentials(): Promise<StoredCredential[]> {
+  try {
+    return JSON.parse(await readFile(getCredentialsFile(), "utf8")) as StoredCredential[];
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+}
+
+// Writes go through a queue and a temp file so concurrent requests can't
+// interleave and a crash never leaves a half-written file behind.
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+function updateCredentials<T>(
+  update: (credentials: StoredCredential[]) => { credentials: StoredCredential[]; result: T }
+): Promise<T> {
+  const run = writeQueue.then(async () => {
+    const { credentials, result } = update(await readCredentials());
+    const file = getCredentialsFile();
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(`${file}.tmp`, JSON.stringify(credentials, null, 2), { mode: 0o600 });
+    await rename(`${file}.tmp`, file);
+    return result;
+  });
+  writeQueue = run.catch(() => undefined);
+  return run;
+}
+
+const validateData = (input: CredentialInput) => {
+  const definition = credentialTypes[input.type];
+  if (!definition) {
+    throw new CredentialError(`Unknown credential type: ${input.type}`);
+  }
+  const missing = definition.fields.find(
+    (field) => field.required && !input.data[field.name]?.trim()
+  );
+  if (missing) {
+    throw new CredentialError(`${definition.label} credentials need a ${missing.label}`);
+  }
+  return Object.fromEntries(
+    definition.fields
+      .filter((field) => input.data[field.name] !== undefined)
+      .map((field) => [field.name, input.data[field.name]])
+  );
+};
+
+const validateAllowedUrls = (allowedUrls: string[]) => {
+  if (allowedUrls.length === 0) {
+    throw new CredentialError("Add at least one URL the credential may be sent to");
+  }
+  return allowedUrls.map((allowed) => {
+    const normalized = normalizeAllowedUrl(allowed);
+    if (!normalized) {
+      throw new CredentialError(`"${allowed}" is not an http(s) URL`);
+    }
+    return normalized;
+  });
+};
+
+export async function listCredentials(): Promise<CredentialSummary[]> {
+  return (await readCredentials()).map(toSummary);
+}
+
+export async function createCredential(input: CredentialInput): Promise<CredentialSummary> {
+  const data = validateData(input);
+  const allowedUrls = validateAllowedUrls(input.allowedUrls);
+  const now = new Date().toISOString();
+  const credential: StoredCredential = {
+    id: randomUUID(),
+    name: input.name,
+    type: input.type,
+    allowedUrls,
+    createdAt: now,
+    updatedAt: now,
+    ...encrypt(data),
+  };
+
+  return updateCredentials((credentials) => ({
+    credentials: [...credentials, credential],
+    result: toSummary(credential),
+  }));
+}
+
+/**
+ * Renames a credential, changes its allowed URLs and/or replaces some of its
+ * values. Values left out (or empty) keep their stored value, so secrets
+ * don't have to be re-entered.
+ */
+export async function updateCredential(
+  id: string,
+  changes: { name?: string; allowedUrls?: string[]; data?: CredentialData }
+): Promise<CredentialSummary> {
+  tokenCache.delete(id);
+  const allowedUrls = changes.allowedUrls && validateAllowedUrls(changes.allowedUrls);
+
+  return updateCredentials((credentials) => {
+    const existing = credentials.find((credential) => credential.id === id);
+    if (!existing) {
+      throw new CredentialError("Credential not found", 404);
+    }
+
+    const providedData = Object.fromEntries(
+      Object.entries(changes.data ?? {}).filter(([, value]) => value !== "")
+    );
+    const data = validateData({
+      name: existing.name,
+      type: existing.type,
+      allowedUrls: allowedUrls ?? existing.allowedUrls ?? [],
+      data: { ...decrypt(existing), ...providedData },
+    });
+    const updated: StoredCredential = {
+      ...existing,
+      name: changes.name ?? existing.name,
+      allowedUrls: allowedUrls ?? existing.allowedUrls ?? [],
+      updatedAt: new Date().toISOString(),
+      ...encrypt(data),
+    };
+
+    return {
+      credentials: credentials.map((credential) => (credential.id === id ? updated : credential)),
+      result: toSummary(updated),
+    };
+  });
+}
+
+export async function deleteCredential(id: string): Promise<void> {
+  tokenCache.delete(id);
+
+  await updateCredentials((credentials) => {
+    if (!credentials.some((credential) => credential.id === id)) {
+      throw new CredentialError("Credential not found", 404);
+    }
+    return {
+      credentials: credentials.filter((credential) => credential.id !== id),
+      result: undefined,
+    };
+  });
+}
+
+// OAuth2 access tokens, reused until shortly before they expire.
+const tokenCache = new Map<string, { token: string; expiresAt: number }>();
+const TOKEN_EXPIRY_MARGIN = 30_000;
+
+async function fetchClientCredentialsToken(
+  id: string,
+  data: CredentialData,
+  signal?: AbortSignal
+): Promise<string> {
+  const cached = tokenCache.get(id);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.token;
+  }
+
+  const response = await fetch(data.tokenUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded", Accept: "application/json" },
+    body: new URLSearchParams({
+      grant_type: "client_credentials",
+      client_id: data.clientId,
+      client_secret: data.clientSecret,
+      ...(data.scope ? { scope: data.scope } : {}),
+    }),
+    signal,
+  });
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok || typeof result.access_token !== "string") {
+    throw new CredentialError(
+      `OAuth2 token request failed with status ${response.status}`,
+      502
+    );
+  }
+
+  const expiresIn = Number(result.expires_in);
+  tokenCache.set(id, {
+    token: result.access_token,
+    expiresAt: Number.isFinite(expiresIn)
+      ? Date.now() + expiresIn * 1000 - TOKEN_EXPIRY_MARGIN
+      : Date.now() + 5 * 60_000,
+  });
+  return result.access_token;
+}
+
+/**
+ * Headers that authenticate a request to `url` with the given credential.
+ * Fails with a 403 if `url` isn't one of the credential's allowed URLs.
+ */
+export async function getCredentialHeaders(
+  id: string,
+  url: string,
+  signal?: AbortSignal
+): Promise<Record<string, string>> {
+  const credential = (await readCredentials()).find((stored) => stored.id === id);
+  if (!credential) {
+    throw new CredentialError("Credential not found", 404);
+  }
+  const allowedUrls = credential.allowedUrls ?? [];
+  if (allowedUrls.length === 0) {
+    throw new CredentialError(
+      `Credential "${credential.name}" has no allowed URLs. Edit it to add the URLs it may be sent to`,
+      403
+    );
+  }
+  if (!isUrlAllowed(url, allowedUrls)) {
+    throw new CredentialError(
+      `Credential "${credential.name}" may only be sent to ${allowedUrls.join(", ")}`,
+      403
+    );
+  }
+
+  const data = decrypt(credential);
+
+  switch (credential.type) {
+    case "bearer":
+      return { Authorization: `Bearer ${data.token}` };
+
+    case "basic":
+      return {
+        Authorization: `Basic ${Buffer.from(`${data.username}:${data.password}`).toString("base64")}`,
+      };
+
+    case "apiKeyHeader":
+      return { [data.headerName]: data.value };
+
+    case "oauth2ClientCredentials":
+      return { Authorization: `Bearer ${await fetchClientCredentialsToken(id, data, signal)}` };
+
+    default:
+      throw new CredentialError(`Unknown credential type: ${credential.type}`);
+  }
+}
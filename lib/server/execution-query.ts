@@ -0,0 +1,144 @@
+import { z } from "zod";
+import {
+  DEFAULT_EXECUTION_PAGE_SIZE,
+  MAX_EXECUTION_PAGE_SIZE,
+  executionModes,
+  executionStatuses,
+  getExecutionMode,
+  type ExecutionLog,
+  type ExecutionPage,
+  type ExecutionQuery,
+} from "../execution-history";
+import { StorageError } from "./storage";
+
+/**
+ * Validation of execution logs sent to the API, and filtering and cursor
+ * pagination for storage backends that list executions in memory. Pages
+ * are ordered newest first, with the id breaking ties; a cursor is the
+ * position of the last execution of the previous page, so pages stay
+ * stable while new executions come in.
+ */
+
+const nodeResultSchema = z.looseObject({
+  nodeId: z.string(),
+  nodeName: z.string(),
+  status: z.enum(["success", "error", "skipped", "cancelled", "waiting"]),
+  output: z.json().optional(),
+  error: z.string().optional(),
+  duration: z.number(),
+  startedAt: z.number().optional(),
+  finishedAt: z.number().optional(),
+  attempts: z
+    .array(
+      z.object({
+        attempt: z.number(),
+        startedAt: z.number(),
+        finishedAt: z.number(),
+        success: z.boolean(),
+        error: z.string().optional(),
+        statusCode: z.number().optional(),
+      })
+    )
+    .optional(),
+  pinned: z.boolean().optional(),
+  inputItems: z.number().optional(),
+  outputItems: z.number().optional(),
+  subExecutionId: z.string().optional(),
+  logs: z
+    .array(z.object({ level: z.enum(["log", "info", "warn", "error"]), message: z.string() }))
+    .optional(),
+});
+
+export const waitingNodeSchema = z.object({
+  nodeId: z.string().min(1),
+  input: z.unknown(),
+  resumeAt: z.number().optional(),
+  webhookToken: z.string().min(16).optional(),
+});
+
+/** Fields of `executionLogSchema`, for schemas of more specific logs. */
+export const executionLogFields = {
+  id: z.string().min(1, "Execution id is required"),
+  timestamp: z.number(),
+  duration: z.number(),
+  status: z.enum(executionStatuses),
+  nodesExecuted: z.number(),
+  totalNodes: z.number(),
+  results: z.array(nodeResultSchema),
+  errorMessage: z.string().optional(),
+  workflowId: z.string().optional(),
+  workflowName: z.string().optional(),
+  parentExecutionId: z.string().optional(),
+  wait: z
+    .object({
+      nodes: z.array(waitingNodeSchema),
+      nodeOutputs: z.record(z.string(), z.unknown()),
+    })
+    .optional(),
+  mode: z.enum(executionModes).optional(),
+  trigger: z
+    .object({
+      type: z.enum(["webhook", "schedule", "api"]),
+      nodeId: z.string().optional(),
+      scheduledAt: z.number().optional(),
+      firedAt: z.number(),
+    })
+    .optional(),
+};
+
+/** Execution logs sent by the editor to be saved. */
+export const executionLogSchema: z.ZodType<ExecutionLog> = z.looseObject(executionLogFields);
+
+type CursorPosition = [timestamp: number, id: string];
+
+export const compareExecutions = (a: ExecutionLog, b: ExecutionLog) =>
+  b.timestamp - a.timestamp || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+
+const encodeCursor = (log: ExecutionLog) =>
+  Buffer.from(JSON.stringify([log.timestamp, log.id] satisfies CursorPosition)).toString(
+    "base64url"
+  );
+
+function decodeCursor(cursor: string): CursorPosition {
+  try {
+    const position = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (
+      Array.isArray(position) &&
+      position.length === 2 &&
+      typeof position[0] === "number" &&
+      typeof position[1] === "string"
+    ) {
+      return position as CursorPosition;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new StorageError("Invalid cursor");
+}
+
+const isAfterCursor = (log: ExecutionLog, [timestamp, id]: CursorPosition) =>
+  log.timestamp < timestamp || (log.timestamp === timestamp && log.id < id);
+
+export const matchesExecutionQuery = (log: ExecutionLog, query: ExecutionQuery) =>
+  (!query.status || log.status === query.status) &&
+  (!query.workflowId || log.workflowId === query.workflowId) &&
+  (!query.mode || getExecutionMode(log) === query.mode) &&
+  (query.from === undefined || log.timestamp >= query.from) &&
+  (query.to === undefined || log.timestamp <= query.to);
+
+export function queryExecutions(executions: ExecutionLog[], query: ExecutionQuery): ExecutionPage {
+  const limit = Math.min(
+    Math.max(Math.floor(query.limit ?? DEFAULT_EXECUTION_PAGE_SIZE), 1),
+    MAX_EXECUTION_PAGE_SIZE
+  );
+  const cursor = query.cursor ? decodeCursor(query.cursor) : null;
+  const matches = executions
+    .filter((log) => matchesExecutionQuery(log, query) && (!cursor || isAfterCursor(log, cursor)))
+    .sort(compareExecutions);
+
+  const page = matches.slice(0, limit);
+  return {
+    executions: page,
+    nextCursor: matches.length > limit ? encodeCursor(page[page.length - 1]) : null,
+  };
+}
@@ -0,0 +1,139 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+import {
+  toStoredLog,
+  type ExecutionLog,
+  type ExecutionPage,
+  type ExecutionQuery,
+} from "../execution-history";
+import type { SavedWorkflow } from "../types";
+import { compareExecutions, queryExecutions } from "./execution-query";
+import { applyRetention, type RetentionPolicy } from "./retention";
+import { StorageError, type Storage } from "./storage";
+
+/**
+ * A JSON array kept in one file. Writes go through a queue and a temp file
+ * so concurrent requests can't interleave and a crash never leaves a
+ * half-written file behind.
+ */
+class JsonFile<T> {
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly file: string) {}
+
+  async read(): Promise<T[]> {
+    try {
+      return JSON.parse(await readFile(this.file, "utf8")) as T[];
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  update<R>(update: (entries: T[]) => { entries: T[]; result: R }): Promise<R> {
+    const run = this.writeQueue.then(async () => {
+      const { entries, result } = update(await this.read());
+      await mkdir(path.dirname(this.file), { recursive: true });
+      await writeFile(`${this.file}.tmp`, JSON.stringify(entries), { mode: 0o600 });
+      await rename(`${this.file}.tmp`, this.file);
+      return result;
+    });
+    this.writeQueue = run.catch(() => undefined);
+    return run;
+  }
+}
+
+/**
+ * Keeps workflows and executions in `workflows.json` and `executions.json`.
+ * Executions are pruned by `retention` whenever one is saved.
+ */
+export class FileStorage implements Storage {
+  private readonly workflows: JsonFile<SavedWorkflow>;
+  private readonly executions: JsonFile<ExecutionLog>;
+
+  constructor(directory: string, private readonly retention: RetentionPolicy) {
+    this.workflows = new JsonFile(path.join(directory, "workflows.json"));
+    this.executions = new JsonFile(path.join(directory, "executions.json"));
+  }
+
+  async listWorkflows(): Promise<SavedWorkflow[]> {
+    return (await this.workflows.read()).sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  async getWorkflow(id: string): Promise<SavedWorkflow | null> {
+    return (await this.workflows.read()).find((workflow) => workflow.id === id) ?? null;
+  }
+
+  createWorkflow(workflow: SavedWorkflow): Promise<SavedWorkflow> {
+    return this.workflows.update((workflows) => {
+      if (workflows.some((candidate) => candidate.id === workflow.id)) {
+        throw new StorageError(`Workflow ${workflow.id} already exists`, 409);
+      }
+      return { entries: [...workflows, workflow], result: workflow };
+    });
+  }
+
+  updateWorkflow(workflow: SavedWorkflow): Promise<SavedWorkflow> {
+    return this.workflows.update((workflows) => {
+      if (!workflows.some((candidate) => candidate.id === workflow.id)) {
+        throw new StorageError("Workflow not found", 404);
+      }
+      return {
+        entries: workflows.map((candidate) => (candidate.id === workflow.id ? workflow : candidate)),
+        result: workflow,
+      };
+    });
+  }
+
+  deleteWorkflow(id: string): Promise<void> {
+    return this.workflows.update((workflows) => {
+      if (!workflows.some((candidate) => candidate.id === id)) {
+        throw new StorageError("Workflow not found", 404);
+      }
+      return { entries: workflows.filter((candidate) => candidate.id !== id), result: undefined };
+    });
+  }
+
+  async listExecutions(query: ExecutionQuery = {}): Promise<ExecutionPage> {
+    return queryExecutions(await this.executions.read(), query);
+  }
+
+  async getExecution(id: string): Promise<ExecutionLog | null> {
+    return (await this.executions.read()).find((log) => log.id === id) ?? null;
+  }
+
+  saveExecution(log: ExecutionLog): Promise<ExecutionLog> {
+    const stored = toStoredLog(log);
+    return this.executions.update((executions) => ({
+      entries: applyRetention(
+        [stored, ...executions.filter((candidate) => candidate.id !== log.id)].sort(
+          compareExecutions
+        ),
+        this.retention
+      ),
+      result: stored,
+    }));
+  }
+
+  deleteExecution(id: string): Promise<void> {
+    return this.executions.update((executions) => {
+      if (!executions.some((candidate) => candidate.id === id)) {
+        throw new StorageError("Execution not found", 404);
+      }
+      return { entries: executions.filter((candidate) => candidate.id !== id), result: undefined };
+    });
+  }
+
+  clearExecutions(): Promise<void> {
+    return this.executions.update(() => ({ entries: [], result: undefined }));
+  }
+
+  pruneExecutions(): Promise<number> {
+    return this.executions.update((executions) => {
+      const entries = applyRetention(executions, this.retention);
+      return { entries, result: executions.length - entries.length };
+    });
+  }
+}
@@ -0,0 +1,69 @@
+import type { ExecutionLog } from "../execution-history";
+
+/**
+ * How long execution logs are kept. Limits of 0 turn the limit off. Failed
+ * executions have their own age limit so they can be kept around longer for
+ * debugging, and are the last to go when there are too many executions.
+ * Running and waiting executions are never pruned.
+ */
+export interface RetentionPolicy {
+  /** Most executions to keep. */
+  maxCount: number;
+  /** Age after which executions are deleted. */
+  maxAgeMs: number;
+  /** Age after which failed executions are deleted. */
+  failedMaxAgeMs: number;
+}
+
+const DAY_MS = 86_400_000;
+
+const parseLimit = (value: string | undefined, fallback: number) => {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+/**
+ * Reads the policy from `EXECUTIONS_MAX_COUNT` (default 1000),
+ * `EXECUTIONS_MAX_AGE_DAYS` (default 30) and `EXECUTIONS_FAILED_MAX_AGE_DAYS`
+ * (default 90).
+ */
+export const getRetentionPolicy = (): RetentionPolicy => ({
+  maxCount: parseLimit(process.env.EXECUTIONS_MAX_COUNT, 1000),
+  maxAgeMs: parseLimit(process.env.EXECUTIONS_MAX_AGE_DAYS, 30) * DAY_MS,
+  failedMaxAgeMs: parseLimit(process.env.EXECUTIONS_FAILED_MAX_AGE_DAYS, 90) * DAY_MS,
+});
+
+const isUnfinished = (log: ExecutionLog) => log.status === "running" || log.status === "waiting";
+
+const isFailed = (log: ExecutionLog) => log.status === "error";
+
+/** The executions `policy` keeps, in their original order. */
+export function applyRetention(
+  executions: ExecutionLog[],
+  policy: RetentionPolicy,
+  now = Date.now()
+): ExecutionLog[] {
+  const kept = executions.filter((log) => {
+    if (isUnfinished(log)) return true;
+    const maxAgeMs = isFailed(log) ? policy.failedMaxAgeMs : policy.maxAgeMs;
+    return maxAgeMs === 0 || now - log.timestamp <= maxAgeMs;
+  });
+
+  let excess = policy.maxCount === 0 ? 0 : kept.length - policy.maxCount;
+  if (excess <= 0) {
+    return kept;
+  }
+
+  const dropped = new Set<ExecutionLog>();
+  const oldestFirst = [...kept].sort((a, b) => a.timestamp - b.timestamp);
+  for (const failed of [false, true]) {
+    for (const log of oldestFirst) {
+      if (excess === 0) break;
+      if (!isUnfinished(log) && isFailed(log) === failed) {
+        dropped.add(log);
+        excess--;
+      }
+    }
+  }
+  return kept.filter((log) => !dropped.has(log));
+}
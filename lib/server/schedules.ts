@@ -0,0 +1,123 @@
+import type { ActiveWorkflow } from "../active-workflows";
+import {
+  getNextScheduledTime,
+  getScheduleMode,
+  getScheduleNodes,
+  type ScheduleTriggerOutput,
+} from "../schedule";
+import { getActiveWorkflows } from "./active-workflows";
+import { runWorkflow } from "./workflow-runs";
+
+/**
+ * Fires the schedule triggers of active workflows. Schedules are registered
+ * from the active workflow store on every tick, so activating, updating or
+ * deactivating a workflow takes effect within a second. A workflow doesn't
+ * start again while one of its scheduled runs is still going; runs that fall
+ * due meanwhile are skipped.
+ */
+
+const TICK_INTERVAL_MS = 1000;
+
+interface RegisteredSchedule {
+  workflowId: string;
+  nodeId: string;
+  /** Config and activation time the next run was computed from. */
+  signature: string;
+  nextRunAt: number;
+}
+
+const schedules = new Map<string, RegisteredSchedule>();
+/** Workflows with a scheduled run in progress. */
+const runningWorkflows = new Set<string>();
+
+const getSignature = (active: ActiveWorkflow, config: Record<string, unknown> = {}) =>
+  JSON.stringify([active.activatedAt, config]);
+
+function fireSchedule(active: ActiveWorkflow, nodeId: string, scheduledAt: number) {
+  const { workflow } = active;
+  const config = workflow.nodes.find((node) => node.id === nodeId)?.data.config ?? {};
+  const firedAt = Date.now();
+  const payload: ScheduleTriggerOutput = {
+    scheduledAt: new Date(scheduledAt).toISOString(),
+    firedAt: new Date(firedAt).toISOString(),
+    ...(getScheduleMode(config) === "cron"
+      ? { cron: String(config.cron ?? ""), timezone: String(config.timezone ?? "") || undefined }
+      : { interval: `${String(config.interval ?? "")} ${String(config.unit ?? "minutes")}` }),
+  };
+
+  runningWorkflows.add(workflow.id);
+  runWorkflow(active, { trigger: { type: "schedule", nodeId, scheduledAt, firedAt }, payload })
+    .catch((error) => console.error(`Scheduled run of workflow ${workflow.id} failed:`, error))
+    .finally(() => runningWorkflows.delete(workflow.id));
+}
+
+async function tick() {
+  const now = Date.now();
+  const registered = new Set<string>();
+
+  for (const active of await getActiveWorkflows()) {
+    for (const node of getScheduleNodes(active.workflow.nodes)) {
+      const key = `${active.workflow.id}:${node.id}`;
+      const signature = getSignature(active, node.data.config);
+      registered.add(key);
+
+      let schedule = schedules.get(key);
+      try {
+        if (!schedule || schedule.signature !== signature) {
+          schedule = {
+            workflowId: active.workflow.id,
+            nodeId: node.id,
+            signature,
+            nextRunAt: getNextScheduledTime(node.data.config, now, active.activatedAt),
+          };
+          schedules.set(key, schedule);
+        }
+        if (schedule.nextRunAt > now) continue;
+
+        const scheduledAt = schedule.nextRunAt;
+        schedule.nextRunAt = getNextScheduledTime(node.data.config, now, active.activatedAt);
+        if (runningWorkflows.has(active.workflow.id)) {
+          console.warn(
+            `Skipped scheduled run of workflow ${active.workflow.id}: the previous run is still going`
+          );
+          continue;
+        }
+        fireSchedule(active, node.id, scheduledAt);
+      } catch (error) {
+        // Activation checks schedules, so this only happens with stale data
+        console.error(`Invalid schedule on node ${node.id} of workflow ${active.workflow.id}:`, error);
+        schedules.set(key, { workflowId: active.workflow.id, nodeId: node.id, signature, nextRunAt: Infinity });
+      }
+    }
+  }
+
+  for (const key of schedules.keys()) {
+    if (!registered.has(key)) {
+      schedules.delete(key);
+    }
+  }
+}
+
+const schedulerState = globalThis as typeof globalThis & { __scheduleTriggerScheduler?: boolean };
+
+/**
+ * Starts firing schedule triggers. Safe to call more than once, e.g. when
+ * modules are reloaded in development.
+ */
+export function startScheduleTriggerScheduler() {
+  if (schedulerState.__scheduleTriggerScheduler) return;
+  schedulerState.__scheduleTriggerScheduler = true;
+
+  let ticking = false;
+  setInterval(async () => {
+    if (ticking) return;
+    ticking = true;
+    try {
+      await tick();
+    } catch (error) {
+      console.error("Failed to fire schedule triggers:", error);
+    } finally {
+      ticking = false;
+    }
+  }, TICK_INTERVAL_MS).unref();
+}
@@ -0,0 +1,79 @@
+import path from "path";
+import type { ExecutionLog, ExecutionPage, ExecutionQuery } from "../execution-history";
+import type { SavedWorkflow } from "../types";
+import { FileStorage } from "./file-storage";
+import { getRetentionPolicy } from "./retention";
+
+/**
+ * Persistence for saved workflows and execution logs, shared by the API
+ * routes and server-side runs. `getStorage()` returns the file
+ * implementation, which keeps its data in `DATA_DIR` (default `.data`);
+ * another backend such as SQLite only has to implement `Storage`. Old
+ * executions are pruned by the retention policy in `./retention`.
+ */
+
+export class StorageError extends Error {
+  constructor(message: string, public readonly status = 400) {
+    super(message);
+    this.name = "StorageError";
+  }
+}
+
+export interface WorkflowStorage {
+  /** Saved workflows, most recently saved first. */
+  listWorkflows(): Promise<SavedWorkflow[]>;
+  getWorkflow(id: string): Promise<SavedWorkflow | null>;
+  /** Fails with a 409 if a workflow with the same id exists. */
+  createWorkflow(workflow: SavedWorkflow): Promise<SavedWorkflow>;
+  /** Fails with a 404 if the workflow doesn't exist. */
+  updateWorkflow(workflow: SavedWorkflow): Promise<SavedWorkflow>;
+  deleteWorkflow(id: string): Promise<void>;
+}
+
+export interface ExecutionStorage {
+  /**
+   * A page of the execution logs matching `query`, newest first. Fails with
+   * a 400 if the cursor is invalid.
+   */
+  listExecutions(query?: ExecutionQuery): Promise<ExecutionPage>;
+  getExecution(id: string): Promise<ExecutionLog | null>;
+  /** Adds the log, or replaces the one with the same id. */
+  saveExecution(log: ExecutionLog): Promise<ExecutionLog>;
+  deleteExecution(id: string): Promise<void>;
+  clearExecutions(): Promise<void>;
+  /** Deletes the executions the retention policy no longer keeps; returns how many. */
+  pruneExecutions(): Promise<number>;
+}
+
+export interface Storage extends WorkflowStorage, ExecutionStorage {}
+
+let storage: Storage | undefined;
+
+export const getStorage = (): Storage => {
+  storage ??= new FileStorage(
+    process.env.DATA_DIR || path.join(process.cwd(), ".data"),
+    getRetentionPolicy()
+  );
+  return storage;
+};
+
+const PRUNE_INTERVAL_MS = 3_600_000;
+
+const pruningState = globalThis as typeof globalThis & { __executionPruning?: boolean };
+
+/**
+ * Prunes old executions now and every hour, so they expire even when no new
+ * ones are saved. Safe to call more than once, e.g. when modules are
+ * reloaded in development.
+ */
+export function startExecutionPruning() {
+  if (pruningState.__executionPruning) return;
+  pruningState.__executionPruning = true;
+
+  const prune = () =>
+    getStorage()
+      .pruneExecutions()
+      .catch((error) => console.error("Failed to prune executions:", error));
+  prune();
+  setInterval(prune, PRUNE_INTERVAL_MS).unref();
+}
@@ -0,0 +1,206 @@
+import { Worker } from "worker_threads";
+import type { NodeLogEntry } from "../types";
+
+/**
+ * Runs Data Transform JavaScript in a worker thread with a fresh V8 context,
+ * so user code can't block the server, reach `window`/`process.env`, or grow
+ * without bound. Data crosses the boundary as JSON only: nothing from the
+ * host realm is exposed inside the context.
+ */
+
+export interface TransformPayload {
+  code: string;
+  input: unknown;
+  previousNodes: Record<string, unknown>;
+  item?: unknown;
+  vars?: Record<string, string>;
+}
+
+export interface TransformResult {
+  output: unknown;
+  logs: NodeLogEntry[];
+}
+
+export class TransformError extends Error {
+  constructor(message: string, public readonly logs: NodeLogEntry[] = []) {
+    super(message);
+    this.name = "TransformError";
+  }
+}
+
+const parseLimit = (value: string | undefined, fallback: number) => {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+/** CPU time a transformation may use before it is stopped. */
+export const TRANSFORM_TIMEOUT_MS = parseLimit(process.env.TRANSFORM_TIMEOUT_MS, 1000);
+/** Heap available to a transformation. */
+export const TRANSFORM_MEMORY_MB = parseLimit(process.env.TRANSFORM_MEMORY_MB, 64);
+
+const MAX_LOG_ENTRIES = 100;
+const MAX_LOG_LENGTH = 2000;
+
+// Everything the user code can see is created inside the context from the
+// JSON payload: the console, the arguments and the result serialization.
+const CONTEXT_PRELUDE = `
+const __logs = [];
+const __format = (value) => {
+  if (typeof value === "string") return value;
+  try {
+    const json = JSON.stringify(value);
+    return json === undefined ? String(value) : json;
+  } catch {
+    return String(value);
+  }
+};
+const __log = (level) => (...args) => {
+  if (__logs.length >= ${MAX_LOG_ENTRIES}) return;
+  __logs.push({ level, message: args.map(__format).join(" ").slice(0, ${MAX_LOG_LENGTH}) });
+};
+const console = Object.freeze({
+  log: __log("log"),
+  info: __log("info"),
+  debug: __log("log"),
+  warn: __log("warn"),
+  error: __log("error"),
+});
+const __serialize = (result) => JSON.stringify(result);
+`;
+
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require("worker_threads");
+const vm = require("vm");
+
+const { code, payload, prelude, timeoutMs } = workerData;
+const source = prelude + [
+  "let __output, __error;",
+  "try {",
+  "  const { input, previousNodes, item, vars } = JSON.parse(__payload);",
+  "  __output = (function (input, previousNodes, item, vars) {",
+  code,
+  "  \\n})(input, previousNodes, item, vars);",
+  "  if (__output !== null && typeof __output === 'object' && typeof __output.then === 'function') {",
+  "    throw new Error('Transformation code must return a value, not a Promise');",
+  "  }",
+  "} catch (error) {",
+  "  __error = error instanceof Error ? error.message : String(error);",
+  "}",
+  "__serialize({ output: __output, hasOutput: __output !== undefined, error: __error, logs: __logs });",
+].join("\\n");
+
+try {
+  const context = vm.createContext(Object.create(null), {
+    codeGeneration: { strings: false, wasm: false },
+    microtaskMode: "afterEvaluate",
+  });
+  context.__payload = payload;
+  const serialized = vm.runInContext(source, context, { timeout: timeoutMs, filename: "transform.js" });
+  parentPort.postMessage({ serialized });
+} catch (error) {
+  parentPort.postMessage({
+    failure: error && error.code === "ERR_SCRIPT_EXECUTION_TIMEOUT"
+      ? "Transformation exceeded the " + timeoutMs + "ms time limit"
+      : error && error.name === "SyntaxError"
+        ? "Syntax error: " + error.message
+        : String(error && error.message || error),
+  });
+}
+`;
+
+/**
+ * Runs `payload.code` as the body of `function (input, previousNodes, item, vars)`
+ * and resolves with its return value and captured console output.
+ */
+export function runTransform(
+  payload: TransformPayload,
+  signal?: AbortSignal
+): Promise<TransformResult> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new TransformError("Transformation cancelled"));
+      return;
+    }
+
+    const worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      env: {},
+      workerData: {
+        code: payload.code,
+        payload: JSON.stringify({
+          input: payload.input ?? null,
+          previousNodes: payload.previousNodes ?? {},
+          item: payload.item ?? null,
+          vars: payload.vars ?? {},
+        }),
+        prelude: CONTEXT_PRELUDE,
+        timeoutMs: TRANSFORM_TIMEOUT_MS,
+      },
+      resourceLimits: {
+        maxOldGenerationSizeMb: TRANSFORM_MEMORY_MB,
+        maxYoungGenerationSizeMb: Math.max(4, Math.floor(TRANSFORM_MEMORY_MB / 4)),
+        stackSizeMb: 4,
+      },
+    });
+
+    let settled = false;
+    const finish = (callback: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(wallClockTimer);
+      signal?.removeEventListener("abort", onAbort);
+      worker.terminate();
+      callback();
+    };
+
+    // Backstop for anything the vm timeout can't interrupt, such as worker startup stalls
+    const wallClockTimer = setTimeout(
+      () =>
+        finish(() =>
+          reject(new TransformError(`Transformation exceeded the ${TRANSFORM_TIMEOUT_MS}ms time limit`))
+        ),
+      TRANSFORM_TIMEOUT_MS + 5000
+    );
+
+    const onAbort = () => finish(() => reject(new TransformError("Transformation cancelled")));
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    worker.once("message", (message: { serialized?: string; failure?: string }) =>
+      finish(() => {
+        if (message.failure) {
+          reject(new TransformError(message.failure));
+          return;
+        }
+
+        let result: { output?: unknown; hasOutput: boolean; error?: string; logs: NodeLogEntry[] };
+        try {
+          result = JSON.parse(String(message.serialized));
+        } catch {
+          reject(new TransformError("Transformation output could not be serialized"));
+          return;
+        }
+        if (result.error !== undefined) {
+          reject(new TransformError(result.error, result.logs));
+          return;
+        }
+        resolve({ output: result.hasOutput ? result.output : undefined, logs: result.logs });
+      })
+    );
+
+    worker.once("error", (error: Error & { code?: string }) =>
+      finish(() =>
+        reject(
+          new TransformError(
+            error.code === "ERR_WORKER_OUT_OF_MEMORY"
+              ? `Transformation exceeded the ${TRANSFORM_MEMORY_MB}MB memory limit`
+              : error.message
+          )
+        )
+      )
+    );
+
+    worker.once("exit", (exitCode) =>
+      finish(() => reject(new TransformError(`Transformation worker exited with code ${exitCode}`)))
+    );
+  });
+}
@@ -0,0 +1,342 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+import { getResumedDelayOutput, type WebhookResumePayload } from "../delay";
+import { getExecutionMode, type ExecutionLog, type WaitingNode } from "../execution-history";
+import type { WorkflowRunner } from "../workflow-runner";
+import { getStorage } from "./storage";
+import { createServerRunner } from "./workflow-execution";
+import type { WaitingExecution, WaitingExecutionInput } from "../waiting-executions";
+
+/**
+ * Server-side store of executions suspended by Delay nodes, kept in a JSON
+ * file (`WAITING_EXECUTIONS_FILE`, default `.data/waiting-executions.json`)
+ * so waits survive restarts. A scheduler started from `instrumentation.ts`
+ * resumes timed waits; webhook waits resume through `resumeWebhookWait`.
+ */
+
+export class WaitingExecutionError extends Error {
+  constructor(message: string, public readonly status = 400) {
+    super(message);
+    this.name = "WaitingExecutionError";
+  }
+}
+
+const POLL_INTERVAL_MS = 5000;
+/** Finished executions are kept this long so the editor can pick up their result. */
+const FINISHED_RETENTION_MS = 7 * 86_400_000;
+
+const getWaitingExecutionsFile = () =>
+  process.env.WAITING_EXECUTIONS_FILE ||
+  path.join(process.cwd(), ".data", "waiting-executions.json");
+
+async function readExecutions(): Promise<WaitingExecution[]> {
+  try {
+    return JSON.parse(await readFile(getWaitingExecutionsFile(), "utf8")) as WaitingExecution[];
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+}
+
+// Writes go through a queue and a temp file so concurrent requests can't
+// interleave and a crash never leaves a half-written file behind.
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+function updateExecutions<T>(
+  update: (executions: WaitingExecution[]) => { executions: WaitingExecution[]; result: T }
+): Promise<T> {
+  const run = writeQueue.then(async () => {
+    const { executions, result } = update(await readExecutions());
+    const file = getWaitingExecutionsFile();
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(`${file}.tmp`, JSON.stringify(executions), { mode: 0o600 });
+    await rename(`${file}.tmp`, file);
+    return result;
+  });
+  writeQueue = run.catch(() => undefined);
+  return run;
+}
+
+const replaceExecution = (executions: WaitingExecution[], execution: WaitingExecution) =>
+  executions.map((candidate) => (candidate.log.id === execution.log.id ? execution : candidate));
+
+export async function listWaitingExecutions(): Promise<WaitingExecution[]> {
+  return readExecutions();
+}
+
+export async function getWaitingExecution(id: string): Promise<WaitingExecution> {
+  const execution = (await readExecutions()).find((candidate) => candidate.log.id === id);
+  if (!execution) {
+    throw new WaitingExecutionError("Execution not found", 404);
+  }
+  return execution;
+}
+
+export async function createWaitingExecution(
+  input: WaitingExecutionInput
+): Promise<WaitingExecution> {
+  if (input.log.status !== "waiting" || !input.log.wait?.nodes.length) {
+    throw new WaitingExecutionError("Only waiting executions can be suspended");
+  }
+
+  const now = Date.now();
+  const execution: WaitingExecution = { ...input, createdAt: now, updatedAt: now };
+  return updateExecutions((executions) => {
+    if (executions.some((candidate) => candidate.log.id === execution.log.id)) {
+      throw new WaitingExecutionError("Execution already exists", 409);
+    }
+    return { executions: [...executions, execution], result: execution };
+  });
+}
+
+/** Runners of executions being resumed, so they can be cancelled. */
+const activeRunners = new Map<string, WorkflowRunner>();
+
+const finishCancelled = (log: ExecutionLog, message: string): ExecutionLog => ({
+  ...log,
+  status: "cancelled",
+  duration: Date.now() - log.timestamp,
+  errorMessage: message,
+  wait: undefined,
+  results: log.results.map((result) =>
+    result.status === "waiting" ? { ...result, status: "cancelled" } : result
+  ),
+});
+
+export async function cancelWaitingExecution(id: string): Promise<WaitingExecution> {
+  const runner = activeRunners.get(id);
+  if (runner) {
+    runner.cancel("Execution cancelled while resuming");
+    return getWaitingExecution(id);
+  }
+
+  const cancelled = await updateExecutions((executions) => {
+    const execution = executions.find((candidate) => candidate.log.id === id);
+    if (!execution) {
+      throw new WaitingExecutionError("Execution not found", 404);
+    }
+    if (execution.log.status !== "waiting") {
+      throw new WaitingExecutionError("Execution is not waiting", 409);
+    }
+    const result = {
+      ...execution,
+      log: finishCancelled(execution.log, "Execution cancelled while waiting"),
+      updatedAt: Date.now(),
+    };
+    return { executions: replaceExecution(executions, result), result };
+  });
+  await getStorage().saveExecution(cancelled.log);
+  return cancelled;
+}
+
+/**
+ * Combines the log of a resumed run with the execution so far. The resumed
+ * node's "waiting" result is replaced by the result of the run.
+ */
+const mergeResumedLog = (previous: ExecutionLog, resumed: ExecutionLog, nodeId: string): ExecutionLog => {
+  const results = [
+    ...previous.results.filter((result) => !(result.nodeId === nodeId && result.status === "waiting")),
+    ...resumed.results,
+  ];
+  return {
+    ...previous,
+    status: resumed.status,
+    duration: Date.now() - previous.timestamp,
+    nodesExecuted: new Set(
+      results.filter((result) => result.status !== "waiting").map((result) => result.nodeId)
+    ).size,
+    results,
+    errorMessage: resumed.errorMessage,
+    wait: resumed.wait,
+  };
+};
+
+/**
+ * Resumes the execution after `nodeId` finished waiting. The execution is
+ * marked "running" first, so a wait can't be resumed twice.
+ */
+async function resumeNode(
+  id: string,
+  nodeId: string,
+  webhook?: WebhookResumePayload
+): Promise<WaitingExecution> {
+  const claimed = await updateExecutions((executions) => {
+    const execution = executions.find((candidate) => candidate.log.id === id);
+    if (!execution) {
+      throw new WaitingExecutionError("Execution not found", 404);
+    }
+    if (execution.log.status !== "waiting" || !execution.log.wait) {
+      throw new WaitingExecutionError("Execution is not waiting", 409);
+    }
+    if (!execution.log.wait.nodes.some((node) => node.nodeId === nodeId)) {
+      throw new WaitingExecutionError(`Node ${nodeId} is not waiting`, 409);
+    }
+    const running = { ...execution, log: { ...execution.log, status: "running" as const } };
+    return { executions: replaceExecution(executions, running), result: execution };
+  });
+
+  const { log, workflow } = claimed;
+  const wait = log.wait!;
+  const waiting = wait.nodes.find((node) => node.nodeId === nodeId)!;
+
+  const runner = createServerRunner(workflow, {
+    globalVariables: claimed.globalVariables,
+    subWorkflows: claimed.subWorkflows,
+    mode: getExecutionMode(log),
+  });
+  activeRunners.set(id, runner);
+
+  let resumedLog: ExecutionLog;
+  try {
+    resumedLog = await runner.resume({
+      executionId: id,
+      nodeId,
+      output: getResumedDelayOutput(waiting, workflow.settings?.dataMode, Date.now(), webhook),
+      cachedOutputs: wait.nodeOutputs,
+      waitingNodes: wait.nodes.filter((node) => node.nodeId !== nodeId),
+    });
+  } catch (error) {
+    resumedLog = {
+      ...log,
+      results: [],
+      status: "error",
+      errorMessage: error instanceof Error ? error.message : "Failed to resume the execution",
+      wait: undefined,
+    };
+  } finally {
+    activeRunners.delete(id);
+  }
+
+  const updated = await updateExecutions((executions) => {
+    const execution = executions.find((candidate) => candidate.log.id === id) ?? claimed;
+    const merged = {
+      ...execution,
+      log: mergeResumedLog(log, resumedLog, nodeId),
+      updatedAt: Date.now(),
+    };
+    return { executions: replaceExecution(executions, merged), result: merged };
+  });
+  await getStorage().saveExecution(updated.log);
+  return updated;
+}
+
+/**
+ * Resumes the execution waiting for the webhook with this token. The run
+ * continues in the background.
+ */
+export async function resumeWebhookWait(
+  token: string,
+  payload: WebhookResumePayload
+): Promise<{ executionId: string; nodeId: string }> {
+  const executions = await readExecutions();
+  let match: { execution: WaitingExecution; node: WaitingNode } | undefined;
+  for (const execution of executions) {
+    const node = execution.log.wait?.nodes.find((candidate) => candidate.webhookToken === token);
+    if (node) {
+      match = { execution, node };
+      break;
+    }
+  }
+  if (!match) {
+    throw new WaitingExecutionError("No execution is waiting for this webhook", 404);
+  }
+  if (match.execution.log.status !== "waiting") {
+    throw new WaitingExecutionError("The execution is busy, try again shortly", 409);
+  }
+
+  const executionId = match.execution.log.id;
+  const { nodeId } = match.node;
+  resumeNode(executionId, nodeId, payload).catch((error) =>
+    console.error(`Failed to resume execution ${executionId}:`, error)
+  );
+  return { executionId, nodeId };
+}
+
+async function resumeDueWaits() {
+  const now = Date.now();
+  const executions = await readExecutions();
+
+  for (const execution of executions) {
+    if (execution.log.status !== "waiting") continue;
+    const due = execution.log.wait?.nodes.find(
+      (node) => node.resumeAt !== undefined && node.resumeAt <= now
+    );
+    if (!due) continue;
+    try {
+      await resumeNode(execution.log.id, due.nodeId);
+    } catch (error) {
+      console.error(`Failed to resume execution ${execution.log.id}:`, error);
+    }
+  }
+
+  await updateExecutions((stored) => ({
+    executions: stored.filter(
+      (execution) =>
+        execution.log.status === "waiting" ||
+        execution.log.status === "running" ||
+        now - execution.updatedAt < FINISHED_RETENTION_MS
+    ),
+    result: undefined,
+  }));
+}
+
+/**
+ * Executions that were being resumed when the server stopped may have run
+ * part of their nodes already. Running them again could repeat side
+ * effects, so they are marked as failed instead.
+ */
+async function failInterruptedExecutions() {
+  const failed = await updateExecutions((executions) => {
+    const updated = executions.map((execution) =>
+      execution.log.status === "running"
+        ? {
+            ...execution,
+            log: {
+              ...execution.log,
+              status: "error" as const,
+              errorMessage: "The server stopped while the execution was running",
+              wait: undefined,
+            },
+            updatedAt: Date.now(),
+          }
+        : execution
+    );
+    return {
+      executions: updated,
+      result: updated.filter((execution, index) => execution !== executions[index]),
+    };
+  });
+  for (const execution of failed) {
+    await getStorage().saveExecution(execution.log);
+  }
+}
+
+const schedulerState = globalThis as typeof globalThis & { __waitingExecutionScheduler?: boolean };
+
+/**
+ * Starts polling for timed waits that are due. Safe to call more than once,
+ * e.g. when modules are reloaded in development.
+ */
+export function startWaitingExecutionScheduler() {
+  if (schedulerState.__waitingExecutionScheduler) return;
+  schedulerState.__waitingExecutionScheduler = true;
+
+  let ticking = false;
+  const tick = async () => {
+    if (ticking) return;
+    ticking = true;
+    try {
+      await resumeDueWaits();
+    } catch (error) {
+      console.error("Failed to resume waiting executions:", error);
+    } finally {
+      ticking = false;
+    }
+  };
+
+  failInterruptedExecutions()
+    .catch((error) => console.error("Failed to recover waiting executions:", error))
+    .finally(() => setInterval(tick, POLL_INTERVAL_MS).unref());
+}
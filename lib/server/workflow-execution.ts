@@ -0,0 +1,57 @@
+import type { ExecutionMode } from "../execution-history";
+import { WorkflowExecutor } from "../executor";
+import { WorkflowRunner } from "../workflow-runner";
+import type { WaitingExecutionWorkflow } from "../waiting-executions";
+import type { SavedWorkflow, WorkflowVariables } from "../types";
+import { getStorage } from "./storage";
+
+/**
+ * Runs started on the server call the app's API routes over HTTP, at
+ * `APP_URL` (default `http://127.0.0.1:$PORT`).
+ */
+export const getAppUrl = () =>
+  (process.env.APP_URL || `http://127.0.0.1:${process.env.PORT || 3000}`).replace(/\/$/, "");
+
+export interface ServerRunnerOptions {
+  globalVariables?: WorkflowVariables;
+  /**
+   * Snapshots of the workflows Execute Workflow nodes run. Others are
+   * looked up in storage.
+   */
+  subWorkflows?: SavedWorkflow[];
+  /** Recorded on the executions of sub-workflows the run starts. */
+  mode?: ExecutionMode;
+}
+
+/**
+ * A runner for `workflow` configured like the editor's, with long waits
+ * suspending the run so it can be stored as a waiting execution. The
+ * executions of sub-workflows it runs are saved as they finish.
+ */
+export function createServerRunner(
+  workflow: WaitingExecutionWorkflow,
+  { globalVariables, subWorkflows = [], mode }: ServerRunnerOptions = {}
+): WorkflowRunner {
+  const runner = new WorkflowRunner(workflow.nodes, workflow.edges, {
+    executor: new WorkflowExecutor({ baseUrl: getAppUrl() }),
+    concurrency: workflow.settings?.concurrency,
+    maxDurationMs: (workflow.settings?.maxDurationSeconds ?? 0) * 1000,
+    dataMode: workflow.settings?.dataMode,
+    variables: workflow.variables,
+    globalVariables,
+    getWorkflow: async (workflowId) =>
+      subWorkflows.find((candidate) => candidate.id === workflowId) ??
+      (await getStorage().getWorkflow(workflowId)) ??
+      undefined,
+    workflow: workflow.id ? { id: workflow.id, name: workflow.name ?? "" } : undefined,
+    suspendWaits: true,
+  });
+  runner.subscribe((event) => {
+    if (event.type === "subWorkflowFinished") {
+      getStorage()
+        .saveExecution({ ...event.log, mode })
+        .catch((error) => console.error(`Failed to save execution ${event.log.id}:`, error));
+    }
+  });
+  return runner;
+}
@@ -0,0 +1,116 @@
+import {
+  MAX_EXECUTION_PAGE_SIZE,
+  type ExecutionLog,
+  type ExecutionTrigger,
+} from "../execution-history";
+import type { SavedWorkflow, WorkflowVariables } from "../types";
+import { createExecutionId, getFinalOutput } from "../workflow-runner";
+import type { WaitingExecutionWorkflow } from "../waiting-executions";
+import { getStorage } from "./storage";
+import { createWaitingExecution } from "./waiting-executions";
+import { createServerRunner } from "./workflow-execution";
+
+export interface WorkflowRunSource {
+  workflow: WaitingExecutionWorkflow;
+  subWorkflows?: SavedWorkflow[];
+  globalVariables?: WorkflowVariables;
+}
+
+export interface WorkflowRunOptions {
+  trigger: ExecutionTrigger;
+  payload: unknown;
+  executionId?: string;
+}
+
+/**
+ * Runs a workflow on the server and records the execution. Runs that end
+ * waiting on a Delay node are handed to the waiting execution store.
+ */
+export async function runWorkflow(
+  { workflow, subWorkflows, globalVariables }: WorkflowRunSource,
+  { trigger, payload, executionId }: WorkflowRunOptions
+): Promise<{ log: ExecutionLog; output: unknown }> {
+  const runner = createServerRunner(workflow, {
+    globalVariables,
+    subWorkflows,
+    mode: trigger.type,
+  });
+  const log: ExecutionLog = {
+    ...(await runner.run(payload, { triggerNodeId: trigger.nodeId, executionId })),
+    mode: trigger.type,
+    trigger,
+  };
+
+  await getStorage().saveExecution(log);
+  if (log.status === "waiting") {
+    await createWaitingExecution({ log, workflow, globalVariables, subWorkflows });
+  }
+  return { log, output: getFinalOutput(log, workflow.edges) };
+}
+
+/**
+ * Starts a run in the background and returns its execution id right away.
+ * The execution is recorded as "running" until it finishes.
+ */
+export async function startWorkflowRun(
+  source: WorkflowRunSource,
+  options: Omit<WorkflowRunOptions, "executionId">
+): Promise<string> {
+  const { workflow } = source;
+  const record: ExecutionLog = {
+    id: createExecutionId(),
+    timestamp: Date.now(),
+    duration: 0,
+    status: "running",
+    nodesExecuted: 0,
+    totalNodes: workflow.nodes.length,
+    results: [],
+    workflowId: workflow.id,
+    workflowName: workflow.name,
+    mode: options.trigger.type,
+    trigger: options.trigger,
+  };
+  await getStorage().saveExecution(record);
+
+  runWorkflow(source, { ...options, executionId: record.id }).catch((error) => {
+    console.error(`Execution ${record.id} failed:`, error);
+    getStorage()
+      .saveExecution({
+        ...record,
+        status: "error",
+        duration: Date.now() - record.timestamp,
+        errorMessage: error instanceof Error ? error.message : "Execution failed",
+      })
+      .catch((saveError) => console.error(`Failed to record execution ${record.id}:`, saveError));
+  });
+  return record.id;
+}
+
+/**
+ * Runs recorded as "running" when the server stopped never finished, and
+ * nothing will finish them. They are marked as failed rather than run
+ * again, as they may have run part of their nodes already.
+ */
+export async function failInterruptedRuns(): Promise<number> {
+  const storage = getStorage();
+  const interrupted: ExecutionLog[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await storage.listExecutions({
+      status: "running",
+      cursor,
+      limit: MAX_EXECUTION_PAGE_SIZE,
+    });
+    interrupted.push(...page.executions);
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+
+  for (const log of interrupted) {
+    await storage.saveExecution({
+      ...log,
+      status: "error",
+      errorMessage: "The server stopped while the execution was running",
+    });
+  }
+  return interrupted.length;
+}
@@ -1,8 +1,23 @@
 import { create } from "zustand";
-import { WorkflowState, WorkflowNode, WorkflowEdge, SavedWorkflow, WorkflowSnapshot } from "./types";
+import {
+  WorkflowState,
+  WorkflowNode,
+  WorkflowEdge,
+  SavedWorkflow,
+  WorkflowSnapshot,
+  WorkflowSettings,
+  WorkflowVariables,
+} from "./types";
 import { addEdge as addReactFlowEdge, Connection } from "reactflow";
+import { getNodeOutputHandles } from "./node-helpers";
+import {
+  createSavedWorkflow,
+  fetchSavedWorkflow,
+  fetchSavedWorkflows,
+  removeSavedWorkflow,
+  updateSavedWorkflow,
+} from "./saved-workflows";
 
-const STORAGE_KEY = "n8n-workflows";
 const MAX_HISTORY = 50;
 
 const createSnapshot = (nodes: WorkflowNode[], edges: WorkflowEdge[]): WorkflowSnapshot => ({
@@ -10,11 +25,35 @@ const createSnapshot = (nodes: WorkflowNode[], edges: WorkflowEdge[]): WorkflowS
   edges: JSON.parse(JSON.stringify(edges)),
 });
 
+/**
+ * Refreshes the labels of a node's outgoing edges from its current output
+ * handles, e.g. after a Switch case was renamed.
+ */
+const syncOutputEdgeLabels = (edges: WorkflowEdge[], node: WorkflowNode): WorkflowEdge[] => {
+  const handles = getNodeOutputHandles(node.data.type, node.data.config, node.data.settings);
+  if (!handles) return edges;
+
+  return edges.map((edge) => {
+    const handle =
+      edge.source === node.id ? handles.find((candidate) => candidate.id === edge.sourceHandle) : undefined;
+    if (!handle || handle.edgeLabel === edge.data?.displayLabel) return edge;
+    return {
+      ...edge,
+      label: [handle.edgeLabel, edge.data?.inputLabel].filter(Boolean).join(" → ") || undefined,
+      data: { ...edge.data, displayLabel: handle.edgeLabel },
+    };
+  });
+};
+
 export const useWorkflowStore = create<WorkflowState>((set, get) => ({
   nodes: [],
   edges: [],
+  settings: {},
+  variables: {},
   history: [],
   historyIndex: -1,
+  savedWorkflows: [],
+  currentWorkflow: null,
 
   saveToHistory: () => {
     const state = get();
@@ -41,7 +80,12 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
 
   updateNode: (id: string, data: Partial<WorkflowNode["data"]>) => {
     // Don't save to history for execution updates
-    if (data.isExecuting !== undefined || data.output !== undefined || data.error !== undefined) {
+    if (
+      data.isExecuting !== undefined ||
+      data.isPaused !== undefined ||
+      data.output !== undefined ||
+      data.error !== undefined
+    ) {
       set((state) => ({
         nodes: state.nodes.map((node) =>
           node.id === id ? { ...node, data: { ...node.data, ...data } } : node
@@ -51,11 +95,19 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
     }
     
     get().saveToHistory();
-    set((state) => ({
-      nodes: state.nodes.map((node) =>
+    set((state) => {
+      const nodes = state.nodes.map((node) =>
         node.id === id ? { ...node, data: { ...node.data, ...data } } : node
-      ),
-    }));
+      );
+      const updated = nodes.find((node) => node.id === id);
+      return {
+        nodes,
+        edges:
+          updated && (data.config !== undefined || data.settings !== undefined)
+            ? syncOutputEdgeLabels(state.edges, updated)
+            : state.edges,
+      };
+    });
   },
 
   deleteNode: (id: string) => {
@@ -108,9 +160,19 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
     set({ edges: edges as any });
   },
 
+  updateSettings: (settings: Partial<WorkflowSettings>) => {
+    set((state) => ({
+      settings: { ...state.settings, ...settings },
+    }));
+  },
+
+  setVariables: (variables: WorkflowVariables) => {
+    set({ variables });
+  },
+
   clearWorkflow: () => {
     get().saveToHistory();
-    set({ nodes: [], edges: [] });
+    set({ nodes: [], edges: [], settings: {}, variables: {}, currentWorkflow: null });
   },
 
   undo: () => {
@@ -148,39 +210,59 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
     return state.historyIndex < state.history.length - 1;
   },
 
-  saveWorkflow: (name: string) => {
+  saveWorkflow: async (name: string) => {
     const state = get();
-    const workflows = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
-    const id = `workflow-${Date.now()}`;
-    const workflow: SavedWorkflow = {
-      id,
+    const input = {
       name,
       nodes: state.nodes,
       edges: state.edges,
-      timestamp: Date.now(),
+      settings: state.settings,
+      variables: state.variables,
     };
-    workflows.push(workflow);
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(workflows));
-    return id;
+    // The workflow on the canvas is updated in place, unless it was deleted
+    const workflow =
+      (state.currentWorkflow && (await updateSavedWorkflow(state.currentWorkflow.id, input))) ||
+      (await createSavedWorkflow(input));
+    set({
+      savedWorkflows: [
+        workflow,
+        ...get().savedWorkflows.filter((w: SavedWorkflow) => w.id !== workflow.id),
+      ],
+      currentWorkflow: { id: workflow.id, name: workflow.name },
+    });
+    return workflow.id;
   },
 
-  loadWorkflow: (id: string) => {
-    const workflows = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
-    const workflow = workflows.find((w: SavedWorkflow) => w.id === id);
+  loadWorkflow: async (id: string) => {
+    const workflow = await fetchSavedWorkflow(id);
     if (workflow) {
       get().saveToHistory();
-      set({ nodes: workflow.nodes, edges: workflow.edges });
+      set({
+        nodes: workflow.nodes,
+        edges: workflow.edges,
+        settings: workflow.settings ?? {},
+        variables: workflow.variables ?? {},
+        currentWorkflow: { id: workflow.id, name: workflow.name },
+      });
     }
   },
 
+  refreshSavedWorkflows: async () => {
+    const savedWorkflows = await fetchSavedWorkflows();
+    set({ savedWorkflows });
+    return savedWorkflows;
+  },
+
   getSavedWorkflows: () => {
-    return JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+    return get().savedWorkflows;
   },
 
-  deleteSavedWorkflow: (id: string) => {
-    const workflows = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
-    const filtered = workflows.filter((w: SavedWorkflow) => w.id !== id);
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(filtered));
+  deleteSavedWorkflow: async (id: string) => {
+    await removeSavedWorkflow(id);
+    set({
+      savedWorkflows: get().savedWorkflows.filter((w: SavedWorkflow) => w.id !== id),
+      currentWorkflow: get().currentWorkflow?.id === id ? null : get().currentWorkflow,
+    });
   },
 
   exportWorkflow: () => {
@@ -189,6 +271,8 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
       {
         nodes: state.nodes,
         edges: state.edges,
+        settings: state.settings,
+        variables: state.variables,
         exportedAt: new Date().toISOString(),
       },
       null,
@@ -201,7 +285,13 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
       const data = JSON.parse(json);
       if (data.nodes && data.edges) {
         get().saveToHistory();
-        set({ nodes: data.nodes, edges: data.edges });
+        set({
+          nodes: data.nodes,
+          edges: data.edges,
+          settings: data.settings ?? {},
+          variables: data.variables ?? {},
+          currentWorkflow: null,
+        });
       }
     } catch (error) {
       throw new Error("Invalid workflow JSON");
@@ -0,0 +1,186 @@
+import type { SwitchCase, SwitchMatchMode, SwitchOutputMode } from "./types";
+import { parseRegex } from "./conditions";
+import {
+  evaluateTemplateExpression,
+  isRecord,
+  replaceTemplateVariables,
+  stringifyValue,
+  type TemplateContext,
+} from "./templates";
+
+export const switchMatchModes: { value: SwitchMatchMode; label: string }[] = [
+  { value: "exact", label: "Equals" },
+  { value: "caseInsensitive", label: "Equals (ignore case)" },
+  { value: "regex", label: "Matches regex" },
+  { value: "range", label: "Number in range" },
+  { value: "expression", label: "Expression" },
+];
+
+const MATCH_MODES = new Set<string>(switchMatchModes.map((mode) => mode.value));
+
+export const createSwitchCase = (mode: SwitchMatchMode = "exact"): SwitchCase => ({
+  id: `case_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+  mode,
+  value: "",
+});
+
+/**
+ * Cases are stored in the node config as a JSON string under `switchCases`.
+ * Nodes saved before match modes have newline-separated `cases` instead;
+ * those become exact cases keeping their index-based `case_N` handle ids so
+ * existing edges stay attached.
+ */
+export const parseSwitchCases = (config?: Record<string, unknown>): SwitchCase[] => {
+  if (config?.switchCases === undefined) {
+    const rawCases = typeof config?.cases === "string" ? config.cases : "";
+    return rawCases
+      .split("\n")
+      .map((value) => value.trim())
+      .filter((value, index, all) => value.length > 0 && all.indexOf(value) === index)
+      .map((value, index) => ({ id: `case_${index}`, mode: "exact", value }));
+  }
+
+  let parsed: unknown = config.switchCases;
+  if (typeof parsed === "string") {
+    try {
+      parsed = parsed.trim() ? JSON.parse(parsed) : [];
+    } catch {
+      return [];
+    }
+  }
+  return Array.isArray(parsed)
+    ? parsed.filter(
+        (entry): entry is SwitchCase =>
+          isRecord(entry) &&
+          typeof entry.id === "string" &&
+          entry.id.length > 0 &&
+          typeof entry.mode === "string" &&
+          MATCH_MODES.has(entry.mode) &&
+          typeof entry.value === "string"
+      )
+    : [];
+};
+
+export const getSwitchOutputMode = (config?: Record<string, unknown>): SwitchOutputMode =>
+  config?.outputMode === "all" ? "all" : "first";
+
+/** The case's own label, or a summary of what it matches. */
+export const getSwitchCaseLabel = (switchCase: SwitchCase, index: number): string => {
+  if (switchCase.label?.trim()) {
+    return switchCase.label.trim();
+  }
+
+  const value = switchCase.value.trim();
+  switch (switchCase.mode) {
+    case "caseInsensitive":
+      return value ? `${value} (any case)` : `Case ${index + 1}`;
+    case "regex":
+      return value ? (value.startsWith("/") ? value : `/${value}/`) : `Case ${index + 1}`;
+    case "range": {
+      const min = switchCase.min?.trim();
+      const max = switchCase.max?.trim();
+      if (min && max) return `${min} – ${max}`;
+      if (min) return `≥ ${min}`;
+      if (max) return `≤ ${max}`;
+      return `Case ${index + 1}`;
+    }
+    default:
+      return value || `Case ${index + 1}`;
+  }
+};
+
+const isNumeric = (value: string) => value.trim() !== "" && !Number.isNaN(Number(value));
+
+// Bounds containing templates are only known at run time
+const isTemplate = (value: string) => value.includes("{{");
+
+/**
+ * Returns a description of the first problem with a case, or null.
+ */
+export const getSwitchCaseProblem = (switchCase: SwitchCase): string | null => {
+  switch (switchCase.mode) {
+    case "regex":
+      if (!switchCase.value.trim()) {
+        return "has no regular expression";
+      }
+      try {
+        parseRegex(switchCase.value);
+      } catch {
+        return `has an invalid regular expression "${switchCase.value}"`;
+      }
+      return null;
+
+    case "range": {
+      const min = switchCase.min?.trim() ?? "";
+      const max = switchCase.max?.trim() ?? "";
+      if (!min && !max) {
+        return "needs a minimum or a maximum";
+      }
+      const invalid = [min, max].find(
+        (bound) => bound && !isTemplate(bound) && !isNumeric(bound)
+      );
+      return invalid ? `has a bound "${invalid}" that is not a number` : null;
+    }
+
+    case "expression":
+      return switchCase.value.trim() ? null : "has an empty expression";
+
+    default:
+      return null;
+  }
+};
+
+const toNumberBound = (raw: string | undefined, name: string, context: TemplateContext) => {
+  const text = replaceTemplateVariables(raw ?? "", context).trim();
+  if (!text) {
+    return null;
+  }
+  if (!isNumeric(text)) {
+    throw new Error(`Range ${name} "${text}" is not a number`);
+  }
+  return Number(text);
+};
+
+/**
+ * Whether `value` matches the case. Missing values only match expressions;
+ * invalid cases throw.
+ */
+export const matchSwitchCase = (
+  switchCase: SwitchCase,
+  value: unknown,
+  context: TemplateContext
+): boolean => {
+  if (switchCase.mode === "expression") {
+    return Boolean(evaluateTemplateExpression(switchCase.value, context, { $value: value }));
+  }
+
+  if (value === undefined || value === null) {
+    return false;
+  }
+
+  const text = typeof value === "string" ? value : stringifyValue(value);
+  switch (switchCase.mode) {
+    case "exact":
+      return text === replaceTemplateVariables(switchCase.value, context);
+
+    case "caseInsensitive":
+      return (
+        text.toLowerCase() === replaceTemplateVariables(switchCase.value, context).toLowerCase()
+      );
+
+    case "regex":
+      return parseRegex(switchCase.value).test(text);
+
+    case "range": {
+      const number = typeof value === "number" ? value : isNumeric(text) ? Number(text) : NaN;
+      if (Number.isNaN(number)) {
+        return false;
+      }
+      const min = toNumberBound(switchCase.min, "minimum", context);
+      const max = toNumberBound(switchCase.max, "maximum", context);
+      return (min === null || number >= min) && (max === null || number <= max);
+    }
+  }
+
+  throw new Error(`Unknown match mode "${switchCase.mode}"`);
+};
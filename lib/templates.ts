@@ -0,0 +1,319 @@
+import { evaluateExpression, ExpressionError, type ExpressionScope } from "./expression";
+
+/**
+ * `{{ }}` template resolution shared by the client executor and the AI route.
+ */
+
+export interface TemplateContext {
+  input: unknown;
+  previousNodes: Record<string, unknown>;
+  vars?: Record<string, string>;
+  item?: unknown;
+}
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+
+export const stringifyValue = (value: unknown): string =>
+  isRecord(value) ? JSON.stringify(value) : String(value);
+
+const accessValue = (target: unknown, key: string): unknown => {
+  if (Array.isArray(target)) {
+    const index = Number(key);
+    if (Number.isInteger(index)) {
+      return target[index];
+    }
+    return undefined;
+  }
+
+  if (isRecord(target)) {
+    return target[key];
+  }
+
+  return undefined;
+};
+
+export const resolvePath = (source: unknown, path: string): unknown => {
+  if (!path) {
+    return source;
+  }
+
+  const sanitized = path
+    .replace(/\[(\w+)\]/g, ".$1")
+    .replace(/^\./, "");
+
+  const segments = sanitized.split(".").filter(Boolean);
+
+  return segments.reduce<unknown>((acc, segment) => {
+    if (acc === undefined || acc === null) {
+      return undefined;
+    }
+    return accessValue(acc, segment);
+  }, source);
+};
+
+const toDate = (value: unknown): Date => {
+  const date =
+    value instanceof Date || typeof value === "number" || typeof value === "string"
+      ? new Date(value)
+      : new Date(NaN);
+  if (Number.isNaN(date.getTime())) {
+    throw new ExpressionError(`Invalid date: ${stringifyValue(value)}`);
+  }
+  return date;
+};
+
+const DURATION_UNITS: Record<string, number> = {
+  milliseconds: 1,
+  seconds: 1000,
+  minutes: 60_000,
+  hours: 3_600_000,
+  days: 86_400_000,
+  weeks: 604_800_000,
+};
+
+const getDurationUnit = (unit: unknown): number => {
+  const key = String(unit ?? "days");
+  const size = DURATION_UNITS[key] ?? DURATION_UNITS[`${key}s`];
+  if (!size) {
+    throw new ExpressionError(
+      `Unknown duration unit "${key}". Use one of: ${Object.keys(DURATION_UNITS).join(", ")}`
+    );
+  }
+  return size;
+};
+
+/**
+ * Formats a date with `YYYY`, `MM`, `DD`, `HH`, `mm`, `ss` and `SSS` tokens,
+ * optionally in an IANA time zone (defaults to the local one).
+ */
+const formatDate = (value: unknown, format = "YYYY-MM-DD", timeZone?: string): string => {
+  const date = toDate(value);
+  let parts: Record<string, string>;
+  try {
+    parts = Object.fromEntries(
+      new Intl.DateTimeFormat("en-US", {
+        timeZone,
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        hour: "2-digit",
+        minute: "2-digit",
+        second: "2-digit",
+        hourCycle: "h23",
+      })
+        .formatToParts(date)
+        .map((part) => [part.type, part.value])
+    );
+  } catch {
+    throw new ExpressionError(`Unknown time zone: ${timeZone}`);
+  }
+
+  const tokens: Record<string, string> = {
+    YYYY: parts.year,
+    MM: parts.month,
+    DD: parts.day,
+    HH: parts.hour,
+    mm: parts.minute,
+    ss: parts.second,
+    SSS: String(date.getMilliseconds()).padStart(3, "0"),
+  };
+  return String(format).replace(/YYYY|SSS|MM|DD|HH|mm|ss/g, (token) => tokens[token]);
+};
+
+const toNumberList = (values: unknown[]): number[] =>
+  (values.length === 1 && Array.isArray(values[0]) ? values[0] : values).map(Number);
+
+/**
+ * Functions available to every expression, next to the context values.
+ */
+export const expressionHelpers: Record<string, (...args: never[]) => unknown> = {
+  length: (value: unknown) =>
+    typeof value === "string" || Array.isArray(value)
+      ? value.length
+      : isRecord(value)
+        ? Object.keys(value).length
+        : 0,
+  upper: (value: unknown) => String(value ?? "").toUpperCase(),
+  lower: (value: unknown) => String(value ?? "").toLowerCase(),
+  trim: (value: unknown) => String(value ?? "").trim(),
+  split: (value: unknown, separator: unknown = ",") =>
+    String(value ?? "").split(String(separator)),
+  join: (value: unknown, separator: unknown = ",") =>
+    Array.isArray(value) ? value.map(stringifyValue).join(String(separator)) : stringifyValue(value),
+  replace: (value: unknown, search: unknown, replacement: unknown = "") =>
+    String(value ?? "").split(String(search)).join(String(replacement)),
+  includes: (value: unknown, search: unknown) =>
+    Array.isArray(value)
+      ? value.includes(search)
+      : String(value ?? "").includes(String(search)),
+  startsWith: (value: unknown, search: unknown) => String(value ?? "").startsWith(String(search)),
+  endsWith: (value: unknown, search: unknown) => String(value ?? "").endsWith(String(search)),
+  first: (value: unknown) => (Array.isArray(value) ? value[0] : value),
+  last: (value: unknown) => (Array.isArray(value) ? value[value.length - 1] : value),
+  unique: (value: unknown) =>
+    Array.isArray(value)
+      ? value.filter(
+          (entry, index) =>
+            value.findIndex((other) => stringifyValue(other) === stringifyValue(entry)) === index
+        )
+      : value,
+  sum: (value: unknown) =>
+    (Array.isArray(value) ? value : []).reduce<number>((total, entry) => total + Number(entry), 0),
+  keys: (value: unknown) => (isRecord(value) ? Object.keys(value) : []),
+  values: (value: unknown) => (isRecord(value) ? Object.values(value) : []),
+  isEmpty: (value: unknown) =>
+    value === undefined ||
+    value === null ||
+    value === "" ||
+    (Array.isArray(value) && value.length === 0) ||
+    (isRecord(value) && !Array.isArray(value) && Object.keys(value).length === 0),
+  number: (value: unknown) => Number(value),
+  string: (value: unknown) => (value === undefined || value === null ? "" : stringifyValue(value)),
+  boolean: (value: unknown) => Boolean(value) && value !== "false",
+  json: (value: unknown) => JSON.stringify(value),
+  parseJson: (value: unknown) => {
+    try {
+      return JSON.parse(String(value));
+    } catch {
+      throw new ExpressionError(`Invalid JSON: ${String(value).slice(0, 50)}`);
+    }
+  },
+  round: (value: unknown, digits: unknown = 0) => {
+    const factor = 10 ** Number(digits);
+    return Math.round(Number(value) * factor) / factor;
+  },
+  floor: (value: unknown) => Math.floor(Number(value)),
+  ceil: (value: unknown) => Math.ceil(Number(value)),
+  abs: (value: unknown) => Math.abs(Number(value)),
+  min: (...values: unknown[]) => Math.min(...toNumberList(values)),
+  max: (...values: unknown[]) => Math.max(...toNumberList(values)),
+  formatDate: (value: unknown, format?: unknown, timeZone?: unknown) =>
+    formatDate(
+      value,
+      format === undefined ? undefined : String(format),
+      timeZone === undefined ? undefined : String(timeZone)
+    ),
+  addDuration: (value: unknown, amount: unknown, unit?: unknown) =>
+    new Date(toDate(value).getTime() + Number(amount) * getDurationUnit(unit)).toISOString(),
+  dateDiff: (from: unknown, to: unknown, unit?: unknown) =>
+    (toDate(to).getTime() - toDate(from).getTime()) / getDurationUnit(unit),
+};
+
+/**
+ * Values visible to expressions: the context, `$`-prefixed aliases, the
+ * current time and the helper functions.
+ */
+export const createExpressionScope = (context: TemplateContext): ExpressionScope => {
+  const now = new Date();
+  const vars = context.vars ?? {};
+  return {
+    ...expressionHelpers,
+    input: context.input,
+    previousNodes: context.previousNodes,
+    vars,
+    item: context.item,
+    $input: context.input,
+    $node: context.previousNodes,
+    $vars: vars,
+    $json: isRecord(context.item) && isRecord(context.item.json) ? context.item.json : context.input,
+    $now: now.toISOString(),
+    $today: formatDate(now),
+  };
+};
+
+/**
+ * Evaluates an expression in the given context, with `locals` added to the
+ * scope. Bare node ids that are valid identifiers resolve to that node's
+ * output.
+ */
+export const evaluateTemplateExpression = (
+  source: string,
+  context: TemplateContext,
+  locals: ExpressionScope = {}
+): unknown =>
+  evaluateExpression(source, { ...createExpressionScope(context), ...locals }, (name) =>
+    Object.prototype.hasOwnProperty.call(context.previousNodes, name)
+      ? { found: true, value: context.previousNodes[name] }
+      : { found: false }
+  );
+
+// `{{node-1.output.items[0]}}` style references predate expressions, and
+// node ids aren't valid identifiers, so plain paths are resolved first.
+const PLAIN_PATH = /^[\w$-]+(?:\.[\w$-]+|\[\w+\])*$/;
+
+const resolvePlainPath = (path: string, context: TemplateContext): unknown => {
+  if (path === "input") {
+    return context.input;
+  }
+  if (path.startsWith("input.")) {
+    return resolvePath(context.input, path.slice(6));
+  }
+  if (path.startsWith("$vars.")) {
+    return context.vars?.[path.slice(6)];
+  }
+
+  const [nodeId, ...rest] = path.split(".");
+  if (nodeId && context.previousNodes[nodeId] !== undefined) {
+    return resolvePath(context.previousNodes[nodeId], rest.join("."));
+  }
+  return undefined;
+};
+
+/**
+ * Resolves a value path such as `input.user.name`, `node-1.output.id` or
+ * `$vars.limit`; paths without a known prefix are read from the input. A
+ * path written as a single `{{ expression }}` is evaluated instead, keeping
+ * the value's type.
+ */
+export const resolveContextPath = (rawPath: string, context: TemplateContext): unknown => {
+  const path = rawPath.trim();
+  const expression = /^\{\{([\s\S]+)\}\}$/.exec(path);
+  if (expression && !expression[1].includes("{{")) {
+    return evaluateTemplateExpression(expression[1].trim(), context);
+  }
+
+  if (!path || path === "input") {
+    return context.input;
+  }
+  if (path.startsWith("input.")) {
+    return resolvePath(context.input, path.slice(6));
+  }
+  if (path.startsWith("$vars.")) {
+    return context.vars?.[path.slice(6)];
+  }
+
+  const [nodeId, ...rest] = path.split(".");
+  if (nodeId && context.previousNodes[nodeId] !== undefined) {
+    return resolvePath(context.previousNodes[nodeId], rest.join("."));
+  }
+  return resolvePath(context.input, path);
+};
+
+/**
+ * Replaces every `{{ expression }}` in `rawText`. Placeholders that can't be
+ * resolved, or whose value is null or undefined, are left untouched.
+ */
+export function replaceTemplateVariables(rawText: unknown, context: TemplateContext): string {
+  if (typeof rawText !== "string") {
+    return String(rawText ?? "");
+  }
+
+  return rawText.replace(/\{\{([\s\S]+?)\}\}/g, (match, rawExpression: string) => {
+    const expression = rawExpression.trim();
+    if (!expression) {
+      return match;
+    }
+
+    let value = PLAIN_PATH.test(expression) ? resolvePlainPath(expression, context) : undefined;
+    if (value === undefined) {
+      try {
+        value = evaluateTemplateExpression(expression, context);
+      } catch {
+        return match;
+      }
+    }
+
+    return value !== undefined && value !== null ? stringifyValue(value) : match;
+  });
+}
@@ -15,15 +15,61 @@ export type NodeType =
   | "sendEmail"
   | "ifElse"
   | "delay"
-  | "switch";
+  | "switch"
+  | "merge"
+  | "splitInBatches"
+  | "executeWorkflow";
+
+export type BackoffStrategy = "fixed" | "exponential" | "jitter";
+
+export type RetryableErrors = "transient" | "rateLimit" | "all";
+
+export type NodeErrorMode = "stop" | "continue" | "errorOutput";
+
+/**
+ * Settings shared by every node type, independent of its config.
+ * Numeric values are stored as strings like the rest of the node config.
+ */
+export interface NodeSettings {
+  maxAttempts?: string;
+  backoff?: BackoffStrategy;
+  retryDelay?: string;
+  retryOn?: RetryableErrors;
+  /** Per-attempt timeout in milliseconds, empty or 0 for none. */
+  timeout?: string;
+  onError?: NodeErrorMode;
+}
+
+export type ValidationSeverity = "error" | "warning";
+
+/**
+ * A problem found in the workflow graph before running it. Errors block
+ * execution, warnings are only shown.
+ */
+export interface ValidationIssue {
+  id: string;
+  severity: ValidationSeverity;
+  message: string;
+  /** Nodes the issue is shown on. */
+  nodeIds?: string[];
+  edgeId?: string;
+}
 
 export interface NodeData {
   label: string;
   type: NodeType;
   config?: Record<string, any>;
+  settings?: NodeSettings;
+  /** Fixed output emitted instead of executing the node. */
+  pinnedData?: JsonValue;
+  /** Pause before this node when the workflow runs in debug mode. */
+  breakpoint?: boolean;
   output?: any;
   isExecuting?: boolean;
+  isPaused?: boolean;
   error?: string;
+  /** Issues from the last validation pass, derived and never persisted. */
+  validationIssues?: ValidationIssue[];
 }
 
 export interface WorkflowNode extends Node {
@@ -33,15 +79,98 @@ export interface WorkflowNode extends Node {
 export interface WorkflowEdgeData {
   branch?: string;
   displayLabel?: string;
+  inputLabel?: string;
 }
 
 export type WorkflowEdge = Edge<WorkflowEdgeData>;
 
+/**
+ * "single" passes each node's output along as one value, "items" passes
+ * arrays of `WorkflowItem`s and runs item-aware nodes once per item.
+ */
+export type WorkflowDataMode = "single" | "items";
+
+export interface WorkflowSettings {
+  /** Maximum number of nodes executing at the same time. */
+  concurrency?: number;
+  /** Cancel the run once it has been going for this long, 0 for no limit. */
+  maxDurationSeconds?: number;
+  dataMode?: WorkflowDataMode;
+}
+
+/** Variables referenced as `{{$vars.name}}` and as `vars` in code. */
+export type WorkflowVariables = Record<string, string>;
+
+export interface BinaryData {
+  /** Base64 encoded file contents. */
+  data: string;
+  mimeType: string;
+  fileName?: string;
+}
+
+export interface PairedItem {
+  /** Index of the input item this item was produced from. */
+  item: number;
+  /** Input handle index, for nodes with several inputs. */
+  input?: number;
+}
+
+export interface WorkflowItem {
+  json: { [key: string]: JsonValue };
+  binary?: Record<string, BinaryData>;
+  pairedItem?: PairedItem;
+}
+
+/**
+ * Output of routing nodes in item mode: the items sent to each branch.
+ */
+export interface RoutedItems {
+  routes: Record<string, WorkflowItem[]>;
+}
+
+export type ConditionValueType = "string" | "number" | "boolean" | "date" | "array";
+
+export type ConditionCombinator = "and" | "or";
+
+/**
+ * One If/Else rule: the value at `left` compared to `right` (and `rightTo`
+ * for ranges) with an operator of the rule's value type.
+ */
+export interface ConditionRule {
+  id: string;
+  left: string;
+  type: ConditionValueType;
+  operator: string;
+  right?: string;
+  rightTo?: string;
+}
+
+export type SwitchMatchMode = "exact" | "caseInsensitive" | "regex" | "range" | "expression";
+
+/**
+ * One Switch case. The id names the case's output handle, so edges stay
+ * attached when cases are reordered or edited. Ranges compare against
+ * `min`/`max`, every other mode against `value`.
+ */
+export interface SwitchCase {
+  id: string;
+  mode: SwitchMatchMode;
+  value: string;
+  label?: string;
+  min?: string;
+  max?: string;
+}
+
+/** "first" routes to the first matching case, "all" to every match. */
+export type SwitchOutputMode = "first" | "all";
+
 export interface SavedWorkflow {
   id: string;
   name: string;
   nodes: WorkflowNode[];
   edges: WorkflowEdge[];
+  settings?: WorkflowSettings;
+  variables?: WorkflowVariables;
   timestamp: number;
 }
 
@@ -53,8 +182,14 @@ export interface WorkflowSnapshot {
 export interface WorkflowState {
   nodes: WorkflowNode[];
   edges: WorkflowEdge[];
+  settings: WorkflowSettings;
+  variables: WorkflowVariables;
   history: WorkflowSnapshot[];
   historyIndex: number;
+  /** Saved workflows as last loaded from the server. */
+  savedWorkflows: SavedWorkflow[];
+  /** The saved workflow on the canvas, so its executions can be told apart. */
+  currentWorkflow: Pick<SavedWorkflow, "id" | "name"> | null;
   addNode: (node: WorkflowNode) => void;
   updateNode: (id: string, data: Partial<NodeData>) => void;
   deleteNode: (id: string) => void;
@@ -62,12 +197,16 @@ export interface WorkflowState {
   deleteEdge: (id: string) => void;
   setNodes: (nodes: WorkflowNode[]) => void;
   setEdges: (edges: WorkflowEdge[]) => void;
+  updateSettings: (settings: Partial<WorkflowSettings>) => void;
+  setVariables: (variables: WorkflowVariables) => void;
   clearWorkflow: () => void;
   duplicateNode: (id: string) => void;
-  saveWorkflow: (name: string) => string;
-  loadWorkflow: (id: string) => void;
+  /** Updates `currentWorkflow` if there is one, or saves a new workflow. */
+  saveWorkflow: (name: string) => Promise<string>;
+  loadWorkflow: (id: string) => Promise<void>;
+  refreshSavedWorkflows: () => Promise<SavedWorkflow[]>;
   getSavedWorkflows: () => SavedWorkflow[];
-  deleteSavedWorkflow: (id: string) => void;
+  deleteSavedWorkflow: (id: string) => Promise<void>;
   exportWorkflow: () => string;
   importWorkflow: (json: string) => void;
   undo: () => void;
@@ -77,15 +216,95 @@ export interface WorkflowState {
   saveToHistory: () => void;
 }
 
+export interface LoopIteration {
+  /** Zero-based index of the batch to emit. */
+  index: number;
+  /** Values fed back into the loop node by previous iterations. */
+  results: unknown[];
+}
+
+export interface SubWorkflowResult {
+  executionId: string;
+  status: "success" | "error" | "cancelled";
+  /** Output of the sub-workflow's last node. */
+  output: unknown;
+  error?: string;
+}
+
 export interface NodeExecutionContext {
   nodeId: string;
   input: any;
   config: Record<string, any>;
   previousNodes: Record<string, any>;
+  iteration?: LoopIteration;
+  settings?: NodeSettings;
+  pinnedData?: JsonValue;
+  signal?: AbortSignal;
+  dataMode?: WorkflowDataMode;
+  /** The item being processed when a node runs once per item. */
+  item?: WorkflowItem;
+  /** Global variables overridden by the workflow's own. */
+  vars?: WorkflowVariables;
+  /**
+   * Lets long waits end the run as "waiting" so it can be persisted and
+   * resumed later; otherwise Delay nodes block until the wait is over.
+   */
+  canWait?: boolean;
+  /** Runs a saved workflow as a child of the current execution. */
+  runSubWorkflow?: (
+    workflowId: string,
+    input: unknown,
+    signal?: AbortSignal
+  ) => Promise<SubWorkflowResult>;
+}
+
+export type DelayMode = "duration" | "until" | "webhook";
+
+/** Schedule triggers fire every `interval` `unit`s, or on a cron expression. */
+export type ScheduleMode = "interval" | "cron";
+
+/**
+ * Reported by a Delay node whose wait is too long to block on. `resumeAt`
+ * is set for timed waits, `webhookToken` when the node waits for its
+ * resume URL to be called.
+ */
+export interface NodeWait {
+  resumeAt?: number;
+  webhookToken?: string;
+}
+
+/** A `console` call captured while running user code. */
+export interface NodeLogEntry {
+  level: "log" | "info" | "warn" | "error";
+  message: string;
+}
+
+export interface NodeExecutionAttempt {
+  attempt: number;
+  startedAt: number;
+  finishedAt: number;
+  success: boolean;
+  error?: string;
+  statusCode?: number;
 }
 
 export interface NodeExecutionResult {
   success: boolean;
   output?: any;
   error?: string;
+  /** HTTP status of the failed upstream call, used to classify retryable errors. */
+  statusCode?: number;
+  attempts?: NodeExecutionAttempt[];
+  /** Set when the execution was aborted rather than failing on its own. */
+  cancelled?: boolean;
+  /** Set when the output is the node's pinned data. */
+  pinned?: boolean;
+  /** Item counts, only reported in item mode. */
+  itemCounts?: { input: number; output: number };
+  /** Execution id of the sub-workflow run by this node. */
+  subExecutionId?: string;
+  /** Console output of Data Transform code. */
+  logs?: NodeLogEntry[];
+  /** Set when the node suspended the run instead of finishing. */
+  wait?: NodeWait;
 }
\ No newline at end of file
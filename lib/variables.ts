@@ -0,0 +1,32 @@
+import type { WorkflowVariables } from "./types";
+
+export const GLOBAL_VARIABLES_KEY = "n8n-global-variables";
+
+/** Variable names must be usable as `{{$vars.name}}` and `vars.name`. */
+export const VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export function getGlobalVariables(): WorkflowVariables {
+  try {
+    const stored = localStorage.getItem(GLOBAL_VARIABLES_KEY);
+    return stored ? (JSON.parse(stored) as WorkflowVariables) : {};
+  } catch (error) {
+    console.error("Failed to load global variables:", error);
+    return {};
+  }
+}
+
+export function saveGlobalVariables(variables: WorkflowVariables) {
+  try {
+    localStorage.setItem(GLOBAL_VARIABLES_KEY, JSON.stringify(variables));
+  } catch (error) {
+    console.error("Failed to save global variables:", error);
+  }
+}
+
+/**
+ * Workflow variables take precedence over global ones with the same name.
+ */
+export const resolveVariables = (
+  globalVariables: WorkflowVariables = {},
+  workflowVariables: WorkflowVariables = {}
+): WorkflowVariables => ({ ...globalVariables, ...workflowVariables });
@@ -0,0 +1,98 @@
+import { withoutWaitTokens, type ExecutionLog } from "./execution-history";
+import type {
+  SavedWorkflow,
+  WorkflowEdge,
+  WorkflowNode,
+  WorkflowSettings,
+  WorkflowVariables,
+} from "./types";
+
+/**
+ * Executions suspended by Delay nodes are handed to the server, which
+ * resumes them when their wait is over or their resume webhook is called.
+ */
+
+export interface WaitingExecutionWorkflow extends Partial<Pick<SavedWorkflow, "id" | "name">> {
+  nodes: WorkflowNode[];
+  edges: WorkflowEdge[];
+  settings?: WorkflowSettings;
+  variables?: WorkflowVariables;
+}
+
+export interface WaitingExecution {
+  /** The execution so far; `log.wait` is set while it is still waiting. */
+  log: ExecutionLog;
+  /** Snapshot of the workflow as it was when the execution started. */
+  workflow: WaitingExecutionWorkflow;
+  globalVariables?: WorkflowVariables;
+  /** Saved workflows its Execute Workflow nodes can run. */
+  subWorkflows?: SavedWorkflow[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type WaitingExecutionInput = Pick<
+  WaitingExecution,
+  "log" | "workflow" | "globalVariables" | "subWorkflows"
+>;
+
+/**
+ * What the API returns for a waiting execution: the log without its resume
+ * webhook tokens, and none of the snapshots needed to resume it.
+ */
+export type WaitingExecutionView = Pick<WaitingExecution, "log" | "createdAt" | "updatedAt">;
+
+export const toWaitingExecutionView = ({
+  log,
+  createdAt,
+  updatedAt,
+}: WaitingExecution): WaitingExecutionView => ({
+  log: withoutWaitTokens(log),
+  createdAt,
+  updatedAt,
+});
+
+export const WAITING_EXECUTIONS_API = "/api/waiting";
+
+/** Secret part of a Delay node's resume webhook URL. */
+export const createWaitToken = (): string =>
+  Array.from(crypto.getRandomValues(new Uint8Array(24)), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+
+export async function suspendExecution(input: WaitingExecutionInput): Promise<WaitingExecutionView> {
+  const response = await fetch(WAITING_EXECUTIONS_API, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || "Failed to save the waiting execution");
+  }
+  return result.execution as WaitingExecutionView;
+}
+
+/** Returns the server's copy of an execution, or null if it doesn't know it. */
+export async function fetchWaitingExecution(id: string): Promise<WaitingExecutionView | null> {
+  const response = await fetch(`${WAITING_EXECUTIONS_API}/${encodeURIComponent(id)}`);
+  if (response.status === 404) {
+    return null;
+  }
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || "Failed to load the waiting execution");
+  }
+  return result.execution as WaitingExecutionView;
+}
+
+export async function cancelWaitingExecution(id: string): Promise<WaitingExecutionView> {
+  const response = await fetch(`${WAITING_EXECUTIONS_API}/${encodeURIComponent(id)}`, {
+    method: "DELETE",
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || "Failed to cancel the execution");
+  }
+  return result.execution as WaitingExecutionView;
+}
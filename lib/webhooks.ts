@@ -0,0 +1,75 @@
+import type { WorkflowNode } from "./types";
+
+/**
+ * Webhook trigger paths are served under `WEBHOOK_API`, e.g. a node with
+ * path `/orders/:id` listens on `/api/webhook/orders/:id`. Segments starting
+ * with `:` match any value and are passed on as `params`.
+ */
+
+export const WEBHOOK_API = "/api/webhook";
+
+export const webhookMethods = ["GET", "POST", "PUT", "PATCH", "DELETE"] as const;
+
+export type WebhookMethod = (typeof webhookMethods)[number];
+
+/** "immediately" answers before the run, "lastNode" with its final output. */
+export type WebhookResponseMode = "immediately" | "lastNode";
+
+export interface WebhookTriggerOutput {
+  method: string;
+  path: string;
+  params: Record<string, string>;
+  query: Record<string, string>;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+export const normalizeWebhookPath = (path: unknown): string =>
+  `/${String(path ?? "")
+    .split("/")
+    .map((segment) => segment.trim())
+    .filter(Boolean)
+    .join("/")}`;
+
+export const getWebhookMethod = (config?: Record<string, unknown>): WebhookMethod => {
+  const method = String(config?.method ?? "POST").toUpperCase();
+  return (webhookMethods as readonly string[]).includes(method) ? (method as WebhookMethod) : "POST";
+};
+
+export const getWebhookResponseMode = (config?: Record<string, unknown>): WebhookResponseMode =>
+  config?.responseMode === "lastNode" ? "lastNode" : "immediately";
+
+/**
+ * Matches a request path against a node's path pattern, returning the
+ * values of its `:param` segments or null.
+ */
+export const matchWebhookPath = (
+  pattern: string,
+  path: string
+): Record<string, string> | null => {
+  const patternSegments = normalizeWebhookPath(pattern).split("/").slice(1);
+  const pathSegments = normalizeWebhookPath(path).split("/").slice(1);
+  if (patternSegments.length !== pathSegments.length) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  for (const [index, segment] of patternSegments.entries()) {
+    if (segment.startsWith(":") && segment.length > 1) {
+      params[segment.slice(1)] = pathSegments[index];
+    } else if (segment !== pathSegments[index]) {
+      return null;
+    }
+  }
+  return params;
+};
+
+/** Method and path pattern a webhook node listens on, for conflict checks. */
+export const getWebhookRoute = (node: WorkflowNode): string =>
+  `${getWebhookMethod(node.data.config)} ${normalizeWebhookPath(node.data.config?.path).replace(
+    /\/:[^/]+/g,
+    "/:"
+  )}`;
+
+export const getWebhookNodes = (nodes: WorkflowNode[]): WorkflowNode[] =>
+  nodes.filter((node) => node.data.type === "webhook");
@@ -0,0 +1,1047 @@
+import { WorkflowExecutor } from "./executor";
+import {
+  formatDuration,
+  type ExecutionLog,
+  type ExecutionNodeResult,
+  type WaitingNode,
+} from "./execution-history";
+import { ERROR_OUTPUT_HANDLE, getNodeInputHandles, getOutputBranches } from "./node-helpers";
+import { isRoutedItems, toItems } from "./items";
+import { resolveVariables } from "./variables";
+import type {
+  JsonValue,
+  NodeExecutionResult,
+  SavedWorkflow,
+  SubWorkflowResult,
+  WorkflowDataMode,
+  WorkflowEdge,
+  WorkflowItem,
+  WorkflowNode,
+  WorkflowVariables,
+} from "./types";
+
+export type WorkflowRunnerEvent =
+  | { type: "nodeStarted"; nodeId: string }
+  | { type: "nodeFinished"; nodeId: string; output: unknown; duration: number }
+  | { type: "nodeFailed"; nodeId: string; error: string; duration: number }
+  | { type: "nodeCancelled"; nodeId: string; duration: number }
+  | { type: "nodePaused"; nodeId: string }
+  | { type: "nodeResumed"; nodeId: string }
+  | { type: "nodeWaiting"; nodeId: string; output: unknown }
+  | { type: "subWorkflowFinished"; nodeId: string; log: ExecutionLog };
+
+export type WorkflowRunnerListener = (event: WorkflowRunnerEvent) => void;
+
+/** State of a node the debugger paused on, before it executes. */
+export interface DebugPause {
+  nodeId: string;
+  input: unknown;
+  previousNodes: Record<string, unknown>;
+}
+
+/**
+ * How to continue after a pause. "step" pauses again before the next node,
+ * "continue" runs until the next breakpoint and "abort" cancels the run.
+ * `input` and `previousNodes` replace what the paused node receives.
+ */
+export interface DebugResume {
+  action: "step" | "continue" | "abort";
+  input?: unknown;
+  previousNodes?: Record<string, unknown>;
+}
+
+export type DebugPauseHandler = (pause: DebugPause) => Promise<DebugResume>;
+
+export interface WorkflowRunnerOptions {
+  executor?: WorkflowExecutor;
+  /** Maximum number of nodes executing at the same time. */
+  concurrency?: number;
+  /** Cancel the run after this many milliseconds. */
+  maxDurationMs?: number;
+  /** Aborting this signal cancels the run, like calling `cancel()`. */
+  signal?: AbortSignal;
+  /**
+   * Enables debug mode: the run pauses before every node with a breakpoint
+   * and waits for this handler. Nodes run one at a time and `maxDurationMs`
+   * is ignored while debugging.
+   */
+  onPause?: DebugPauseHandler;
+  /** How data flows between nodes, see `WorkflowDataMode`. */
+  dataMode?: WorkflowDataMode;
+  /** Looks up saved workflows for Execute Workflow nodes. */
+  getWorkflow?: (
+    workflowId: string
+  ) => SavedWorkflow | undefined | Promise<SavedWorkflow | undefined>;
+  /** Workflow being run, recorded on the execution log. */
+  workflow?: Pick<SavedWorkflow, "id" | "name">;
+  /** Set when running as a sub-workflow. */
+  parentExecutionId?: string;
+  /** Sub-workflow nesting level, 0 for top-level runs. */
+  depth?: number;
+  /** The workflow's own variables, overriding `globalVariables`. */
+  variables?: WorkflowVariables;
+  /** Variables shared by all workflows, also used by sub-workflows. */
+  globalVariables?: WorkflowVariables;
+  /**
+   * Lets long Delay waits suspend the run: it finishes as "waiting" with the
+   * state needed to `resume()` it. Only enable this when the caller persists
+   * waiting executions; otherwise Delay nodes block.
+   */
+  suspendWaits?: boolean;
+}
+
+export const DEFAULT_CONCURRENCY = 4;
+export const MAX_SUB_WORKFLOW_DEPTH = 5;
+export const MAX_CONCURRENCY = 32;
+
+export const normalizeConcurrency = (value: unknown): number => {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 1) {
+    return DEFAULT_CONCURRENCY;
+  }
+  return Math.min(Math.floor(parsed), MAX_CONCURRENCY);
+};
+
+const getErrorMessage = (error: unknown, fallback: string): string =>
+  error instanceof Error ? error.message : fallback;
+
+export const createExecutionId = () =>
+  `exec-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Nodes without incoming edges are the entry points of a workflow.
+ */
+export const findTriggerNodes = (
+  nodes: WorkflowNode[],
+  edges: WorkflowEdge[]
+): WorkflowNode[] =>
+  nodes.filter((node) => !edges.some((edge) => edge.target === node.id));
+
+const isJoinNode = (node: WorkflowNode) => node.data.type === "merge";
+
+const isLoopNode = (node: WorkflowNode) => node.data.type === "splitInBatches";
+
+/**
+ * The body of a loop node is everything reachable from its "loop" handle
+ * without passing through the loop node itself. Edges from the body back
+ * into the loop node close the (single, controlled) cycle.
+ */
+export const getLoopBody = (loopNodeId: string, edges: WorkflowEdge[]): Set<string> => {
+  const body = new Set<string>();
+  const pending = edges
+    .filter((edge) => edge.source === loopNodeId && edge.sourceHandle === "loop")
+    .map((edge) => edge.target);
+
+  while (pending.length > 0) {
+    const nodeId = pending.pop()!;
+    if (nodeId === loopNodeId || body.has(nodeId)) continue;
+    body.add(nodeId);
+    edges.filter((edge) => edge.source === nodeId).forEach((edge) => pending.push(edge.target));
+  }
+
+  return body;
+};
+
+/**
+ * The node itself plus every node reachable from it. Edges from a loop
+ * body back into its Split in Batches node are not followed.
+ */
+export const getDownstreamNodeIds = (nodeId: string, edges: WorkflowEdge[]): Set<string> => {
+  const reachable = new Set<string>();
+  const pending = [nodeId];
+
+  while (pending.length > 0) {
+    const current = pending.pop()!;
+    if (reachable.has(current)) continue;
+    reachable.add(current);
+
+    edges
+      .filter((edge) => edge.source === current)
+      .forEach((edge) => {
+        const loopBody = getLoopBody(edge.target, edges);
+        if (!loopBody.has(edge.source)) {
+          pending.push(edge.target);
+        }
+      });
+  }
+
+  return reachable;
+};
+
+export interface PartialRunOptions {
+  startNodeId: string;
+  /** "node" re-runs only the start node, "downstream" everything after it too. */
+  scope: "node" | "downstream";
+  /** Last known outputs of nodes that are not re-run. */
+  cachedOutputs: Record<string, unknown>;
+}
+
+export interface ResumeOptions {
+  /** Id of the suspended execution, kept by the resumed run. */
+  executionId: string;
+  /** The Delay node whose wait is over. */
+  nodeId: string;
+  /** Output the node emits now that it resumed. */
+  output: unknown;
+  /** Outputs of the nodes that ran before the execution was suspended. */
+  cachedOutputs: Record<string, unknown>;
+  /** Other nodes of the execution that are still waiting. */
+  waitingNodes: WaitingNode[];
+}
+
+export interface RunOptions {
+  /** Only this trigger node starts, e.g. the webhook that was called. */
+  triggerNodeId?: string;
+  /** Id for the execution log, to refer to the run before it finishes. */
+  executionId?: string;
+}
+
+interface ExecutionPlan {
+  /** Nodes allowed to run, or null for the whole workflow. */
+  scope: Set<string> | null;
+  cachedOutputs: Record<string, unknown>;
+  startNodeId?: string;
+  triggerPayload?: unknown;
+  triggerNodeId?: string;
+  executionId?: string;
+  /** Output of the start node when resuming, instead of executing it. */
+  resumedOutput?: unknown;
+  waitingNodes?: WaitingNode[];
+}
+
+interface LoopState {
+  input: unknown;
+  index: number;
+  results: unknown[];
+  body: Set<string>;
+  backEdges: WorkflowEdge[];
+  failed: boolean;
+  awaitingFeedback: boolean;
+}
+
+/**
+ * Orders the inputs a join node received by its input handles. Edges that
+ * were connected without a handle fill the remaining slots in order.
+ */
+const collectJoinInputs = (
+  node: WorkflowNode,
+  incomingEdges: WorkflowEdge[],
+  received: Map<string, unknown>
+): unknown[] => {
+  const handles = getNodeInputHandles(node.data.type, node.data.config) ?? [];
+  const inputs: unknown[] = handles.map(() => undefined);
+
+  incomingEdges
+    .filter((edge) => received.has(edge.id))
+    .forEach((edge) => {
+      const slot = handles.findIndex((handle) => handle.id === edge.targetHandle);
+      if (slot >= 0 && inputs[slot] === undefined) {
+        inputs[slot] = received.get(edge.id);
+        return;
+      }
+      const freeSlot = inputs.findIndex((value) => value === undefined);
+      if (freeSlot >= 0) {
+        inputs[freeSlot] = received.get(edge.id);
+      } else {
+        inputs.push(received.get(edge.id));
+      }
+    });
+
+  return inputs;
+};
+
+/**
+ * Picks the outgoing edges to follow after a node produced `output`.
+ * Branching nodes (If/Else, Switch) report a `branch`, or several
+ * `branches`, which are matched against the edge's handle, falling back to
+ * "default" and then to edges that were connected without a handle. Edges
+ * leaving the "error" handle are only followed when the node fails.
+ */
+export const selectOutgoingEdges = (
+  edges: WorkflowEdge[],
+  nodeId: string,
+  output: unknown
+): WorkflowEdge[] => {
+  const connectedEdges = edges.filter(
+    (edge) => edge.source === nodeId && edge.sourceHandle !== ERROR_OUTPUT_HANDLE
+  );
+  const branches = getOutputBranches(output);
+
+  if (branches.length === 0 || connectedEdges.length === 0) {
+    return connectedEdges;
+  }
+
+  const branchMatches = connectedEdges.filter(
+    (edge) => edge.data?.branch !== undefined && branches.includes(edge.data.branch)
+  );
+  if (branchMatches.length > 0) {
+    return branchMatches;
+  }
+
+  const defaultEdges = connectedEdges.filter((edge) => edge.data?.branch === "default");
+  if (defaultEdges.length > 0) {
+    return defaultEdges;
+  }
+
+  return connectedEdges.filter((edge) => !edge.data?.branch);
+};
+
+/**
+ * Maps every outgoing edge that receives data to the value it delivers. In
+ * item mode routing nodes send each branch its own items and Split in
+ * Batches delivers the current batch (or all results) rather than its
+ * bookkeeping output.
+ */
+const routeOutput = (
+  edges: WorkflowEdge[],
+  node: WorkflowNode,
+  output: unknown,
+  dataMode: WorkflowDataMode
+): Map<string, unknown> => {
+  const deliveries = new Map<string, unknown>();
+
+  if (dataMode === "items" && isRoutedItems(output)) {
+    // An item can be routed to several branches (Switch firing every
+    // match); it is delivered once per edge, like a single-value output
+    const itemBranches = new Map<WorkflowItem, string[]>();
+    Object.entries(output.routes).forEach(([branch, items]) =>
+      items.forEach((item) => itemBranches.set(item, [...(itemBranches.get(item) ?? []), branch]))
+    );
+    itemBranches.forEach((branches, item) => {
+      selectOutgoingEdges(edges, node.id, { branches }).forEach((edge) => {
+        const delivered = deliveries.get(edge.id) as WorkflowItem[] | undefined;
+        if (delivered) {
+          delivered.push(item);
+        } else {
+          deliveries.set(edge.id, [item]);
+        }
+      });
+    });
+    return deliveries;
+  }
+
+  let delivered = output;
+  if (dataMode === "items" && isLoopNode(node)) {
+    const loopOutput = output as { branch?: string; batch?: unknown; results?: unknown };
+    delivered = loopOutput?.branch === "loop" ? loopOutput.batch : loopOutput?.results;
+  }
+  selectOutgoingEdges(edges, node.id, output).forEach((edge) =>
+    deliveries.set(edge.id, delivered)
+  );
+  return deliveries;
+};
+
+/**
+ * The output of the last node that finished successfully without passing
+ * data on, i.e. the end of the branch that ran last.
+ */
+export const getFinalOutput = (log: ExecutionLog, edges: WorkflowEdge[]): unknown => {
+  const succeeded = log.results.filter((result) => result.status === "success");
+  const leaves = succeeded.filter(
+    (result) =>
+      !edges.some(
+        (edge) => edge.source === result.nodeId && edge.sourceHandle !== ERROR_OUTPUT_HANDLE
+      )
+  );
+  return (leaves.at(-1) ?? succeeded.at(-1))?.output ?? null;
+};
+
+/**
+ * Headless workflow engine. Drives `WorkflowExecutor.executeNode` over a
+ * node/edge graph and reports progress through lifecycle events, so the same
+ * engine can be used by the canvas, API routes or scripts.
+ *
+ * Nodes are scheduled by DAG readiness: independent branches run
+ * concurrently, up to the configured concurrency limit. A runner instance
+ * executes its workflow once; create a new one for every run.
+ */
+export class WorkflowRunner {
+  private readonly executor: WorkflowExecutor;
+  private readonly concurrency: number;
+  private readonly maxDurationMs?: number;
+  private readonly onPause?: DebugPauseHandler;
+  private readonly dataMode: WorkflowDataMode;
+  private readonly getWorkflow?: WorkflowRunnerOptions["getWorkflow"];
+  private readonly workflow?: WorkflowRunnerOptions["workflow"];
+  private readonly parentExecutionId?: string;
+  private readonly depth: number;
+  private readonly globalVariables?: WorkflowVariables;
+  private readonly variables: WorkflowVariables;
+  private readonly suspendWaits: boolean;
+  private readonly abortController = new AbortController();
+  private readonly listeners = new Set<WorkflowRunnerListener>();
+  private stepping = false;
+
+  constructor(
+    private readonly nodes: WorkflowNode[],
+    private readonly edges: WorkflowEdge[],
+    options: WorkflowRunnerOptions = {}
+  ) {
+    this.executor = options.executor ?? new WorkflowExecutor();
+    this.onPause = options.onPause;
+    this.dataMode = options.dataMode ?? "single";
+    this.getWorkflow = options.getWorkflow;
+    this.workflow = options.workflow;
+    this.parentExecutionId = options.parentExecutionId;
+    this.depth = options.depth ?? 0;
+    this.globalVariables = options.globalVariables;
+    this.variables = resolveVariables(options.globalVariables, options.variables);
+    this.suspendWaits = options.suspendWaits ?? false;
+    this.concurrency = this.onPause ? 1 : normalizeConcurrency(options.concurrency);
+    this.maxDurationMs =
+      !this.onPause && options.maxDurationMs && options.maxDurationMs > 0
+        ? options.maxDurationMs
+        : undefined;
+
+    const { signal } = options;
+    if (signal?.aborted) {
+      this.cancel();
+    } else {
+      signal?.addEventListener("abort", () => this.cancel(), { once: true });
+    }
+  }
+
+  subscribe(listener: WorkflowRunnerListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(event: WorkflowRunnerEvent) {
+    this.listeners.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error("Workflow runner listener failed:", error);
+      }
+    });
+  }
+
+  /**
+   * Stops scheduling new nodes and aborts the ones currently running.
+   */
+  cancel(reason = "Execution cancelled") {
+    if (!this.abortController.signal.aborted) {
+      this.abortController.abort(new Error(reason));
+    }
+  }
+
+  /**
+   * Waits for the debug handler before `nodeId` runs. Cancelling the run
+   * while paused resolves the pause as "abort".
+   */
+  private async pauseBefore(
+    nodeId: string,
+    input: unknown,
+    previousNodes: Record<string, unknown>
+  ): Promise<DebugResume> {
+    const signal = this.abortController.signal;
+    this.emit({ type: "nodePaused", nodeId });
+
+    let onAbort = () => {};
+    const aborted = new Promise<DebugResume>((resolve) => {
+      onAbort = () => resolve({ action: "abort" });
+      signal.addEventListener("abort", onAbort, { once: true });
+    });
+    const resume = await Promise.race([
+      this.onPause!({ nodeId, input, previousNodes: { ...previousNodes } }).catch(
+        (): DebugResume => ({ action: "abort" })
+      ),
+      aborted,
+    ]);
+    signal.removeEventListener("abort", onAbort);
+
+    this.emit({ type: "nodeResumed", nodeId });
+    this.stepping = resume.action === "step";
+    if (resume.action === "abort") {
+      this.cancel("Execution aborted in debugger");
+    }
+    return resume;
+  }
+
+  /**
+   * Runs a saved workflow in a child runner that shares this runner's
+   * executor. Logs of the child (and its own children) are reported through
+   * `subWorkflowFinished` events.
+   */
+  private async runSubWorkflow(
+    nodeId: string,
+    executionId: string,
+    workflowId: string,
+    input: unknown,
+    signal?: AbortSignal
+  ): Promise<SubWorkflowResult> {
+    if (!this.getWorkflow) {
+      throw new Error("Sub-workflows can't be executed here");
+    }
+    if (this.depth >= MAX_SUB_WORKFLOW_DEPTH) {
+      throw new Error(
+        `Sub-workflows can be nested at most ${MAX_SUB_WORKFLOW_DEPTH} levels deep`
+      );
+    }
+
+    const workflow = await this.getWorkflow(workflowId);
+    if (!workflow) {
+      throw new Error(`Workflow ${workflowId} does not exist`);
+    }
+
+    const child = new WorkflowRunner(workflow.nodes, workflow.edges, {
+      executor: this.executor,
+      concurrency: workflow.settings?.concurrency,
+      maxDurationMs: (workflow.settings?.maxDurationSeconds ?? 0) * 1000,
+      dataMode: workflow.settings?.dataMode,
+      signal: signal ?? this.abortController.signal,
+      getWorkflow: this.getWorkflow,
+      globalVariables: this.globalVariables,
+      variables: workflow.variables,
+      workflow: { id: workflow.id, name: workflow.name },
+      parentExecutionId: executionId,
+      depth: this.depth + 1,
+    });
+    child.subscribe((event) => {
+      if (event.type === "subWorkflowFinished") {
+        this.emit(event);
+      }
+    });
+
+    const log = await child.run(input);
+    this.emit({ type: "subWorkflowFinished", nodeId, log });
+
+    return {
+      executionId: log.id,
+      // Sub-workflows never suspend: their runner doesn't enable suspendWaits
+      status: log.status === "running" || log.status === "waiting" ? "error" : log.status,
+      output: getFinalOutput(log, workflow.edges),
+      error: log.errorMessage,
+    };
+  }
+
+  /**
+   * Runs the whole workflow, passing `triggerPayload` to every trigger node,
+   * or only to `triggerNodeId` when the run was started by that trigger.
+   */
+  run(
+    triggerPayload: unknown = null,
+    { triggerNodeId, executionId }: RunOptions = {}
+  ): Promise<ExecutionLog> {
+    return this.execute({ scope: null, cachedOutputs: {}, triggerPayload, triggerNodeId, executionId });
+  }
+
+  /**
+   * Re-runs a single node, or a node and everything downstream of it, using
+   * `cachedOutputs` (the last results of the other nodes) as its input and
+   * as `previousNodes`.
+   */
+  runFrom({ startNodeId, scope, cachedOutputs }: PartialRunOptions): Promise<ExecutionLog> {
+    const node = this.nodes.find((n) => n.id === startNodeId);
+    if (!node) {
+      return Promise.reject(new Error(`Node ${startNodeId} does not exist`));
+    }
+
+    const upstreamIds = this.edges
+      .filter((edge) => edge.target === startNodeId)
+      .map((edge) => edge.source);
+    if (upstreamIds.length > 0 && !upstreamIds.some((id) => cachedOutputs[id] !== undefined)) {
+      return Promise.reject(
+        new Error(`"${node.data.label}" has no upstream output yet. Run the workflow first.`)
+      );
+    }
+
+    return this.execute({
+      scope:
+        scope === "node"
+          ? new Set([startNodeId])
+          : getDownstreamNodeIds(startNodeId, this.edges),
+      cachedOutputs,
+      startNodeId,
+    });
+  }
+
+  /**
+   * Continues a suspended execution once one of its Delay nodes is done
+   * waiting: the node emits `output` and everything downstream of it runs,
+   * except nodes that also depend on a node that is still waiting. Those run
+   * when the last of their waits resumes.
+   */
+  resume({ executionId, nodeId, output, cachedOutputs, waitingNodes }: ResumeOptions): Promise<ExecutionLog> {
+    if (!this.nodes.some((n) => n.id === nodeId)) {
+      return Promise.reject(new Error(`Node ${nodeId} does not exist`));
+    }
+
+    const scope = getDownstreamNodeIds(nodeId, this.edges);
+    waitingNodes.forEach((waiting) =>
+      getDownstreamNodeIds(waiting.nodeId, this.edges).forEach((id) => scope.delete(id))
+    );
+    scope.add(nodeId);
+
+    return this.execute({
+      scope,
+      cachedOutputs,
+      startNodeId: nodeId,
+      executionId,
+      resumedOutput: output,
+      waitingNodes,
+    });
+  }
+
+  private async execute(plan: ExecutionPlan): Promise<ExecutionLog> {
+    const executionId = plan.executionId ?? createExecutionId();
+    const startTime = Date.now();
+    const signal = this.abortController.signal;
+    const maxDurationTimer = this.maxDurationMs
+      ? setTimeout(
+          () =>
+            this.cancel(
+              `Execution exceeded the maximum duration of ${formatDuration(this.maxDurationMs!)}`
+            ),
+          this.maxDurationMs
+        )
+      : undefined;
+    const { scope } = plan;
+
+    const executionResults: ExecutionNodeResult[] = [];
+    const executedNodes = new Set<string>();
+    const nodeOutputs: Record<string, unknown> = { ...plan.cachedOutputs };
+    const waitingNodes: WaitingNode[] = [...(plan.waitingNodes ?? [])];
+    let hasError = false;
+    let errorMessage = "";
+
+    const recordFailure = (
+      node: WorkflowNode,
+      error: string,
+      startedAt: number,
+      finishedAt: number,
+      result?: Pick<NodeExecutionResult, "attempts" | "subExecutionId" | "logs">
+    ) => {
+      const duration = finishedAt - startedAt;
+      hasError = true;
+      errorMessage = error;
+      executionResults.push({
+        nodeId: node.id,
+        nodeName: node.data.label,
+        status: "error",
+        error,
+        duration,
+        startedAt,
+        finishedAt,
+        attempts: result?.attempts,
+        subExecutionId: result?.subExecutionId,
+        logs: result?.logs,
+      });
+      this.emit({ type: "nodeFailed", nodeId: node.id, error, duration });
+    };
+
+    // Join semantics: every edge is eventually "settled", either by delivering
+    // its source's output or by being skipped (branch not taken, upstream
+    // failed). Join nodes such as Merge only become ready once all incoming
+    // edges have settled; other nodes are ready as soon as the first input
+    // arrives.
+    const settledEdges = new Set<string>();
+    const deliveredInputs = new Map<string, Map<string, unknown>>();
+    const skippedNodes = new Set<string>();
+    const readyQueue: Array<{ nodeId: string; input: unknown }> = [];
+    const activeNodes = new Set<string>();
+    const loopStates = new Map<string, LoopState>();
+
+    const getIncomingEdges = (nodeId: string) =>
+      this.edges.filter((edge) => edge.target === nodeId);
+
+    const enqueue = (nodeId: string, input: unknown) => {
+      activeNodes.add(nodeId);
+      readyQueue.push({ nodeId, input });
+    };
+
+    const schedule = (nodeId: string, input: unknown) => {
+      if (executedNodes.has(nodeId)) return;
+      executedNodes.add(nodeId);
+      enqueue(nodeId, input);
+    };
+
+    const skipOutgoingEdges = (nodeId: string) => {
+      this.edges
+        .filter((edge) => edge.source === nodeId)
+        .forEach((edge) => settleEdge(edge, false));
+    };
+
+    const findLoopForBackEdge = (edge: WorkflowEdge) => {
+      const state = loopStates.get(edge.target);
+      return state?.backEdges.includes(edge) ? state : undefined;
+    };
+
+    const settleEdge = (edge: WorkflowEdge, delivered: boolean, output?: unknown) => {
+      settledEdges.add(edge.id);
+
+      if (scope && !scope.has(edge.target)) {
+        return;
+      }
+
+      const loopState = findLoopForBackEdge(edge);
+      if (loopState) {
+        if (delivered) {
+          const received = deliveredInputs.get(edge.target) ?? new Map<string, unknown>();
+          received.set(edge.id, output);
+          deliveredInputs.set(edge.target, received);
+        }
+        return;
+      }
+
+      const target = this.nodes.find((n) => n.id === edge.target);
+      if (!target || executedNodes.has(target.id) || skippedNodes.has(target.id)) {
+        return;
+      }
+
+      if (isLoopNode(target)) {
+        const body = getLoopBody(target.id, this.edges);
+        const entryEdges = getIncomingEdges(target.id).filter((e) => !body.has(e.source));
+        if (delivered) {
+          startLoop(target, output);
+        } else if (entryEdges.every((e) => settledEdges.has(e.id))) {
+          skippedNodes.add(target.id);
+          skipOutgoingEdges(target.id);
+        }
+        return;
+      }
+
+      const received = deliveredInputs.get(target.id) ?? new Map<string, unknown>();
+      if (delivered) {
+        received.set(edge.id, output);
+        deliveredInputs.set(target.id, received);
+      }
+
+      const incomingEdges = getIncomingEdges(target.id);
+      const allSettled = incomingEdges.every((e) => settledEdges.has(e.id));
+
+      if (isJoinNode(target)) {
+        if (!allSettled) return;
+        if (received.size === 0) {
+          skippedNodes.add(target.id);
+          skipOutgoingEdges(target.id);
+          return;
+        }
+        schedule(target.id, collectJoinInputs(target, incomingEdges, received));
+        return;
+      }
+
+      if (delivered) {
+        schedule(target.id, output);
+      } else if (allSettled && received.size === 0) {
+        skippedNodes.add(target.id);
+        skipOutgoingEdges(target.id);
+      }
+    };
+
+    const startLoop = (node: WorkflowNode, input: unknown) => {
+      const body = getLoopBody(node.id, this.edges);
+      loopStates.set(node.id, {
+        input,
+        index: 0,
+        results: [],
+        body,
+        backEdges: getIncomingEdges(node.id).filter((edge) => body.has(edge.source)),
+        failed: false,
+        awaitingFeedback: false,
+      });
+      schedule(node.id, input);
+    };
+
+    const resetLoopBody = (state: LoopState) => {
+      state.body.forEach((nodeId) => {
+        executedNodes.delete(nodeId);
+        skippedNodes.delete(nodeId);
+        deliveredInputs.delete(nodeId);
+        loopStates.delete(nodeId);
+      });
+      this.edges
+        .filter((edge) => state.body.has(edge.target) || state.backEdges.includes(edge))
+        .forEach((edge) => settledEdges.delete(edge.id));
+    };
+
+    // An iteration is complete once every back edge has settled and no node
+    // of the loop body is still queued or running.
+    const advanceLoops = () => {
+      loopStates.forEach((state, loopNodeId) => {
+        if (!state.awaitingFeedback) return;
+        if (!state.backEdges.every((edge) => settledEdges.has(edge.id))) return;
+        if ([...state.body].some((nodeId) => activeNodes.has(nodeId))) return;
+
+        state.awaitingFeedback = false;
+        const received = deliveredInputs.get(loopNodeId);
+        state.backEdges
+          .filter((edge) => received?.has(edge.id))
+          .forEach((edge) => state.results.push(received!.get(edge.id)));
+        deliveredInputs.delete(loopNodeId);
+        resetLoopBody(state);
+
+        if (state.failed) {
+          this.edges
+            .filter((edge) => edge.source === loopNodeId && edge.sourceHandle !== "loop")
+            .forEach((edge) => settleEdge(edge, false));
+          return;
+        }
+
+        state.index += 1;
+        enqueue(loopNodeId, state.input);
+      });
+    };
+
+    const markLoopFailures = (nodeId: string) => {
+      loopStates.forEach((state) => {
+        if (state.body.has(nodeId)) {
+          state.failed = true;
+        }
+      });
+    };
+
+    const executeScheduledNode = async (nodeId: string, input: unknown) => {
+      const node = this.nodes.find((n) => n.id === nodeId);
+      if (!node) return;
+
+      let previousNodes = nodeOutputs;
+      const isResumedNode = plan.resumedOutput !== undefined && nodeId === plan.startNodeId;
+      if (
+        this.onPause &&
+        (this.stepping || node.data.breakpoint) &&
+        !isResumedNode &&
+        !signal.aborted
+      ) {
+        const resume = await this.pauseBefore(nodeId, input, nodeOutputs);
+        if (resume.action === "abort") return;
+        if (resume.input !== undefined) input = resume.input;
+        if (resume.previousNodes) previousNodes = resume.previousNodes;
+      }
+
+      const loopState = loopStates.get(nodeId);
+      const startedAt = Date.now();
+      this.emit({ type: "nodeStarted", nodeId });
+
+      let result: NodeExecutionResult;
+      try {
+        result = isResumedNode
+          ? { success: true, output: plan.resumedOutput }
+          : await this.executor.executeNode({
+          nodeId: node.id,
+          input,
+          config: node.data.config || {},
+          previousNodes,
+          settings: node.data.settings,
+          pinnedData: node.data.pinnedData,
+          signal,
+          dataMode: this.dataMode,
+          vars: this.variables,
+          canWait: this.suspendWaits,
+          runSubWorkflow: (workflowId, subInput, subSignal) =>
+            this.runSubWorkflow(nodeId, executionId, workflowId, subInput, subSignal),
+          iteration: loopState
+            ? { index: loopState.index, results: [...loopState.results] }
+            : undefined,
+        });
+      } catch (error: unknown) {
+        result = { success: false, error: getErrorMessage(error, "Execution failed") };
+      }
+
+      const finishedAt = Date.now();
+
+      if (result.cancelled) {
+        executionResults.push({
+          nodeId: node.id,
+          nodeName: node.data.label,
+          status: "cancelled",
+          error: result.error,
+          duration: finishedAt - startedAt,
+          startedAt,
+          finishedAt,
+          attempts: result.attempts,
+        });
+        this.emit({ type: "nodeCancelled", nodeId, duration: finishedAt - startedAt });
+        return;
+      }
+
+      if (!result.success) {
+        const error = result.error || "Unknown error";
+        const onError = node.data.settings?.onError ?? "stop";
+
+        if (onError === "stop") {
+          recordFailure(node, error, startedAt, finishedAt, result);
+          markLoopFailures(nodeId);
+          skipOutgoingEdges(nodeId);
+          return;
+        }
+
+        // Handled failures don't fail the run: the node either passes on an
+        // empty output or routes the error to its "error" handle.
+        const errorOutput = onError === "continue" ? {} : { error, input };
+        const output = this.dataMode === "items" ? toItems(errorOutput) : errorOutput;
+        nodeOutputs[nodeId] = output;
+        executionResults.push({
+          nodeId: node.id,
+          nodeName: node.data.label,
+          status: "error",
+          output: output as JsonValue,
+          error,
+          duration: finishedAt - startedAt,
+          startedAt,
+          finishedAt,
+          attempts: result.attempts,
+          subExecutionId: result.subExecutionId,
+          logs: result.logs,
+        });
+        this.emit({ type: "nodeFailed", nodeId, error, duration: finishedAt - startedAt });
+
+        this.edges
+          .filter((edge) => edge.source === nodeId)
+          .forEach((edge) => {
+            const isErrorEdge = edge.sourceHandle === ERROR_OUTPUT_HANDLE;
+            settleEdge(edge, onError === "continue" ? !isErrorEdge : isErrorEdge, output);
+          });
+        return;
+      }
+
+      // Downstream nodes stay pending until the execution is resumed
+      if (result.wait) {
+        waitingNodes.push({ nodeId, input, ...result.wait });
+        executionResults.push({
+          nodeId: node.id,
+          nodeName: node.data.label,
+          status: "waiting",
+          output: result.output as JsonValue,
+          duration: finishedAt - startedAt,
+          startedAt,
+          finishedAt,
+        });
+        this.emit({ type: "nodeWaiting", nodeId, output: result.output });
+        return;
+      }
+
+      nodeOutputs[nodeId] = isRoutedItems(result.output)
+        ? Object.values(result.output.routes).flat()
+        : result.output;
+      executionResults.push({
+        nodeId: node.id,
+        nodeName: node.data.label,
+        status: "success",
+        output: result.output as JsonValue,
+        duration: finishedAt - startedAt,
+        startedAt,
+        finishedAt,
+        attempts: result.attempts,
+        pinned: result.pinned,
+        inputItems: result.itemCounts?.input,
+        outputItems: result.itemCounts?.output,
+        subExecutionId: result.subExecutionId,
+        logs: result.logs,
+      });
+      this.emit({
+        type: "nodeFinished",
+        nodeId,
+        output: result.output,
+        duration: finishedAt - startedAt,
+      });
+
+      const outgoingEdges = this.edges.filter((edge) => edge.source === nodeId);
+      const deliveries = routeOutput(this.edges, node, result.output, this.dataMode);
+
+      // A loop node only settles the edges of the branch it emitted: the
+      // "done" edges must stay open while iterating and vice versa.
+      if (loopState) {
+        const branch = (result.output as { branch?: string } | undefined)?.branch;
+        const branchEdges = outgoingEdges.filter((edge) => edge.sourceHandle === branch);
+        loopState.awaitingFeedback = branch === "loop";
+        branchEdges.forEach((edge) =>
+          settleEdge(edge, true, deliveries.has(edge.id) ? deliveries.get(edge.id) : result.output)
+        );
+        return;
+      }
+
+      outgoingEdges.forEach((edge) =>
+        settleEdge(edge, deliveries.has(edge.id), deliveries.get(edge.id))
+      );
+    };
+
+    const startNode = plan.startNodeId
+      ? this.nodes.find((n) => n.id === plan.startNodeId)
+      : undefined;
+
+    if (startNode && scope) {
+      // Edges entering the re-run scope from outside are settled up front
+      // with the cached output of their source, so join nodes in the scope
+      // don't wait for nodes that are not re-run.
+      this.edges
+        .filter((edge) => scope.has(edge.target) && !scope.has(edge.source))
+        .forEach((edge) => {
+          settledEdges.add(edge.id);
+          const cached = plan.cachedOutputs[edge.source];
+          const source = this.nodes.find((n) => n.id === edge.source);
+          const deliveries =
+            cached !== undefined && source
+              ? routeOutput(this.edges, source, cached, this.dataMode)
+              : undefined;
+          if (deliveries?.has(edge.id)) {
+            const received = deliveredInputs.get(edge.target) ?? new Map<string, unknown>();
+            received.set(edge.id, deliveries.get(edge.id));
+            deliveredInputs.set(edge.target, received);
+          }
+        });
+
+      const incomingEdges = getIncomingEdges(startNode.id);
+      const received = deliveredInputs.get(startNode.id) ?? new Map<string, unknown>();
+      const input = isJoinNode(startNode)
+        ? collectJoinInputs(startNode, incomingEdges, received)
+        : received.size > 0
+          ? received.values().next().value
+          : plan.triggerPayload ?? null;
+
+      deliveredInputs.delete(startNode.id);
+      if (isLoopNode(startNode)) {
+        startLoop(startNode, input);
+      } else {
+        schedule(startNode.id, input);
+      }
+    } else {
+      findTriggerNodes(this.nodes, this.edges)
+        .filter((triggerNode) => !plan.triggerNodeId || triggerNode.id === plan.triggerNodeId)
+        .forEach((triggerNode) => schedule(triggerNode.id, plan.triggerPayload ?? null));
+    }
+
+    const running = new Set<Promise<void>>();
+    while (readyQueue.length > 0 || running.size > 0) {
+      if (signal.aborted) {
+        readyQueue.splice(0).forEach(({ nodeId }) => activeNodes.delete(nodeId));
+        if (running.size === 0) break;
+      }
+      while (readyQueue.length > 0 && running.size < this.concurrency) {
+        const { nodeId, input } = readyQueue.shift()!;
+        const task: Promise<void> = executeScheduledNode(nodeId, input).finally(() => {
+          running.delete(task);
+          activeNodes.delete(nodeId);
+          advanceLoops();
+        });
+        running.add(task);
+      }
+      await Promise.race(running);
+    }
+
+    clearTimeout(maxDurationTimer);
+    const cancelled = signal.aborted;
+    const waiting = !cancelled && !hasError && waitingNodes.length > 0;
+
+    return {
+      id: executionId,
+      timestamp: startTime,
+      duration: Date.now() - startTime,
+      status: cancelled ? "cancelled" : hasError ? "error" : waiting ? "waiting" : "success",
+      nodesExecuted: new Set(executionResults.map((result) => result.nodeId)).size,
+      totalNodes: scope ? scope.size : this.nodes.length,
+      results: executionResults,
+      errorMessage: cancelled
+        ? getErrorMessage(signal.reason, "Execution cancelled")
+        : hasError
+          ? errorMessage
+          : undefined,
+      workflowId: this.workflow?.id,
+      workflowName: this.workflow?.name,
+      parentExecutionId: this.parentExecutionId,
+      wait: waiting ? { nodes: waitingNodes, nodeOutputs } : undefined,
+    };
+  }
+}
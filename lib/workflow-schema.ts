@@ -0,0 +1,105 @@
+import { z } from "zod";
+import { nodeDefinitions } from "./node-definitions";
+import type { NodeType, SavedWorkflow, WorkflowEdge, WorkflowNode } from "./types";
+
+/**
+ * Zod schemas for workflows sent to the API, matching `SavedWorkflow`.
+ * Unknown keys on nodes and edges are kept, as React Flow adds its own.
+ */
+
+const nodeSettingsSchema = z.looseObject({
+  maxAttempts: z.string().optional(),
+  backoff: z.enum(["fixed", "exponential", "jitter"]).optional(),
+  retryDelay: z.string().optional(),
+  retryOn: z.enum(["transient", "rateLimit", "all"]).optional(),
+  timeout: z.string().optional(),
+  onError: z.enum(["stop", "continue", "errorOutput"]).optional(),
+});
+
+const workflowNodeSchema: z.ZodType<WorkflowNode> = z.looseObject({
+  id: z.string().min(1, "Node id is required"),
+  type: z.string().optional(),
+  position: z.object({ x: z.number(), y: z.number() }),
+  data: z.looseObject({
+    label: z.string(),
+    type: z.custom<NodeType>((type) => typeof type === "string" && type in nodeDefinitions, {
+      error: (issue) => `Unknown node type "${String(issue.input)}"`,
+    }),
+    config: z.record(z.string(), z.any()).optional(),
+    settings: nodeSettingsSchema.optional(),
+    pinnedData: z.json().optional(),
+  }),
+});
+
+const workflowEdgeSchema: z.ZodType<WorkflowEdge> = z.looseObject({
+  id: z.string().min(1, "Edge id is required"),
+  source: z.string(),
+  target: z.string(),
+  sourceHandle: z.string().nullish(),
+  targetHandle: z.string().nullish(),
+  data: z
+    .looseObject({
+      branch: z.string().optional(),
+      displayLabel: z.string().optional(),
+      inputLabel: z.string().optional(),
+    })
+    .optional(),
+});
+
+const workflowSettingsSchema = z.looseObject({
+  concurrency: z.number().int().min(1).optional(),
+  maxDurationSeconds: z.number().min(0).optional(),
+  dataMode: z.enum(["single", "items"]).optional(),
+});
+
+export const workflowVariablesSchema = z.record(z.string(), z.string());
+
+const workflowFields = {
+  name: z.string().trim().min(1, "Workflow name is required"),
+  nodes: z.array(workflowNodeSchema),
+  edges: z.array(workflowEdgeSchema),
+  settings: workflowSettingsSchema.optional(),
+  variables: workflowVariablesSchema.optional(),
+};
+
+const checkGraph = ({ nodes, edges }: Pick<SavedWorkflow, "nodes" | "edges">, ctx: z.RefinementCtx) => {
+  const nodeIds = new Set<string>();
+  nodes.forEach((node, index) => {
+    if (nodeIds.has(node.id)) {
+      ctx.addIssue({ code: "custom", message: `Duplicate node id "${node.id}"`, path: ["nodes", index] });
+    }
+    nodeIds.add(node.id);
+  });
+  edges.forEach((edge, index) => {
+    const missing = [edge.source, edge.target].find((id) => !nodeIds.has(id));
+    if (missing !== undefined) {
+      ctx.addIssue({
+        code: "custom",
+        message: `Edge "${edge.id}" points at unknown node "${missing}"`,
+        path: ["edges", index],
+      });
+    }
+  });
+};
+
+/** Body of a workflow update: everything but the id and save time. */
+export const workflowInputSchema = z.object(workflowFields).superRefine(checkGraph);
+
+/** A new workflow; the id is kept when given, e.g. when migrating. */
+export const createWorkflowSchema = z
+  .object({
+    ...workflowFields,
+    id: z.string().min(1).optional(),
+    timestamp: z.number().optional(),
+  })
+  .superRefine(checkGraph);
+
+/** A saved workflow, e.g. one an Execute Workflow node may run. */
+export const savedWorkflowSchema = z
+  .object({ ...workflowFields, id: z.string().min(1), timestamp: z.number() })
+  .superRefine(checkGraph);
+
+/** The workflow a waiting execution resumes with, which may never have been saved. */
+export const workflowSnapshotSchema = z
+  .object({ ...workflowFields, id: z.string().optional(), name: z.string().optional() })
+  .superRefine(checkGraph);
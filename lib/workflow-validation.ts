@@ -0,0 +1,305 @@
+import { nodeDefinitions } from "./node-definitions";
+import { ExpressionError, validateExpression } from "./expression";
+import { getConditionRuleProblem, parseConditionRules } from "./conditions";
+import { getNodeInputHandles, getNodeOutputHandles } from "./node-helpers";
+import { getSwitchCaseLabel, getSwitchCaseProblem, parseSwitchCases } from "./switch-cases";
+import { getDelayConfigProblem } from "./delay";
+import { getScheduleConfigProblem } from "./schedule";
+import { getLoopBody } from "./workflow-runner";
+import type { ValidationIssue, WorkflowEdge, WorkflowNode } from "./types";
+
+export const isTriggerNode = (node: WorkflowNode) =>
+  nodeDefinitions[node.data.type]?.category === "trigger";
+
+const isEmptyValue = (value: unknown) =>
+  value === undefined || value === null || String(value).trim() === "";
+
+/**
+ * The config field holding an expression for nodes that evaluate one, so
+ * syntax errors are reported before running.
+ */
+const getExpressionField = (node: WorkflowNode): string | null => {
+  if (node.data.type === "ifElse" && node.data.config?.conditionType !== "rules") {
+    return "condition";
+  }
+  if (node.data.type === "dataTransform" && node.data.config?.mode === "expression") {
+    return "code";
+  }
+  return null;
+};
+
+/**
+ * Edges from a loop body back into its Split in Batches node are the only
+ * cycles the engine supports.
+ */
+const isLoopBackEdge = (
+  edge: WorkflowEdge,
+  nodesById: Map<string, WorkflowNode>,
+  edges: WorkflowEdge[]
+) =>
+  nodesById.get(edge.target)?.data.type === "splitInBatches" &&
+  getLoopBody(edge.target, edges).has(edge.source);
+
+/**
+ * Returns the node ids of every cycle, each in edge order.
+ */
+const findCycles = (nodes: WorkflowNode[], edges: WorkflowEdge[]): string[][] => {
+  const nodesById = new Map(nodes.map((node) => [node.id, node]));
+  const forwardEdges = edges.filter((edge) => !isLoopBackEdge(edge, nodesById, edges));
+  const state = new Map<string, "visiting" | "done">();
+  const path: string[] = [];
+  const cycles: string[][] = [];
+
+  const visit = (nodeId: string) => {
+    state.set(nodeId, "visiting");
+    path.push(nodeId);
+
+    forwardEdges
+      .filter((edge) => edge.source === nodeId && nodesById.has(edge.target))
+      .forEach((edge) => {
+        const targetState = state.get(edge.target);
+        if (targetState === "visiting") {
+          cycles.push(path.slice(path.indexOf(edge.target)));
+        } else if (!targetState) {
+          visit(edge.target);
+        }
+      });
+
+    path.pop();
+    state.set(nodeId, "done");
+  };
+
+  nodes.forEach((node) => {
+    if (!state.has(node.id)) visit(node.id);
+  });
+
+  return cycles;
+};
+
+/**
+ * Checks the graph before it runs: cycles, nodes that would run as entry
+ * points without being triggers, disconnected nodes, edges attached to
+ * handles that no longer exist and required config fields left empty.
+ */
+export const validateWorkflow = (
+  nodes: WorkflowNode[],
+  edges: WorkflowEdge[]
+): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const nodesById = new Map(nodes.map((node) => [node.id, node]));
+
+  if (nodes.length > 0 && !nodes.some(isTriggerNode)) {
+    issues.push({
+      id: "no-trigger",
+      severity: "error",
+      message: "Add a trigger node to start the workflow",
+    });
+  }
+
+  nodes.forEach((node) => {
+    const definition = nodeDefinitions[node.data.type];
+    const label = node.data.label;
+    const hasIncoming = edges.some((edge) => edge.target === node.id);
+    const hasOutgoing = edges.some((edge) => edge.source === node.id);
+
+    if (isTriggerNode(node)) {
+      if (!hasOutgoing && nodes.length > 1) {
+        issues.push({
+          id: `disconnected-${node.id}`,
+          severity: "warning",
+          message: `"${label}" is not connected to any node`,
+          nodeIds: [node.id],
+        });
+      }
+    } else if (!hasIncoming) {
+      issues.push({
+        id: `entry-${node.id}`,
+        severity: "error",
+        message: hasOutgoing
+          ? `"${label}" has no incoming connection and would run as an entry point`
+          : `"${label}" is not connected to the workflow`,
+        nodeIds: [node.id],
+      });
+    }
+
+    definition?.configFields
+      .filter((field) => field.required && isEmptyValue(node.data.config?.[field.name]))
+      .forEach((field) => {
+        issues.push({
+          id: `required-${node.id}-${field.name}`,
+          severity: "error",
+          message: `"${label}" is missing required field "${field.label}"`,
+          nodeIds: [node.id],
+        });
+      });
+
+    if (node.data.type === "ifElse" && node.data.config?.conditionType === "rules") {
+      const rules = parseConditionRules(node.data.config);
+      const problems = rules
+        .map((rule, index) => {
+          const problem = getConditionRuleProblem(rule);
+          return problem ? `rule ${index + 1} ${problem}` : null;
+        })
+        .filter(Boolean);
+      if (rules.length === 0 || problems.length > 0) {
+        issues.push({
+          id: `rules-${node.id}`,
+          severity: "error",
+          message:
+            rules.length === 0
+              ? `"${label}" has no condition rules`
+              : `"${label}": ${problems.join("; ")}`,
+          nodeIds: [node.id],
+        });
+      }
+    }
+
+    if (node.data.type === "delay") {
+      const problem = getDelayConfigProblem(node.data.config);
+      if (problem) {
+        issues.push({
+          id: `delay-${node.id}`,
+          severity: "error",
+          message: `"${label}" ${problem}`,
+          nodeIds: [node.id],
+        });
+      }
+    }
+
+    if (node.data.type === "schedule") {
+      const problem = getScheduleConfigProblem(node.data.config);
+      if (problem) {
+        issues.push({
+          id: `schedule-${node.id}`,
+          severity: "error",
+          message: `"${label}" ${problem}`,
+          nodeIds: [node.id],
+        });
+      }
+    }
+
+    if (node.data.type === "switch") {
+      const cases = parseSwitchCases(node.data.config);
+      const problems = cases
+        .map((switchCase, index) => {
+          const problem = getSwitchCaseProblem(switchCase);
+          if (problem) return `case "${getSwitchCaseLabel(switchCase, index)}" ${problem}`;
+          if (switchCase.mode !== "expression") return null;
+          try {
+            validateExpression(switchCase.value);
+            return null;
+          } catch (error) {
+            if (!(error instanceof ExpressionError)) throw error;
+            return `case "${getSwitchCaseLabel(switchCase, index)}" has an invalid expression: ${error.message}`;
+          }
+        })
+        .filter(Boolean);
+      if (cases.length === 0 || problems.length > 0) {
+        issues.push({
+          id: `cases-${node.id}`,
+          severity: cases.length === 0 ? "warning" : "error",
+          message:
+            cases.length === 0
+              ? `"${label}" has no cases and always takes the Default output`
+              : `"${label}": ${problems.join("; ")}`,
+          nodeIds: [node.id],
+        });
+      }
+    }
+
+    const expressionField = getExpressionField(node);
+    const expression = expressionField ? node.data.config?.[expressionField] : undefined;
+    // Data Transform code is a required field; If/Else conditions only are in expression mode
+    if (node.data.type === "ifElse" && expressionField && isEmptyValue(expression)) {
+      issues.push({
+        id: `required-${node.id}-${expressionField}`,
+        severity: "error",
+        message: `"${label}" has an empty expression`,
+        nodeIds: [node.id],
+      });
+    } else if (typeof expression === "string" && expression.trim()) {
+      try {
+        validateExpression(expression);
+      } catch (error) {
+        if (!(error instanceof ExpressionError)) throw error;
+        issues.push({
+          id: `expression-${node.id}`,
+          severity: "error",
+          message: `"${label}" has an invalid expression: ${error.message}`,
+          nodeIds: [node.id],
+        });
+      }
+    }
+  });
+
+  edges.forEach((edge) => {
+    const source = nodesById.get(edge.source);
+    const target = nodesById.get(edge.target);
+    if (!source || !target) {
+      issues.push({
+        id: `dangling-${edge.id}`,
+        severity: "error",
+        message: "A connection points to a node that no longer exists",
+        edgeId: edge.id,
+        nodeIds: source ? [source.id] : target ? [target.id] : undefined,
+      });
+      return;
+    }
+
+    if (edge.sourceHandle) {
+      const outputHandles = getNodeOutputHandles(
+        source.data.type,
+        source.data.config,
+        source.data.settings
+      );
+      if (!outputHandles?.some((handle) => handle.id === edge.sourceHandle)) {
+        issues.push({
+          id: `handle-${edge.id}`,
+          severity: "error",
+          message: `"${source.data.label}" has a connection from output "${
+            edge.data?.displayLabel ?? edge.sourceHandle
+          }" which no longer exists`,
+          nodeIds: [source.id],
+          edgeId: edge.id,
+        });
+      }
+    }
+
+    if (edge.targetHandle) {
+      const inputHandles = getNodeInputHandles(target.data.type, target.data.config);
+      if (!inputHandles?.some((handle) => handle.id === edge.targetHandle)) {
+        issues.push({
+          id: `input-${edge.id}`,
+          severity: "warning",
+          message: `"${target.data.label}" has a connection into input "${
+            edge.data?.inputLabel ?? edge.targetHandle
+          }" which no longer exists`,
+          nodeIds: [target.id],
+          edgeId: edge.id,
+        });
+      }
+    }
+  });
+
+  findCycles(nodes, edges).forEach((cycle) => {
+    const labels = cycle.map((nodeId) => nodesById.get(nodeId)?.data.label ?? nodeId);
+    issues.push({
+      id: `cycle-${cycle.join("-")}`,
+      severity: "error",
+      message: `Cycle detected: ${[...labels, labels[0]].join(" → ")}. Use Split in Batches to loop`,
+      nodeIds: cycle,
+    });
+  });
+
+  return issues;
+};
+
+export const hasBlockingIssues = (issues: ValidationIssue[]) =>
+  issues.some((issue) => issue.severity === "error");
+
+/** The issues that keep a workflow from running, as one line for API errors. */
+export const describeBlockingIssues = (issues: ValidationIssue[]) =>
+  `Fix these problems before running the workflow: ${issues
+    .filter((issue) => issue.severity === "error")
+    .map((issue) => issue.message)
+    .join("; ")}`;